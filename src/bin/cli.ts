@@ -4,9 +4,14 @@ import chalk from 'chalk';
 import { Command } from 'commander';
 import { createChatCommand } from '../cli/chat.js';
 import { createConfigCommand } from '../cli/config.js';
+import { createDaemonCommand } from '../cli/daemon.js';
 import { createErrorsCommand } from '../cli/errors.js';
 import { createLoginCommand } from '../cli/login.js';
+import { createMcpCommand } from '../cli/mcp.js';
 import { createNotebookLMCommand } from '../cli/notebooklm.js';
+import { createRiskCommand } from '../cli/risk.js';
+import { createServeCommand } from '../cli/serve.js';
+import { createSessionsCommand } from '../cli/sessions.js';
 import { createSkillCommand } from '../cli/skill.js';
 import { createSourcesCommand } from '../cli/sources.js';
 import { createSessionCommand, createStatusCommand } from '../cli/status.js';
@@ -25,11 +30,16 @@ program.addCommand(createLoginCommand());
 program.addCommand(createChatCommand());
 program.addCommand(createStatusCommand());
 program.addCommand(createSessionCommand());
+program.addCommand(createSessionsCommand());
 program.addCommand(createErrorsCommand());
+program.addCommand(createRiskCommand());
 program.addCommand(createConfigCommand());
 program.addCommand(createSkillCommand());
 program.addCommand(createNotebookLMCommand());
 program.addCommand(createSourcesCommand());
+program.addCommand(createServeCommand());
+program.addCommand(createMcpCommand());
+program.addCommand(createDaemonCommand());
 
 program.parseAsync(process.argv).catch(async (error) => {
   await recordErrorEvent(
@@ -1,2 +1,8 @@
-export { acquireProfileLock, type ProfileLock } from './lock.js';
+export { acquireFileLock, acquireProfileLock, type ProfileLock } from './lock.js';
 export { type BrowserSession, type LaunchOptions, launchBrowser } from './manager.js';
+export {
+  type BrowserPool,
+  type BrowserPoolOptions,
+  createBrowserPool,
+  type PooledContextInfo,
+} from './pool.js';
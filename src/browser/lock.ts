@@ -34,12 +34,28 @@ export async function acquireProfileLock(
   profileDir: string,
   opts: { timeoutMs?: number; pollMs?: number } = {},
 ): Promise<ProfileLock> {
-  const { timeoutMs = 30_000, pollMs = 500 } = opts;
   const lockPath = path.join(profileDir, LOCK_FILENAME);
+  return acquireFileLock(lockPath, {
+    ...opts,
+    busyMessage: (timeoutMs) =>
+      `Failed to acquire profile lock at ${lockPath} within ${timeoutMs}ms. ` +
+      'Another douzhi-chat session may be using this profile.',
+  });
+}
+
+/**
+ * Acquire a lock file held by this process until released. A lock left
+ * behind by a process that died is taken over.
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  opts: { timeoutMs?: number; pollMs?: number; busyMessage?: (timeoutMs: number) => string } = {},
+): Promise<ProfileLock> {
+  const { timeoutMs = 30_000, pollMs = 500 } = opts;
   const lockId = randomUUID();
   const deadline = Date.now() + timeoutMs;
 
-  await mkdir(profileDir, { recursive: true });
+  await mkdir(path.dirname(lockPath), { recursive: true });
 
   while (Date.now() < deadline) {
     // Try to read existing lock
@@ -104,7 +120,6 @@ export async function acquireProfileLock(
   }
 
   throw new Error(
-    `Failed to acquire profile lock at ${lockPath} within ${timeoutMs}ms. ` +
-      'Another douzhi-chat session may be using this profile.',
+    opts.busyMessage?.(timeoutMs) ?? `Failed to acquire lock at ${lockPath} within ${timeoutMs}ms.`,
   );
 }
@@ -1,13 +1,18 @@
-import { mkdir } from 'node:fs/promises';
+import { mkdir, readFile, rm } from 'node:fs/promises';
+import path from 'node:path';
 import { type BrowserContext, chromium, type Page } from 'playwright';
 import { getProfileDir } from '../paths.js';
 import type { ProviderName } from '../types.js';
 import { acquireProfileLock, type ProfileLock } from './lock.js';
 
+const DEVTOOLS_PORT_FILE = 'DevToolsActivePort';
+
 export interface BrowserSession {
   context: BrowserContext;
   page: Page;
   lock: ProfileLock;
+  /** CDP endpoint other processes can attach to, when launched with `remoteDebugging`. */
+  cdpEndpoint?: string;
   close: () => Promise<void>;
 }
 
@@ -16,6 +21,8 @@ export interface LaunchOptions {
   headless?: boolean;
   /** Initial URL to navigate to after launch. */
   url?: string;
+  /** Expose the browser over CDP on a free local port (used by the daemon). */
+  remoteDebugging?: boolean;
 }
 
 /**
@@ -23,7 +30,7 @@ export interface LaunchOptions {
  * The profile directory is per-provider, ensuring login state persists.
  */
 export async function launchBrowser(opts: LaunchOptions): Promise<BrowserSession> {
-  const { provider, headless = true, url } = opts;
+  const { provider, headless = true, url, remoteDebugging = false } = opts;
   const profileDir = getProfileDir(provider);
   await mkdir(profileDir, { recursive: true });
 
@@ -32,7 +39,13 @@ export async function launchBrowser(opts: LaunchOptions): Promise<BrowserSession
 
   let context: BrowserContext;
   let page: Page;
+  let cdpEndpoint: string | undefined;
   try {
+    if (remoteDebugging) {
+      // A crashed browser leaves the previous port behind
+      await rm(path.join(profileDir, DEVTOOLS_PORT_FILE), { force: true });
+    }
+
     context = await chromium.launchPersistentContext(profileDir, {
       headless,
       viewport: { width: 1280, height: 900 },
@@ -40,11 +53,16 @@ export async function launchBrowser(opts: LaunchOptions): Promise<BrowserSession
         '--disable-blink-features=AutomationControlled',
         '--no-first-run',
         '--no-default-browser-check',
+        ...(remoteDebugging ? ['--remote-debugging-port=0'] : []),
       ],
     });
 
     page = context.pages()[0] ?? (await context.newPage());
 
+    if (remoteDebugging) {
+      cdpEndpoint = await readDevToolsEndpoint(profileDir);
+    }
+
     if (url) {
       await page.goto(url, { waitUntil: 'domcontentloaded' });
     }
@@ -61,5 +79,24 @@ export async function launchBrowser(opts: LaunchOptions): Promise<BrowserSession
     }
   };
 
-  return { context, page, lock, close };
+  return { context, page, lock, cdpEndpoint, close };
+}
+
+/**
+ * Chromium writes the port it picked for `--remote-debugging-port=0` to
+ * `DevToolsActivePort` in the user data dir shortly after startup.
+ */
+async function readDevToolsEndpoint(profileDir: string, timeoutMs = 10_000): Promise<string> {
+  const portFile = path.join(profileDir, DEVTOOLS_PORT_FILE);
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const [port] = (await readFile(portFile, 'utf-8')).split('\n');
+      if (/^\d+$/.test(port.trim())) return `http://127.0.0.1:${port.trim()}`;
+    } catch {
+      // Not written yet
+    }
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  throw new Error(`Browser did not report a remote debugging port in ${portFile}.`);
 }
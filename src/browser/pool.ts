@@ -0,0 +1,130 @@
+import type { ProviderName } from '../types.js';
+import { type BrowserSession, type LaunchOptions, launchBrowser } from './manager.js';
+
+export interface BrowserPool {
+  /**
+   * Drop-in replacement for `launchBrowser` that reuses a warm context for the
+   * provider. Closing the returned session hands it back to the pool instead
+   * of shutting Chromium down.
+   */
+  launch: (opts: LaunchOptions) => Promise<BrowserSession>;
+  /** Providers that currently have a live context. */
+  warmProviders: () => ProviderName[];
+  /** Per-context details for status displays. */
+  describe?: () => PooledContextInfo[];
+  /** Close every pooled context and release its profile lock. */
+  closeAll: () => Promise<void>;
+}
+
+export interface PooledContextInfo {
+  provider: ProviderName;
+  headless: boolean;
+  inUse: boolean;
+  /** Milliseconds since the context was last handed back; 0 while in use. */
+  idleMs: number;
+}
+
+export interface BrowserPoolOptions {
+  /** Close contexts left unused for this long. Unset keeps them until `closeAll`. */
+  idleTtlMs?: number;
+  /** Launch contexts with a CDP endpoint so other processes can attach. */
+  remoteDebugging?: boolean;
+  /** Replaces `launchBrowser` (tests). */
+  launchBrowser?: (opts: LaunchOptions) => Promise<BrowserSession>;
+}
+
+interface PoolEntry {
+  session: BrowserSession;
+  headless: boolean;
+  inUse: boolean;
+  releasedAt: number;
+}
+
+/**
+ * Keep one persistent context per provider alive between chats.
+ * The underlying profile lock stays held while the context is warm.
+ */
+export function createBrowserPool(opts: BrowserPoolOptions = {}): BrowserPool {
+  const { idleTtlMs, remoteDebugging = false, launchBrowser: launchContext = launchBrowser } = opts;
+  const entries = new Map<ProviderName, PoolEntry>();
+
+  const evict = async (provider: ProviderName): Promise<void> => {
+    const entry = entries.get(provider);
+    if (!entry) return;
+    entries.delete(provider);
+    await entry.session.close().catch(() => {});
+  };
+
+  const reap = async (): Promise<void> => {
+    if (idleTtlMs === undefined) return;
+    const now = Date.now();
+    const expired = [...entries].filter(
+      ([, entry]) => !entry.inUse && now - entry.releasedAt >= idleTtlMs,
+    );
+    await Promise.all(expired.map(([provider]) => evict(provider)));
+  };
+
+  const reaper =
+    idleTtlMs === undefined
+      ? undefined
+      : setInterval(() => void reap(), Math.max(10, Math.min(idleTtlMs, 30_000)));
+  reaper?.unref();
+
+  const launch = async (launchOpts: LaunchOptions): Promise<BrowserSession> => {
+    const { provider, headless = true, url } = launchOpts;
+    const existing = entries.get(provider);
+
+    if (existing?.inUse) {
+      throw new Error(`Browser for ${provider} is already in use by another request.`);
+    }
+    if (existing && (existing.headless !== headless || existing.session.page.isClosed())) {
+      await evict(provider);
+    }
+
+    let entry = entries.get(provider);
+    if (entry) {
+      if (url) {
+        await entry.session.page.goto(url, { waitUntil: 'domcontentloaded' });
+      }
+    } else {
+      const session = await launchContext({ provider, headless, url, remoteDebugging });
+      const created: PoolEntry = { session, headless, inUse: false, releasedAt: Date.now() };
+      session.context.on('close', () => {
+        if (entries.get(provider) === created) entries.delete(provider);
+      });
+      entries.set(provider, created);
+      entry = created;
+    }
+
+    const leased = entry;
+    leased.inUse = true;
+    return {
+      context: leased.session.context,
+      page: leased.session.page,
+      lock: leased.session.lock,
+      cdpEndpoint: leased.session.cdpEndpoint,
+      close: async () => {
+        leased.inUse = false;
+        leased.releasedAt = Date.now();
+      },
+    };
+  };
+
+  return {
+    launch,
+    warmProviders: () => [...entries.keys()],
+    describe: () => {
+      const now = Date.now();
+      return [...entries].map(([provider, entry]) => ({
+        provider,
+        headless: entry.headless,
+        inUse: entry.inUse,
+        idleMs: entry.inUse ? 0 : now - entry.releasedAt,
+      }));
+    },
+    closeAll: async () => {
+      if (reaper) clearInterval(reaper);
+      await Promise.all([...entries.keys()].map((provider) => evict(provider)));
+    },
+  };
+}
@@ -1,25 +1,76 @@
+import { fstatSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { buildBundle } from '../core/bundle.js';
-import { runChat } from '../core/index.js';
-import { isValidProvider } from '../providers/index.js';
-import type { ProviderName } from '../types.js';
+import { loadConfig } from '../config.js';
+import {
+  type BundleReport,
+  type ChatResult,
+  type ChatRuntime,
+  type FanOutResult,
+  loadTemplate,
+  planBundle,
+  type RedactionFinding,
+  resolveContextBudget,
+  runChat,
+  runChatFanOut,
+} from '../core/index.js';
+import { connectDaemon } from '../daemon/index.js';
+import { getSessionAssetsDir } from '../paths.js';
+import { getProvider, isValidProvider, listProviders } from '../providers/index.js';
+import { getSessionContents } from '../session/index.js';
+import type { GitSelector, OverflowStrategy, PromptTemplate, ProviderName } from '../types.js';
+import { runExtraction } from './extract.js';
+
+const OVERFLOW_STRATEGIES: OverflowStrategy[] = ['drop', 'truncate', 'outline'];
 
 export function createChatCommand(): Command {
   const cmd = new Command('chat')
     .description('Chat with an AI provider via browser automation')
-    .requiredOption('-p, --prompt <text>', 'The prompt to send')
+    .option('-p, --prompt <text>', "The prompt to send ('-' reads it from stdin)")
+    .option('--prompt-file <path>', 'Read the prompt from a file')
+    .option(
+      '-t, --template <name>',
+      'Render a saved prompt template (.douzhi/templates or ~/.douzhi-chat/templates)',
+    )
+    .option('--selection <path:lines>', 'Quote lines from a file, e.g. src/app.ts:10-40')
     .option(
       '--provider <name>',
       'Provider to use (chatgpt, gemini, claude, grok, notebooklm, yuanbao, deepseek, doubao)',
     )
+    .option(
+      '--providers <names>',
+      'Comma-separated providers to query in parallel (e.g. chatgpt,claude,deepseek)',
+    )
+    .option(
+      '--fallback <names>',
+      "Comma-separated providers to try in order if the first is blocked or broken ('none' to disable the configured chain)",
+    )
     .option('--model <name>', 'Model to select')
     .option('-f, --file <paths...>', 'Files/globs to include as context')
     .option('-a, --attach <paths...>', 'Images/files to upload as attachments')
+    .option('--changed', 'Bundle uncommitted changes: their diff plus the touched files')
+    .option('--staged', 'Bundle staged changes: their diff plus the touched files')
+    .option(
+      '--since <ref>',
+      'Bundle commits since <ref> (like a pull request) and the touched files',
+    )
+    .option('--diff <ref>', 'Bundle the working tree diff against <ref> and the touched files')
     .option('--copy', 'Copy the bundle to clipboard instead of sending')
     .option('--dry-run', 'Preview the bundle without sending')
     .option('--headed', 'Show browser window during chat')
     .option('--timeout <ms>', 'Response timeout in milliseconds', '300000')
+    .option('--continue <sessionId>', 'Send a follow-up turn in an existing session conversation')
+    .option('--extract-to <dir>', 'Write code blocks from the response to <dir> as a patch')
+    .option('--budget <tokens>', "Context budget in tokens (default: the provider's)")
+    .option('--overflow <strategy>', 'Files past the budget: drop, truncate or outline', 'truncate')
+    .option('--strict', 'Refuse to send if any secrets were detected in the bundle')
+    .option('--name <name>', 'Name the session, to refer to it instead of its ID')
+    .option('--tag <tags...>', 'Tag the session (repeatable)')
+    .option(
+      '--wait-for-slot [max]',
+      'If the risk guard denies the request, wait for a slot instead of failing (at most <max>, e.g. 90s, 20m, 2h)',
+    )
     .action(async (options) => {
       const provider = options.provider as string | undefined;
       if (provider && !isValidProvider(provider)) {
@@ -27,61 +78,475 @@ export function createChatCommand(): Command {
         process.exit(1);
       }
 
-      // Dry run: just show the bundle
-      if (options.dryRun) {
-        const bundle = await buildBundle({
-          prompt: options.prompt,
-          files: options.file,
-        });
-        console.log(chalk.bold('--- Bundle Preview ---\n'));
-        console.log(bundle);
-        console.log(chalk.bold('\n--- End Preview ---'));
-        return;
+      const providers = parseProviderList(options.providers as string | undefined);
+      if (providers && provider) {
+        console.error(chalk.red('Use either --provider or --providers, not both.'));
+        process.exit(1);
+      }
+
+      const fallback =
+        options.fallback === 'none'
+          ? []
+          : parseProviderList(options.fallback as string | undefined, '--fallback');
+      if (fallback?.length && (providers || options.continue)) {
+        console.error(chalk.red('--fallback cannot be combined with --providers or --continue.'));
+        process.exit(1);
       }
 
-      // Copy to clipboard
-      if (options.copy) {
-        const bundle = await buildBundle({
-          prompt: options.prompt,
-          files: options.file,
+      const overflow = options.overflow as OverflowStrategy;
+      if (!OVERFLOW_STRATEGIES.includes(overflow)) {
+        console.error(chalk.red(`Unknown overflow strategy: ${overflow}`));
+        console.log(chalk.dim(`Available: ${OVERFLOW_STRATEGIES.join(', ')}`));
+        process.exit(1);
+      }
+      const budgetTokens = options.budget ? Number.parseInt(options.budget, 10) : undefined;
+      if (budgetTokens !== undefined && !(budgetTokens > 0)) {
+        console.error(chalk.red('--budget must be a positive number of tokens.'));
+        process.exit(1);
+      }
+
+      const waitForSlotMs = parseWaitForSlot(options.waitForSlot as string | boolean | undefined);
+      if (Number.isNaN(waitForSlotMs)) {
+        console.error(
+          chalk.red(`Invalid --wait-for-slot: ${options.waitForSlot} (use e.g. 90s, 20m or 2h)`),
+        );
+        process.exit(1);
+      }
+
+      const git = parseGitSelector(options);
+
+      if (options.prompt !== undefined && options.promptFile) {
+        console.error(chalk.red('Use either -p or --prompt-file, not both.'));
+        process.exit(1);
+      }
+      if (options.prompt === undefined && !options.promptFile && !options.template) {
+        console.error(
+          chalk.red('Provide a prompt with -p, --prompt-file or a template with --template.'),
+        );
+        process.exit(1);
+      }
+      const template = options.template
+        ? await loadTemplate(options.template).catch((error) => {
+            console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+            process.exit(1);
+          })
+        : undefined;
+      const { prompt, stdin } = await readPromptInput(options, template).catch((error) => {
+        console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      });
+      const files: string[] | undefined = options.file ?? template?.files;
+
+      // Dry run / copy: bundle for the provider(s) that would receive it
+      if (options.dryRun || options.copy) {
+        const config = await loadConfig();
+        const targets = providers ?? [
+          (provider as ProviderName | undefined) ?? template?.provider ?? config.defaultProvider,
+        ];
+        const plans = await Promise.all(
+          targets.map(async (target) => ({
+            target,
+            ...(await planBundle({
+              prompt,
+              files,
+              budget: resolveContextBudget(getProvider(target).config, budgetTokens),
+              overflow,
+              git,
+              secretPatterns: config.secretPatterns,
+              template,
+              selection: options.selection,
+              stdin,
+            })),
+          })),
+        ).catch((error) => {
+          console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+          process.exit(1);
         });
+
+        if (options.dryRun) {
+          console.log(chalk.bold('--- Bundle Preview ---\n'));
+          console.log(plans[0].bundle);
+          console.log(chalk.bold('\n--- End Preview ---'));
+          for (const plan of plans) {
+            printBudgetReport(getProvider(plan.target).config.displayName, plan.report);
+          }
+          // Every target's bundle holds the same content, so one report covers them all
+          printRedactionReport(plans[0].report.redactions);
+          if (options.strict && plans[0].report.redactions.length > 0) {
+            process.exit(1);
+          }
+          return;
+        }
+
+        if (options.strict && plans[0].report.redactions.length > 0) {
+          printRedactionReport(plans[0].report.redactions);
+          console.error(chalk.red('Refusing to copy: secrets detected (--strict).'));
+          process.exit(1);
+        }
+
         const { default: clipboardy } = await import('clipboardy');
-        await clipboardy.write(bundle);
+        await clipboardy.write(plans[0].bundle);
         console.log(chalk.green('✓ Bundle copied to clipboard'));
-        console.log(chalk.dim(`${bundle.length} characters`));
+        console.log(chalk.dim(`${plans[0].bundle.length} characters`));
+        const { attachments } = plans[0].report;
+        if (attachments.length > 0) {
+          console.log(
+            chalk.yellow(`⚠ ${attachments.length} file(s) can only be sent as attachments:`),
+          );
+          for (const attachment of attachments) console.log(chalk.dim(`  ${attachment}`));
+        }
+        return;
+      }
+
+      const timeoutMs = (() => {
+        const t = Number.parseInt(options.timeout, 10);
+        return Number.isFinite(t) && t > 0 ? t : 300_000;
+      })();
+
+      // Borrow warm browsers from `douzhi-chat daemon` when it's running
+      const daemon = await connectDaemon();
+      const runtime: ChatRuntime = daemon ? { launchBrowser: daemon.launch } : {};
+      if (daemon) {
+        console.log(chalk.dim('Using browser daemon'));
+      }
+
+      // Fan out to several providers
+      if (providers) {
+        try {
+          const results = await runChatFanOut(
+            {
+              prompt,
+              providers,
+              model: options.model,
+              file: options.file,
+              attach: options.attach,
+              headed: options.headed,
+              continueSessionId: options.continue,
+              timeoutMs,
+              budgetTokens,
+              overflow,
+              git,
+              strict: options.strict,
+              name: options.name,
+              tags: options.tag,
+              template,
+              selection: options.selection,
+              stdin,
+              waitForSlotMs,
+            },
+            {
+              onSettled: (outcome) => {
+                const mark = outcome.ok ? chalk.green('✓') : chalk.red('✗');
+                console.log(`${mark} ${outcome.provider} finished`);
+              },
+            },
+            runtime,
+          );
+          printFanOutSummary(results);
+          if (options.extractTo) {
+            for (const outcome of results) {
+              if (!outcome.result) continue;
+              console.log('');
+              console.log(chalk.bold(`Extracting ${outcome.provider}`));
+              await extractResult(outcome.result, `${options.extractTo}/${outcome.provider}`);
+            }
+          }
+          if (results.every((outcome) => !outcome.ok)) {
+            process.exit(1);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(chalk.red(`Error: ${message}`));
+          process.exit(1);
+        } finally {
+          daemon?.close();
+        }
         return;
       }
 
       // Run the chat
       try {
-        const result = await runChat({
-          prompt: options.prompt,
-          provider: provider as ProviderName | undefined,
-          model: options.model,
-          file: options.file,
-          attach: options.attach,
-          headed: options.headed,
-          timeoutMs: (() => {
-            const t = Number.parseInt(options.timeout, 10);
-            return Number.isFinite(t) && t > 0 ? t : 300_000;
-          })(),
-        });
+        const result = await runChat(
+          {
+            prompt,
+            provider: provider as ProviderName | undefined,
+            model: options.model,
+            file: options.file,
+            attach: options.attach,
+            headed: options.headed,
+            continueSessionId: options.continue,
+            timeoutMs,
+            budgetTokens,
+            overflow,
+            git,
+            strict: options.strict,
+            name: options.name,
+            tags: options.tag,
+            template,
+            selection: options.selection,
+            stdin,
+            waitForSlotMs,
+            fallback,
+          },
+          runtime,
+        );
 
         console.log('');
         console.log(chalk.bold.green('--- Response ---\n'));
         console.log(result.response);
         console.log('');
-        console.log(chalk.dim(`Session: ${result.sessionId}`));
+        console.log(chalk.dim(`Session: ${result.sessionId} (turn ${result.turn})`));
+        if (result.skippedProviders?.length) {
+          const skipped = result.skippedProviders.map(
+            (skip) => `${skip.provider} (${skip.reason})`,
+          );
+          console.log(
+            chalk.yellow(`Answered by ${result.provider} after skipping ${skipped.join(', ')}`),
+          );
+        }
         console.log(chalk.dim(`Duration: ${Math.round(result.durationMs / 1000)}s`));
+        const saved = result.assets?.filter((asset) => asset.path) ?? [];
+        if (saved.length > 0) {
+          console.log(
+            chalk.dim(`Assets: ${saved.length} saved to ${getSessionAssetsDir(result.sessionId)}`),
+          );
+        }
         if (result.truncated) {
           console.log(chalk.yellow('⚠ Response may be truncated (timeout reached)'));
         }
+        if (options.extractTo) {
+          console.log('');
+          await extractResult(result, options.extractTo);
+        }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         console.error(chalk.red(`Error: ${message}`));
         process.exit(1);
+      } finally {
+        daemon?.close();
       }
     });
 
   return cmd;
 }
+
+/** `--wait-for-slot` alone waits as long as it takes; with a value, at most that long. */
+function parseWaitForSlot(value: string | boolean | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (value === true) return Number.POSITIVE_INFINITY;
+  const match = String(value).match(/^(\d+)([smh])$/);
+  if (!match) return Number.NaN;
+  return Number(match[1]) * { s: 1000, m: 60_000, h: 3_600_000 }[match[2] as 's' | 'm' | 'h'];
+}
+
+/**
+ * The prompt from -p, `-p -` (stdin) or --prompt-file, and any piped input
+ * to bundle as its own section.
+ */
+async function readPromptInput(
+  options: { prompt?: string; promptFile?: string },
+  template: PromptTemplate | undefined,
+): Promise<{ prompt: string; stdin?: string }> {
+  if (options.prompt === '-') {
+    const prompt = (await readStdin()).trim();
+    if (!prompt) throw new Error('No prompt received on stdin.');
+    return { prompt };
+  }
+
+  const prompt = options.promptFile
+    ? await readFile(options.promptFile, 'utf-8').catch(() => {
+        throw new Error(`Prompt file not found: ${options.promptFile}`);
+      })
+    : (options.prompt ?? '');
+  // A template that asks for stdin gets it from any non-terminal; otherwise
+  // only a real pipe or redirect is read, as an inherited idle stdin would block
+  const wanted = template && /\{\{\s*stdin\s*\}\}/.test(template.body) && !process.stdin.isTTY;
+  return { prompt, stdin: wanted || isPipedStdin() ? await readStdin() : undefined };
+}
+
+function isPipedStdin(): boolean {
+  if (process.stdin.isTTY) return false;
+  try {
+    const stats = fstatSync(0);
+    return stats.isFIFO() || stats.isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function extractResult(result: ChatResult, outDir: string): Promise<void> {
+  const contents = await getSessionContents(result.sessionId);
+  const turn = contents.turns.find((candidate) => candidate.index === result.turn);
+  await runExtraction({
+    markdown: result.response,
+    bundle: turn?.bundle,
+    outDir,
+    name: `${result.sessionId.slice(0, 8)}-turn-${result.turn}`,
+  });
+}
+
+function printRedactionReport(findings: RedactionFinding[]): void {
+  console.log('');
+  if (findings.length === 0) {
+    console.log(chalk.green('No secrets detected.'));
+    return;
+  }
+  console.log(chalk.bold.yellow(`--- Redacted ${findings.length} secret(s) ---\n`));
+  for (const finding of findings) {
+    console.log(
+      `  ${chalk.yellow(finding.detector.padEnd(20))}  ${`${finding.location}:${finding.line}`.padEnd(40)}  ` +
+        chalk.dim(finding.placeholder),
+    );
+  }
+}
+
+function printBudgetReport(label: string, report: BundleReport): void {
+  const unit = report.budget?.unit ?? 'tokens';
+  const budget = report.budget
+    ? `${report.budget.limit.toLocaleString()} ${unit}, overflow: ${report.overflow}`
+    : 'no budget';
+  console.log('');
+  console.log(chalk.bold(`--- Budget: ${label} (${budget}) ---\n`));
+  const width = Math.max(40, ...report.files.map((file) => file.path.length));
+  console.log(`  ${'Prompt'.padEnd(width)}  ${report.prompt.toLocaleString().padStart(15)}`);
+  const sections = [
+    ...(report.stdin ? [{ name: 'Stdin', ...report.stdin }] : []),
+    ...(report.diff ? [{ name: `Diff (${report.diff.label})`, ...report.diff }] : []),
+  ];
+  for (const { name, size, included } of sections) {
+    const truncated = included < size;
+    console.log(
+      `  ${name.padEnd(width)}  ${included.toLocaleString().padStart(15)}  ` +
+        (truncated ? chalk.yellow('truncated') : chalk.green('full')),
+    );
+  }
+
+  for (const file of report.files) {
+    const color =
+      file.action === 'full'
+        ? chalk.green
+        : file.action === 'attached'
+          ? chalk.cyan
+          : file.action === 'dropped' || file.action === 'skipped'
+            ? chalk.red
+            : chalk.yellow;
+    const size =
+      file.included === file.size
+        ? file.size.toLocaleString()
+        : `${file.included.toLocaleString()} / ${file.size.toLocaleString()}`;
+    console.log(
+      `  ${file.path.padEnd(width)}  ${size.padStart(15)}  ${color(file.action.padEnd(10))}  ` +
+        chalk.dim(`${file.source}, modified ${new Date(file.modifiedAt).toLocaleString()}`),
+    );
+  }
+
+  const total = `${report.total.toLocaleString()} ${unit}`;
+  if (!report.budget) {
+    console.log(chalk.bold(`\n  Total: ${total}`));
+    return;
+  }
+  const percent = Math.round((report.total / report.budget.limit) * 100);
+  const line = `\n  Total: ${total} of ${report.budget.limit.toLocaleString()} (${percent}%)`;
+  console.log(report.total > report.budget.limit ? chalk.red.bold(line) : chalk.bold(line));
+}
+
+function parseGitSelector(options: {
+  changed?: boolean;
+  staged?: boolean;
+  since?: string;
+  diff?: string;
+}): GitSelector | undefined {
+  const selectors: GitSelector[] = [];
+  if (options.changed) selectors.push({ mode: 'changed' });
+  if (options.staged) selectors.push({ mode: 'staged' });
+  if (options.since) selectors.push({ mode: 'since', ref: options.since });
+  if (options.diff) selectors.push({ mode: 'diff', ref: options.diff });
+  if (selectors.length > 1) {
+    console.error(chalk.red('Use only one of --changed, --staged, --since and --diff.'));
+    process.exit(1);
+  }
+  return selectors[0];
+}
+
+function parseProviderList(raw?: string, flag = '--providers'): ProviderName[] | undefined {
+  if (!raw) return undefined;
+
+  const names = raw
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const invalid = names.filter((name) => !isValidProvider(name));
+  if (invalid.length > 0) {
+    console.error(chalk.red(`Unknown provider(s): ${invalid.join(', ')}`));
+    console.log(chalk.dim(`Available: ${listProviders().join(', ')}`));
+    process.exit(1);
+  }
+  if (names.length === 0) {
+    console.error(chalk.red(`${flag} requires at least one provider name.`));
+    process.exit(1);
+  }
+
+  return [...new Set(names)] as ProviderName[];
+}
+
+function printFanOutSummary(results: FanOutResult[]): void {
+  const rows = results.map((outcome) => {
+    const result = outcome.result;
+    return {
+      provider: outcome.provider,
+      status: !outcome.ok ? 'failed' : result?.truncated ? 'truncated' : 'ok',
+      duration: result ? `${Math.round(result.durationMs / 1000)}s` : '-',
+      session: result ? result.sessionId.slice(0, 8) : '-',
+      preview: outcome.ok
+        ? (result?.response ?? '').replace(/\s+/g, ' ').slice(0, 60)
+        : (outcome.error ?? '').slice(0, 60),
+    };
+  });
+
+  const widths = {
+    provider: Math.max(8, ...rows.map((row) => row.provider.length)),
+    status: Math.max(6, ...rows.map((row) => row.status.length)),
+    duration: Math.max(8, ...rows.map((row) => row.duration.length)),
+    session: 8,
+  };
+
+  console.log('');
+  console.log(chalk.bold('--- Summary ---\n'));
+  console.log(
+    chalk.dim(
+      `  ${'Provider'.padEnd(widths.provider)}  ${'Status'.padEnd(widths.status)}  ` +
+        `${'Duration'.padEnd(widths.duration)}  ${'Session'.padEnd(widths.session)}  Preview`,
+    ),
+  );
+  for (const row of rows) {
+    const status =
+      row.status === 'ok' ? chalk.green : row.status === 'failed' ? chalk.red : chalk.yellow;
+    console.log(
+      `  ${chalk.bold(row.provider.padEnd(widths.provider))}  ${status(row.status.padEnd(widths.status))}  ` +
+        `${row.duration.padEnd(widths.duration)}  ${chalk.cyan(row.session.padEnd(widths.session))}  ` +
+        chalk.dim(row.preview),
+    );
+  }
+
+  for (const outcome of results) {
+    console.log('');
+    if (outcome.ok && outcome.result) {
+      console.log(chalk.bold.green(`--- ${outcome.provider} ---\n`));
+      console.log(outcome.result.response);
+      console.log('');
+      console.log(chalk.dim(`Session: ${outcome.result.sessionId}`));
+      if (outcome.result.truncated) {
+        console.log(chalk.yellow('⚠ Response may be truncated (timeout reached)'));
+      }
+    } else {
+      console.log(chalk.bold.red(`--- ${outcome.provider} ---\n`));
+      console.log(chalk.red(`Error: ${outcome.error}`));
+    }
+  }
+}
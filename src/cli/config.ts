@@ -2,7 +2,22 @@ import chalk from 'chalk';
 import { Command } from 'commander';
 import { loadConfig, saveConfig } from '../config.js';
 import { isValidProvider } from '../providers/index.js';
-import type { ProviderName } from '../types.js';
+import type { ProviderName, RetentionPolicy } from '../types.js';
+
+const RETENTION_KEYS: Record<string, keyof RetentionPolicy> = {
+  'retention-days': 'maxAgeDays',
+  'retention-max-sessions': 'maxSessions',
+  'retention-max-mb': 'maxTotalMb',
+};
+const CONFIG_KEYS = [
+  'provider',
+  'model',
+  'timeout',
+  'headless',
+  'daemon-ttl',
+  'fallback',
+  ...Object.keys(RETENTION_KEYS),
+];
 
 export function createConfigCommand(): Command {
   const cmd = new Command('config').description('View or modify configuration');
@@ -19,7 +34,7 @@ export function createConfigCommand(): Command {
   cmd
     .command('set')
     .description('Set a configuration value')
-    .argument('<key>', 'Configuration key (provider, model, timeout, headless)')
+    .argument('<key>', `Configuration key (${CONFIG_KEYS.join(', ')})`)
     .argument('<value>', 'Configuration value')
     .action(async (key: string, value: string) => {
       const config = await loadConfig();
@@ -41,9 +56,43 @@ export function createConfigCommand(): Command {
         case 'headless':
           config.headless = value === 'true';
           break;
+        case 'daemon-ttl': {
+          // Same rule as `daemon start --idle-ttl`: a positive number of milliseconds
+          const ttl = Number.parseInt(value, 10);
+          if (!Number.isFinite(ttl) || ttl <= 0) {
+            console.error(chalk.red(`Invalid daemon-ttl: ${value}`));
+            process.exit(1);
+          }
+          config.daemonIdleTtlMs = ttl;
+          break;
+        }
+        case 'fallback': {
+          // A comma-separated chain; "off" removes it
+          const names = value === 'off' ? [] : value.split(',').map((name) => name.trim());
+          const invalid = names.filter((name) => !isValidProvider(name));
+          if (invalid.length > 0) {
+            console.error(chalk.red(`Invalid provider: ${invalid.join(', ')}`));
+            process.exit(1);
+          }
+          config.fallbackProviders = names.length > 0 ? (names as ProviderName[]) : undefined;
+          break;
+        }
+        case 'retention-days':
+        case 'retention-max-sessions':
+        case 'retention-max-mb': {
+          // 0 or "off" removes the limit
+          const limit = value === 'off' ? 0 : Number.parseFloat(value);
+          if (!Number.isFinite(limit) || limit < 0) {
+            console.error(chalk.red(`Invalid ${key}: ${value}`));
+            process.exit(1);
+          }
+          const field = RETENTION_KEYS[key];
+          config.retention = { ...config.retention, [field]: limit || undefined };
+          break;
+        }
         default:
           console.error(chalk.red(`Unknown config key: ${key}`));
-          console.log(chalk.dim('Available keys: provider, model, timeout, headless'));
+          console.log(chalk.dim(`Available keys: ${CONFIG_KEYS.join(', ')}`));
           process.exit(1);
       }
 
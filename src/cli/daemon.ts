@@ -0,0 +1,171 @@
+import { spawn } from 'node:child_process';
+import { mkdir, open } from 'node:fs/promises';
+import path from 'node:path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { loadConfig } from '../config.js';
+import { connectDaemon, type DaemonStatus, startDaemonServer } from '../daemon/index.js';
+import { getDaemonLogPath } from '../paths.js';
+
+const START_TIMEOUT_MS = 15_000;
+
+export function createDaemonCommand(): Command {
+  const cmd = new Command('daemon').description(
+    'Keep provider browsers warm in a background process shared by CLI runs',
+  );
+
+  cmd
+    .command('start')
+    .description('Start the browser daemon in the background')
+    .option('--idle-ttl <ms>', 'Close a provider browser after this long unused')
+    .action(async (options: { idleTtl?: string }) => {
+      const idleTtlMs = await resolveIdleTtl(options.idleTtl);
+
+      const running = await connectDaemon();
+      if (running) {
+        running.close();
+        console.log(chalk.yellow('Browser daemon is already running.'));
+        return;
+      }
+
+      const logPath = getDaemonLogPath();
+      await mkdir(path.dirname(logPath), { recursive: true });
+      const log = await open(logPath, 'a');
+      const child = spawn(
+        process.execPath,
+        [...process.execArgv, process.argv[1], 'daemon', 'run', '--idle-ttl', String(idleTtlMs)],
+        { detached: true, stdio: ['ignore', log.fd, log.fd], env: process.env },
+      );
+      child.unref();
+      await log.close();
+
+      const deadline = Date.now() + START_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        const client = await connectDaemon();
+        if (client) {
+          client.close();
+          console.log(chalk.green(`✓ Browser daemon started (pid ${child.pid})`));
+          console.log(chalk.dim(`Idle browsers close after ${formatDuration(idleTtlMs)}.`));
+          console.log(chalk.dim(`Log: ${logPath}`));
+          return;
+        }
+        await new Promise((r) => setTimeout(r, 200));
+      }
+
+      console.error(chalk.red(`Browser daemon did not start. See ${logPath}`));
+      process.exit(1);
+    });
+
+  cmd
+    .command('run', { hidden: true })
+    .description('Run the browser daemon in the foreground')
+    .option('--idle-ttl <ms>', 'Close a provider browser after this long unused')
+    .action(async (options: { idleTtl?: string }) => {
+      const idleTtlMs = await resolveIdleTtl(options.idleTtl);
+      try {
+        const daemon = await startDaemonServer({ idleTtlMs });
+        console.log(`[${new Date().toISOString()}] daemon listening on ${daemon.socketPath}`);
+
+        const shutdown = () => void daemon.close();
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+
+        await daemon.closed;
+        console.log(`[${new Date().toISOString()}] daemon stopped`);
+        process.exit(0);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(chalk.red(`Failed to start daemon: ${message}`));
+        process.exit(1);
+      }
+    });
+
+  cmd
+    .command('stop')
+    .description('Stop the browser daemon and close its browsers')
+    .action(async () => {
+      const client = await connectDaemon();
+      if (!client) {
+        console.log(chalk.dim('Browser daemon is not running.'));
+        return;
+      }
+
+      await client.request('stop');
+      client.close();
+
+      // Wait for the socket to go away so a following `start` doesn't race it
+      const deadline = Date.now() + START_TIMEOUT_MS;
+      while (Date.now() < deadline) {
+        const probe = await connectDaemon();
+        if (!probe) {
+          console.log(chalk.green('✓ Browser daemon stopped'));
+          return;
+        }
+        probe.close();
+        await new Promise((r) => setTimeout(r, 200));
+      }
+      console.error(chalk.red('Browser daemon is still shutting down.'));
+      process.exit(1);
+    });
+
+  cmd
+    .command('status')
+    .description('Show the daemon and its warm provider browsers')
+    .action(async () => {
+      const client = await connectDaemon();
+      if (!client) {
+        console.log(chalk.dim('Browser daemon is not running.'));
+        console.log(chalk.dim('Start it with: douzhi-chat daemon start'));
+        return;
+      }
+
+      const status = await client.request<DaemonStatus>('status');
+      client.close();
+      printStatus(status);
+    });
+
+  return cmd;
+}
+
+async function resolveIdleTtl(raw?: string): Promise<number> {
+  if (raw === undefined) {
+    return (await loadConfig()).daemonIdleTtlMs;
+  }
+  const ms = Number.parseInt(raw, 10);
+  if (!Number.isFinite(ms) || ms <= 0) {
+    console.error(chalk.red(`Invalid idle TTL: ${raw}`));
+    process.exit(1);
+  }
+  return ms;
+}
+
+function printStatus(status: DaemonStatus): void {
+  console.log(chalk.bold('Browser Daemon\n'));
+  console.log(`  pid:      ${status.pid}`);
+  console.log(`  started:  ${new Date(status.startedAt).toLocaleString()}`);
+  console.log(`  idle TTL: ${formatDuration(status.idleTtlMs)}`);
+  console.log(`  socket:   ${status.socketPath}`);
+  console.log('');
+
+  if (status.contexts.length === 0) {
+    console.log(chalk.dim('  No warm browsers.'));
+    return;
+  }
+  for (const context of status.contexts) {
+    const mode = context.headless ? 'headless' : 'headed';
+    const state = context.inUse
+      ? chalk.yellow('in use')
+      : chalk.green(`idle ${formatDuration(context.idleMs)}`);
+    const waiting = Math.max(0, (status.pending[context.provider] ?? 0) - 1);
+    const queued = waiting > 0 ? chalk.dim(` (${waiting} waiting)`) : '';
+    console.log(`  ${context.provider.padEnd(12)} ${mode.padEnd(9)} ${state}${queued}`);
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+}
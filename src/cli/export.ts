@@ -0,0 +1,68 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportSessions,
+  importSessions,
+} from '../session/index.js';
+
+const EXTENSION_FORMATS: Record<string, ExportFormat> = {
+  '.md': 'md',
+  '.markdown': 'md',
+  '.html': 'html',
+  '.htm': 'html',
+  '.jsonl': 'jsonl',
+};
+
+export function createSessionExportCommand(): Command {
+  return new Command('export')
+    .description('Export sessions as a Markdown or HTML transcript, or JSONL records')
+    .argument('<id...>', 'Session IDs')
+    .option(
+      '--format <format>',
+      `Output format (${EXPORT_FORMATS.join(', ')}; default: from -o, else md)`,
+    )
+    .option('-o, --output <path>', 'Write to a file instead of stdout')
+    .action(async (ids: string[], options: { format?: string; output?: string }) => {
+      const format =
+        options.format ??
+        (options.output && EXTENSION_FORMATS[path.extname(options.output).toLowerCase()]) ??
+        'md';
+      if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Invalid format '${format}'. Available: ${EXPORT_FORMATS.join(', ')}`);
+      }
+
+      const output = await exportSessions(ids, format as ExportFormat);
+      if (!options.output) {
+        process.stdout.write(output);
+        return;
+      }
+      await writeFile(options.output, output, 'utf-8');
+      console.log(chalk.green(`✓ Exported ${ids.length} session(s) to ${options.output}`));
+    });
+}
+
+export function createSessionImportCommand(): Command {
+  return new Command('import')
+    .description('Restore sessions from files written by session export')
+    .argument('<file...>', 'Exported .md, .html or .jsonl files')
+    .option('--overwrite', 'Replace sessions that already exist')
+    .action(async (files: string[], options: { overwrite?: boolean }) => {
+      for (const file of files) {
+        const content = await readFile(file, 'utf-8').catch(() => null);
+        if (content === null) throw new Error(`File not found: ${file}`);
+
+        for (const session of await importSessions(content, options)) {
+          const turns = chalk.dim(`(${session.turns} turn${session.turns === 1 ? '' : 's'})`);
+          if (session.imported) {
+            console.log(chalk.green(`✓ Imported ${session.id} ${turns}`));
+          } else {
+            console.log(chalk.yellow(`Skipped ${session.id}: already exists (use --overwrite)`));
+          }
+        }
+      }
+    });
+}
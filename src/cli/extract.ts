@@ -0,0 +1,122 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { planExtraction, writeExtraction } from '../core/index.js';
+import { getSessionContents } from '../session/index.js';
+
+export interface ExtractRunOptions {
+  markdown: string;
+  bundle?: string | null;
+  outDir: string;
+  /** Patch file name without extension. */
+  name: string;
+  files?: boolean;
+  dryRun?: boolean;
+  baseDir?: string;
+}
+
+/**
+ * Preview the changes a response proposes, then write them to `outDir`
+ * (unless dry-running). Shared by `session extract` and `chat --extract-to`.
+ */
+export async function runExtraction(opts: ExtractRunOptions): Promise<void> {
+  const plan = await planExtraction({
+    markdown: opts.markdown,
+    bundle: opts.bundle,
+    baseDir: opts.baseDir,
+  });
+
+  for (const block of plan.skipped) {
+    const label = block.path ?? (block.language || 'code');
+    console.log(chalk.dim(`  skipped ${label} (line ${block.line}): ${block.reason}`));
+  }
+  if (plan.changes.length === 0) {
+    console.log(chalk.dim('No file changes found in the response.'));
+    return;
+  }
+
+  console.log(chalk.bold('--- Diff Preview ---\n'));
+  for (const change of plan.changes) {
+    const tag = change.kind === 'create' ? chalk.green('new') : chalk.yellow('modified');
+    const origin = change.bundled ? '' : chalk.dim(' (not in bundle)');
+    console.log(`${chalk.bold(change.path)} ${tag}${origin}`);
+    console.log(colorDiff(change.diff));
+  }
+
+  if (opts.dryRun) {
+    console.log(chalk.dim(`Dry run: ${plan.changes.length} file(s) not written.`));
+    return;
+  }
+
+  const written = await writeExtraction(plan, {
+    outDir: opts.outDir,
+    files: opts.files,
+    name: opts.name,
+  });
+  for (const file of written) {
+    console.log(chalk.green(`✓ Wrote ${file}`));
+  }
+  if (!opts.files) {
+    console.log(chalk.dim(`Review, then apply with: git apply ${written[0]}`));
+  }
+}
+
+function colorDiff(diff: string): string {
+  return diff
+    .trimEnd()
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
+}
+
+export function createSessionExtractCommand(): Command {
+  return new Command('extract')
+    .description('Extract code blocks from a response into a patch or files')
+    .argument('<id>', 'Session ID (or prefix)')
+    .option('--turn <n>', 'Turn to extract from (default: latest with a response)')
+    .option('--to <dir>', 'Output directory (default: ./extracted-<id>)')
+    .option('--files', 'Write full file contents instead of a patch')
+    .option('--dry-run', 'Show the diff preview without writing')
+    .action(
+      async (
+        id: string,
+        options: { turn?: string; to?: string; files?: boolean; dryRun?: boolean },
+      ) => {
+        const contents = await getSessionContents(id).catch(() => null);
+        if (!contents) {
+          console.error(chalk.red(`Session not found: ${id}`));
+          process.exit(1);
+        }
+
+        const wanted = options.turn ? Number.parseInt(options.turn, 10) : undefined;
+        const turn = wanted
+          ? contents.turns.find((candidate) => candidate.index === wanted)
+          : [...contents.turns].reverse().find((candidate) => candidate.response !== null);
+        if (!turn?.response) {
+          console.error(
+            chalk.red(
+              wanted ? `No response captured for turn ${wanted}.` : 'No response captured yet.',
+            ),
+          );
+          process.exit(1);
+        }
+
+        const shortId = contents.meta.id.slice(0, 8);
+        await runExtraction({
+          markdown: turn.response,
+          bundle: turn.bundle,
+          outDir: options.to ?? `extracted-${shortId}`,
+          name: `${shortId}-turn-${turn.index}`,
+          files: options.files,
+          dryRun: options.dryRun,
+          // Bundle and response paths are relative to where the chat ran
+          baseDir: contents.meta.cwd,
+        });
+      },
+    );
+}
@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { launchBrowser } from '../browser/index.js';
+import { type BrowserSession, type LaunchOptions, launchBrowser } from '../browser/index.js';
+import { connectDaemon } from '../daemon/index.js';
 import { getProvider, isValidProvider, listProviders } from '../providers/index.js';
 import { recordErrorEvent } from '../telemetry/errors.js';
 import type { ProviderName } from '../types.js';
@@ -63,12 +64,12 @@ async function loginToProvider(providerName: ProviderName): Promise<void> {
   console.log(chalk.blue(`Opening ${provider.config.displayName} for login...`));
   console.log(chalk.dim('Please login in the browser window. The session will be saved.'));
 
-  let browser: Awaited<ReturnType<typeof launchBrowser>> | null = null;
+  let browser: BrowserSession | null = null;
   let stage = 'launch_browser_for_login';
   const startedAt = Date.now();
 
   try {
-    browser = await launchBrowser({
+    browser = await launchWithDaemon({
       provider: providerName,
       headless: false, // Always headed for login
       url: provider.config.loginUrl,
@@ -122,7 +123,7 @@ async function checkLoginStatus(): Promise<void> {
   for (const name of listProviders()) {
     const provider = getProvider(name);
     try {
-      const browser = await launchBrowser({
+      const browser = await launchWithDaemon({
         provider: name,
         headless: true,
         url: provider.config.url,
@@ -148,3 +149,27 @@ async function checkLoginStatus(): Promise<void> {
     }
   }
 }
+
+/**
+ * A running daemon holds every warm profile's lock, so borrow its context
+ * instead of waiting on the lock.
+ */
+async function launchWithDaemon(opts: LaunchOptions): Promise<BrowserSession> {
+  const daemon = await connectDaemon();
+  if (!daemon) return launchBrowser(opts);
+
+  const session = await daemon.launch(opts).catch((error) => {
+    daemon.close();
+    throw error;
+  });
+  return {
+    ...session,
+    close: async () => {
+      try {
+        await session.close();
+      } finally {
+        daemon.close();
+      }
+    },
+  };
+}
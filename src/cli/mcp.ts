@@ -0,0 +1,23 @@
+import { Command } from 'commander';
+import { createBrowserPool } from '../browser/index.js';
+import { createMcpServer, serveMcpStdio } from '../mcp/server.js';
+import { createMcpTools } from '../mcp/tools.js';
+
+export function createMcpCommand(): Command {
+  return new Command('mcp')
+    .description('Run an MCP server over stdio so coding agents can call providers as tools')
+    .action(async () => {
+      // Stdout belongs to the protocol; route chat/NotebookLM progress logs to stderr.
+      console.log = console.error;
+      console.info = console.error;
+      console.debug = console.error;
+
+      const pool = createBrowserPool();
+      const tools = createMcpTools({ pool });
+      const server = createMcpServer({ name: 'douzhi-chat', version: '0.4.2' }, tools);
+      console.error(`douzhi-chat MCP server ready (${tools.length} tools)`);
+      await serveMcpStdio(server);
+      // The client closed stdin: release warm browsers and their profile locks.
+      await pool.closeAll();
+    });
+}
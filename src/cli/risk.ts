@@ -0,0 +1,242 @@
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline/promises';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { loadConfig } from '../config.js';
+import {
+  type ChatRunMode,
+  explainRiskGuard,
+  getRiskPolicies,
+  getRiskStatus,
+  type ProviderRiskStatus,
+  type RiskCheck,
+  type RiskPolicyReport,
+  type RiskRule,
+  type RiskUsage,
+  resetRiskState,
+} from '../core/index.js';
+import { isValidProvider, listProviders } from '../providers/index.js';
+import type { ProviderName } from '../types.js';
+import { formatDuration } from './daemon.js';
+
+const MODES: ChatRunMode[] = ['headed', 'headless'];
+const RECENT_EVENTS = 5;
+const RULE_LABELS: Record<RiskRule, string> = {
+  breaker: 'breaker',
+  cooldown: 'cooldown',
+  min_interval: 'min interval',
+  attempts: 'attempts',
+  headless_attempts: 'headless',
+  same_prompt: 'same prompt',
+};
+
+export function createRiskCommand(): Command {
+  const cmd = new Command('risk').description(
+    'Inspect, explain and reset the risk guard that rate-limits provider requests',
+  );
+
+  cmd
+    .command('status')
+    .description('Show cooldowns, breakers, window usage and recent risk events')
+    .argument('[provider]', 'Only this provider (default: every provider with recorded activity)')
+    .option('--json', 'Print JSON')
+    .action(async (provider: string | undefined, options: { json?: boolean }) => {
+      const statuses = await getRiskStatus(provider ? parseProvider(provider) : undefined);
+      if (options.json) {
+        console.log(JSON.stringify(statuses, null, 2));
+        return;
+      }
+      if (statuses.length === 0) {
+        console.log(chalk.dim('No risk-guard activity recorded.'));
+        return;
+      }
+      for (const status of statuses) printStatus(status);
+    });
+
+  cmd
+    .command('explain')
+    .description('Dry-run the risk guard for a prompt without recording an attempt')
+    .option('-p, --prompt <text>', 'The prompt that would be sent')
+    .option('--prompt-file <path>', 'Read the prompt from a file')
+    .option('--provider <name>', 'Provider to check (default: the configured provider)')
+    .option('--mode <mode>', `Browser mode (${MODES.join(', ')}; default: from config)`)
+    .option('--json', 'Print JSON')
+    .action(
+      async (options: {
+        prompt?: string;
+        promptFile?: string;
+        provider?: string;
+        mode?: string;
+        json?: boolean;
+      }) => {
+        if ((options.prompt === undefined) === !options.promptFile) {
+          throw new Error('Provide the prompt with either -p or --prompt-file.');
+        }
+        if (options.mode && !MODES.includes(options.mode as ChatRunMode)) {
+          throw new Error(`Invalid mode '${options.mode}'. Available: ${MODES.join(', ')}`);
+        }
+        const config = await loadConfig();
+        const prompt = options.promptFile
+          ? await readFile(options.promptFile, 'utf-8')
+          : (options.prompt ?? '');
+        const explanation = await explainRiskGuard({
+          provider: options.provider ? parseProvider(options.provider) : config.defaultProvider,
+          mode:
+            (options.mode as ChatRunMode | undefined) ?? (config.headless ? 'headless' : 'headed'),
+          prompt,
+        });
+        if (options.json) {
+          console.log(JSON.stringify(explanation, null, 2));
+          return;
+        }
+
+        const { provider, mode, decision, checks } = explanation;
+        console.log(chalk.bold(`Risk guard for ${provider} (${mode})\n`));
+        for (const check of checks) printCheck(check);
+        console.log('');
+        if (decision.allowed) {
+          console.log(chalk.green('✓ This request would be sent.'));
+        } else {
+          const wait = decision.waitMs ? ` Retry in ~${formatDuration(decision.waitMs)}.` : '';
+          console.log(chalk.red(`✗ This request would be blocked: ${decision.message}${wait}`));
+        }
+      },
+    );
+
+  cmd
+    .command('policy')
+    .description('Inspect the risk policies in effect')
+    .addCommand(
+      new Command('show')
+        .description('Print the effective policy: built-in limits merged with config.json')
+        .argument('[provider]', 'Only this provider (default: every provider)')
+        .option('--json', 'Print JSON')
+        .action(async (provider: string | undefined, options: { json?: boolean }) => {
+          const reports = await getRiskPolicies(
+            provider ? [parseProvider(provider)] : listProviders(),
+          );
+          if (options.json) {
+            console.log(JSON.stringify(reports, null, 2));
+            return;
+          }
+          for (const report of reports) printPolicy(report);
+          console.log(chalk.dim('Override these under riskPolicy in config.json.'));
+        }),
+    );
+
+  cmd
+    .command('reset')
+    .description("Clear a provider's attempts, risk events, cooldown and breaker")
+    .argument('<provider>', 'Provider to reset')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .action(async (providerArg: string, options: { yes?: boolean }) => {
+      const provider = parseProvider(providerArg);
+      if (!options.yes && !(await confirm(`Reset the risk-guard state for ${provider}?`))) {
+        console.log(chalk.dim('Cancelled.'));
+        return;
+      }
+      if (await resetRiskState(provider)) {
+        console.log(chalk.green(`✓ Reset the risk-guard state for ${provider}`));
+      } else {
+        console.log(chalk.dim(`No risk-guard state recorded for ${provider}.`));
+      }
+    });
+
+  return cmd;
+}
+
+function parseProvider(name: string): ProviderName {
+  if (!isValidProvider(name)) throw new Error(`Unknown provider: ${name}`);
+  return name;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Refusing to reset without confirmation; pass --yes to skip it.');
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^y(es)?$/i.test((await rl.question(`${question} [y/N] `)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function printStatus(status: ProviderRiskStatus): void {
+  const { policy, nextAttemptMs } = status;
+  console.log(chalk.bold(status.provider));
+  console.log(
+    `  Breaker:      ${
+      status.breakerMs
+        ? chalk.red(`open for ${formatDuration(status.breakerMs)}`)
+        : chalk.green('closed')
+    }` +
+      chalk.dim(
+        ` (${status.consecutiveRiskEvents}/${policy.breakerConsecutiveRiskThreshold} consecutive risk outcomes)`,
+      ),
+  );
+  console.log(
+    `  Cooldown:     ${
+      status.cooldownMs
+        ? chalk.yellow(`${formatDuration(status.cooldownMs)} left`)
+        : chalk.green('none')
+    }`,
+  );
+  console.log(`  Attempts:     ${formatUsage(status.attempts)}`);
+  console.log(`  Headless:     ${formatUsage(status.headlessAttempts)}`);
+  const next = MODES.map((mode) =>
+    nextAttemptMs[mode] ? `${mode} in ${formatDuration(nextAttemptMs[mode])}` : `${mode} now`,
+  );
+  console.log(`  Next attempt: ${next.join(', ')}`);
+  if (status.lastAttemptAt) {
+    console.log(chalk.dim(`  Last attempt: ${new Date(status.lastAttemptAt).toLocaleString()}`));
+  }
+  if (status.riskEvents.length > 0) {
+    console.log('  Recent risk events:');
+    for (const event of status.riskEvents.slice(0, RECENT_EVENTS)) {
+      console.log(
+        `    ${chalk.dim(new Date(event.at).toLocaleString())} ${chalk.yellow(event.kind)}` +
+          (event.message ? chalk.dim(` ${event.message.split('\n')[0].slice(0, 100)}`) : ''),
+      );
+    }
+  }
+  console.log('');
+}
+
+function printPolicy({ provider, policy, configured }: RiskPolicyReport): void {
+  const { cooldownByOutcomeMs, ...limits } = policy;
+  const rows: Array<[string, number]> = [
+    ...Object.entries(limits),
+    ...Object.entries(cooldownByOutcomeMs).map(([kind, ms]): [string, number] => [
+      `cooldownByOutcomeMs.${kind}`,
+      ms ?? 0,
+    ]),
+  ];
+  const width = Math.max(...rows.map(([key]) => key.length));
+  console.log(chalk.bold(provider));
+  for (const [key, value] of rows) {
+    const shown = /Ms($|[A-Z.])/.test(key) ? formatDuration(value) : String(value);
+    const source = configured.includes(key) ? chalk.cyan(' (config)') : '';
+    console.log(`  ${key.padEnd(width)}  ${shown}${source}`);
+  }
+  console.log('');
+}
+
+function printCheck({ rule, passed, waitMs, usage }: RiskCheck): void {
+  const label = RULE_LABELS[rule].padEnd(13);
+  let detail: string;
+  if (rule === 'breaker') {
+    detail = `${usage?.used}/${usage?.limit} consecutive risk outcomes`;
+    if (waitMs) detail = `open for ${formatDuration(waitMs)}; ${detail}`;
+  } else if (usage) {
+    detail = formatUsage(usage);
+    if (waitMs) detail += ` → ${formatDuration(waitMs)} cooldown`;
+  } else {
+    detail = waitMs ? `${formatDuration(waitMs)} left` : 'clear';
+  }
+  console.log(`  ${passed ? chalk.green('✓') : chalk.red('✗')} ${label} ${chalk.dim(detail)}`);
+}
+
+function formatUsage({ used, limit, windowMs }: RiskUsage): string {
+  return `${used}/${limit} in the last ${formatDuration(windowMs)}`;
+}
@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { startApiServer } from '../server/http.js';
+
+export function createServeCommand(): Command {
+  return new Command('serve')
+    .description('Run a local HTTP API for chat, sessions and error history')
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .option('--port <port>', 'Port to listen on', '8765')
+    .action(async (options) => {
+      const port = Number.parseInt(options.port as string, 10);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red(`Invalid port: ${options.port}`));
+        process.exit(1);
+      }
+
+      try {
+        const api = await startApiServer({ host: options.host as string, port });
+        console.log(chalk.green(`✓ Listening on ${api.url}`));
+        console.log(chalk.dim('Routes: POST /chat, GET /sessions, GET /sessions/:id, GET /errors'));
+        console.log(chalk.dim('OpenAI-compatible: POST /v1/chat/completions, GET /v1/models'));
+        console.log(chalk.dim('Browser contexts stay warm between requests. Ctrl+C to stop.'));
+
+        let stopping = false;
+        const shutdown = async () => {
+          if (stopping) return;
+          stopping = true;
+          console.log(chalk.dim('\nClosing browsers...'));
+          await api.close();
+          process.exit(0);
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(chalk.red(`Failed to start server: ${message}`));
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,161 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { isValidProvider } from '../providers/index.js';
+import { pruneSessions, type SearchSnippet, searchSessions } from '../session/index.js';
+import type { SessionStatus } from '../types.js';
+
+const STATUSES: SessionStatus[] = ['pending', 'running', 'completed', 'failed', 'timeout'];
+const RELATIVE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function createSessionsCommand(): Command {
+  return new Command('sessions')
+    .description('Work with the session history')
+    .addCommand(createSessionsSearchCommand())
+    .addCommand(createSessionsPruneCommand());
+}
+
+function createSessionsSearchCommand(): Command {
+  return new Command('search')
+    .description('Full-text search across session bundles and responses')
+    .argument('<query...>', 'Words to find (all must match; append * for a prefix)')
+    .option('--provider <name>', 'Only sessions with this provider')
+    .option('--model <name>', 'Only sessions whose model contains this text')
+    .option('--status <status>', `Only sessions with this status (${STATUSES.join(', ')})`)
+    .option('--since <date>', 'Only sessions created after a date or age (e.g. 2025-01-31, 7d)')
+    .option('--until <date>', 'Only sessions created before a date or age')
+    .option('--limit <n>', 'Maximum number of results', '20')
+    .option('--json', 'Print JSON instead of snippets')
+    .action(async (words: string[], options) => {
+      if (options.provider && !isValidProvider(options.provider)) {
+        throw new Error(`Unknown provider: ${options.provider}`);
+      }
+      if (options.status && !STATUSES.includes(options.status)) {
+        throw new Error(`Invalid status '${options.status}'. Available: ${STATUSES.join(', ')}`);
+      }
+      const limit = Number.parseInt(options.limit, 10);
+      const query = words.join(' ');
+
+      const hits = await searchSessions(query, {
+        provider: options.provider,
+        model: options.model,
+        status: options.status,
+        since: options.since ? parseDate(options.since) : undefined,
+        until: options.until ? parseDate(options.until) : undefined,
+        limit: Number.isFinite(limit) && limit > 0 ? limit : 20,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(hits, null, 2));
+        return;
+      }
+      if (hits.length === 0) {
+        console.log(chalk.dim(`No sessions match "${query}".`));
+        return;
+      }
+
+      console.log(chalk.bold(`Search results for "${query}" (${hits.length})\n`));
+      for (const { session, turn, snippets } of hits) {
+        const turnLabel = (session.turns?.length ?? 0) > 1 ? ` · turn ${turn}` : '';
+        console.log(
+          `  ${chalk.cyan(session.id.slice(0, 8))} ${chalk.bold(session.provider)}` +
+            chalk.dim(
+              `${session.model ? ` · ${session.model}` : ''} · ${session.status}` +
+                ` · ${new Date(session.createdAt).toLocaleString()}${turnLabel}`,
+            ),
+        );
+        for (const snippet of snippets) {
+          console.log(`    ${chalk.dim(`${snippet.file}:`)} ${highlight(snippet)}`);
+        }
+        console.log('');
+      }
+      console.log(chalk.dim('Open a result with: douzhi-chat session <id> --render'));
+    });
+}
+
+function highlight({ text, highlights }: SearchSnippet): string {
+  let output = '';
+  let position = 0;
+  for (const [start, end] of highlights) {
+    output += text.slice(position, start) + chalk.yellow.bold(text.slice(start, end));
+    position = end;
+  }
+  return output + text.slice(position);
+}
+
+function createSessionsPruneCommand(): Command {
+  return new Command('prune')
+    .description('Delete old or unwanted sessions')
+    .option('--older-than <age>', 'Only sessions not updated for this long (e.g. 30d, 12h, 2w)')
+    .option(
+      '--status <list>',
+      `Only sessions with these statuses (comma-separated: ${STATUSES.join(', ')})`,
+    )
+    .option('--dry-run', 'List the sessions that would be deleted')
+    .action(async (options: { olderThan?: string; status?: string; dryRun?: boolean }) => {
+      if (!options.olderThan && !options.status) {
+        throw new Error('Choose what to prune with --older-than and/or --status.');
+      }
+      const statuses = options.status?.split(',').map((status) => status.trim());
+      const invalid = statuses?.filter((status) => !STATUSES.includes(status as SessionStatus));
+      if (invalid?.length) {
+        throw new Error(
+          `Invalid status '${invalid.join(', ')}'. Available: ${STATUSES.join(', ')}`,
+        );
+      }
+      const olderThanMs = options.olderThan ? parseAge(options.olderThan) : undefined;
+      if (olderThanMs === undefined && options.olderThan) {
+        throw new Error(`Invalid age: ${options.olderThan} (use e.g. 30d, 12h or 2w)`);
+      }
+
+      const { removed, freedBytes } = await pruneSessions({
+        olderThanMs,
+        statuses: statuses as SessionStatus[] | undefined,
+        dryRun: options.dryRun,
+      });
+      if (removed.length === 0) {
+        console.log(chalk.dim('No sessions to prune.'));
+        return;
+      }
+
+      for (const session of removed) {
+        console.log(
+          `  ${chalk.cyan(session.id.slice(0, 8))} ${chalk.bold(session.provider)} ` +
+            chalk.dim(`${session.status} · ${new Date(session.updatedAt).toLocaleString()}`),
+        );
+      }
+      const summary = `${removed.length} session(s), ${formatBytes(freedBytes)}`;
+      console.log(
+        options.dryRun
+          ? chalk.dim(`\nDry run: would delete ${summary}.`)
+          : chalk.green(`\n✓ Deleted ${summary}`),
+      );
+    });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/** An age such as `12h`, `30d` or `2w`, in milliseconds. */
+function parseAge(value: string): number | undefined {
+  const age = value.match(/^(\d+)([hdw])$/);
+  return age ? Number(age[1]) * RELATIVE_UNITS[age[2]] : undefined;
+}
+
+/** An ISO date, or an age counted back from now. */
+function parseDate(value: string): Date {
+  const age = parseAge(value);
+  if (age !== undefined) return new Date(Date.now() - age);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value} (use YYYY-MM-DD or an age like 7d)`);
+  }
+  return date;
+}
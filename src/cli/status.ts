@@ -1,18 +1,47 @@
 import { readFile } from 'node:fs/promises';
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { getSession, listSessions } from '../session/index.js';
+import { isValidProvider } from '../providers/index.js';
+import {
+  getSession,
+  getStorageUsage,
+  listSessions,
+  sessionProject,
+  updateSession,
+} from '../session/index.js';
+import type { SessionMeta } from '../types.js';
+import { createSessionExportCommand, createSessionImportCommand } from './export.js';
+import { createSessionExtractCommand } from './extract.js';
+import { formatBytes } from './sessions.js';
 
 export function createStatusCommand(): Command {
   return new Command('status')
     .description('List recent chat sessions')
     .option('--hours <n>', 'Show sessions from last N hours', '24')
+    .option('--tag <tag>', 'Only sessions with this tag')
+    .option('--project <name>', 'Only sessions from this repository or directory (name or path)')
+    .option('--provider <name>', 'Only sessions with this provider')
     .action(async (options) => {
+      if (options.provider && !isValidProvider(options.provider)) {
+        throw new Error(`Unknown provider: ${options.provider}`);
+      }
       const hours = Number.parseInt(options.hours, 10);
-      const sessions = await listSessions({ hours });
+      const sessions = await listSessions({
+        hours,
+        tag: options.tag,
+        project: options.project,
+        provider: options.provider,
+      });
+      const filtered = options.tag || options.project || options.provider ? ' matching' : '';
+      const usage = await getStorageUsage();
+      const usageLine = chalk.dim(
+        `Disk usage: ${formatBytes(usage.totalBytes)} in ${usage.sessions} session(s)` +
+          (usage.blobBytes ? ` (shared file bodies: ${formatBytes(usage.blobBytes)})` : ''),
+      );
 
       if (sessions.length === 0) {
-        console.log(chalk.dim(`No sessions in the last ${hours} hours.`));
+        console.log(chalk.dim(`No${filtered} sessions in the last ${hours} hours.`));
+        console.log(usageLine);
         return;
       }
 
@@ -30,23 +59,50 @@ export function createStatusCommand(): Command {
         const duration = session.durationMs
           ? chalk.dim(` (${Math.round(session.durationMs / 1000)}s)`)
           : '';
+        const turnCount = session.turns?.length ?? 1;
+        const turns = turnCount > 1 ? chalk.dim(` [${turnCount} turns]`) : '';
+
+        const name = session.name ? `${chalk.bold.white(session.name)} ` : '';
+        const tags = session.tags?.length
+          ? chalk.magenta(` ${session.tags.map((tag) => `#${tag}`).join(' ')}`)
+          : '';
+        const skipped = session.skippedProviders?.length
+          ? chalk.yellow(
+              ` (after ${session.skippedProviders.map((skip) => skip.provider).join(', ')})`,
+            )
+          : '';
 
         console.log(
-          `  ${statusIcon} ${chalk.cyan(session.id.slice(0, 8))} ` +
-            `${chalk.bold(session.provider)} ${duration}`,
+          `  ${statusIcon} ${name}${chalk.cyan(session.id.slice(0, 8))} ` +
+            `${chalk.bold(session.provider)}${skipped} ${duration}${turns}${tags}`,
         );
         console.log(`    ${chalk.dim(session.promptPreview.slice(0, 80))}`);
-        console.log(`    ${chalk.dim(new Date(session.createdAt).toLocaleString())}`);
+        console.log(
+          `    ${chalk.dim(new Date(session.createdAt).toLocaleString())}` +
+            chalk.dim(projectLabel(session) ? ` · ${projectLabel(session)}` : ''),
+        );
         console.log('');
       }
+      console.log(usageLine);
     });
 }
 
+/** `project@branch`, or just the project outside a repository. */
+function projectLabel(meta: SessionMeta): string | undefined {
+  const project = sessionProject(meta);
+  if (!project) return undefined;
+  return meta.repository?.branch ? `${project}@${meta.repository.branch}` : project;
+}
+
 export function createSessionCommand(): Command {
   return new Command('session')
     .description('View details of a specific session')
-    .argument('<id>', 'Session ID (or prefix)')
+    .argument('<id>', 'Session ID, ID prefix or name')
     .option('--render', 'Pretty-print the response')
+    .addCommand(createSessionExtractCommand())
+    .addCommand(createSessionTagCommand())
+    .addCommand(createSessionExportCommand())
+    .addCommand(createSessionImportCommand())
     .action(async (id: string, options: { render?: boolean }) => {
       try {
         const result = await getSession(id);
@@ -54,27 +110,83 @@ export function createSessionCommand(): Command {
 
         console.log(chalk.bold('Session Details\n'));
         console.log(`  ID:       ${meta.id}`);
+        if (meta.name) {
+          console.log(`  Name:     ${meta.name}`);
+        }
+        if (meta.tags?.length) {
+          console.log(`  Tags:     ${meta.tags.join(', ')}`);
+        }
         console.log(`  Provider: ${meta.provider}`);
+        for (const skip of meta.skippedProviders ?? []) {
+          const failed = skip.sessionId
+            ? chalk.dim(` (session ${skip.sessionId.slice(0, 8)})`)
+            : '';
+          console.log(`  Skipped:  ${skip.provider} — ${skip.reason}: ${skip.message}${failed}`);
+        }
         console.log(`  Model:    ${meta.model ?? chalk.dim('(default)')}`);
         console.log(`  Status:   ${meta.status}`);
         console.log(`  Created:  ${new Date(meta.createdAt).toLocaleString()}`);
         if (meta.durationMs) {
           console.log(`  Duration: ${Math.round(meta.durationMs / 1000)}s`);
         }
+        if (meta.conversationUrl) {
+          console.log(`  Thread:   ${meta.conversationUrl}`);
+        }
+        if (meta.cwd) {
+          console.log(`  Cwd:      ${meta.cwd}`);
+        }
+        if (meta.repository) {
+          const branch = meta.repository.branch ? ` (${meta.repository.branch})` : '';
+          console.log(`  Repo:     ${meta.repository.root}${branch}`);
+        }
         console.log('');
 
-        if (options.render && result.responsePath) {
-          const response = await readFile(result.responsePath, 'utf-8');
-          console.log(chalk.bold('--- Response ---\n'));
-          console.log(response);
-        } else if (result.responsePath) {
-          console.log(chalk.dim(`Response saved at: ${result.responsePath}`));
-        } else {
-          console.log(chalk.dim('No response captured yet.'));
+        for (const { turn, responsePath } of result.turns) {
+          if (result.turns.length > 1) {
+            console.log(
+              chalk.bold(`Turn ${turn.index}`) +
+                chalk.dim(` · ${turn.status} · ${new Date(turn.createdAt).toLocaleString()}`),
+            );
+            console.log(`  ${chalk.dim(turn.promptPreview.slice(0, 80))}`);
+          }
+
+          if (options.render && responsePath) {
+            const response = await readFile(responsePath, 'utf-8');
+            console.log(chalk.bold('--- Response ---\n'));
+            console.log(response);
+          } else if (responsePath) {
+            console.log(chalk.dim(`Response saved at: ${responsePath}`));
+          } else {
+            console.log(chalk.dim('No response captured yet.'));
+          }
+          console.log('');
         }
-      } catch {
-        console.error(chalk.red(`Session not found: ${id}`));
+
+        if (meta.conversationUrl) {
+          console.log(chalk.dim(`Follow up with: douzhi-chat chat --continue ${meta.id} -p "..."`));
+        }
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
         process.exit(1);
       }
     });
 }
+
+function createSessionTagCommand(): Command {
+  return new Command('tag')
+    .description('Add tags to a session, or remove them with --remove')
+    .argument('<id>', 'Session ID, ID prefix or name')
+    .argument('<tags...>', 'Tags')
+    .option('--remove', 'Remove the tags instead of adding them')
+    .action(async (id: string, tags: string[], options: { remove?: boolean }) => {
+      const { meta } = await getSession(id);
+      const current = meta.tags ?? [];
+      const updated = await updateSession(meta.id, {
+        tags: options.remove
+          ? current.filter((tag) => !tags.includes(tag) && !tags.includes(`#${tag}`))
+          : [...current, ...tags],
+      });
+      const list = updated.tags?.length ? updated.tags.map((tag) => `#${tag}`).join(' ') : '(none)';
+      console.log(chalk.green(`✓ Tags for ${meta.name ?? meta.id.slice(0, 8)}: ${list}`));
+    });
+}
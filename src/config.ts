@@ -3,18 +3,27 @@ import path from 'node:path';
 import { getConfigPath } from './paths.js';
 import { type AppConfig, DEFAULT_CONFIG } from './types.js';
 
-/** Load config from disk, falling back to defaults for missing keys. */
+/** Load config from disk, falling back to defaults for missing keys (or a missing file). */
 export async function loadConfig(): Promise<AppConfig> {
   const configPath = getConfigPath();
+  let raw: string;
   try {
-    const raw = await readFile(configPath, 'utf-8');
-    // Dynamic import JSON5 only when needed
-    const JSON5 = await import('json5');
-    const parsed = JSON5.parse(raw) as Partial<AppConfig>;
-    return { ...DEFAULT_CONFIG, ...parsed };
-  } catch {
-    return { ...DEFAULT_CONFIG };
+    raw = await readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { ...DEFAULT_CONFIG };
+    throw error;
   }
+
+  // Dynamic import JSON5 only when needed
+  const { default: JSON5 } = await import('json5');
+  let parsed: Partial<AppConfig>;
+  try {
+    parsed = JSON5.parse(raw) as Partial<AppConfig>;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${configPath}: ${reason}`);
+  }
+  return { ...DEFAULT_CONFIG, ...parsed };
 }
 
 /** Save config to disk. */
@@ -0,0 +1,141 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Page } from 'playwright';
+import { getSessionAssetsDir } from '../paths.js';
+import type { ResponseAsset } from '../types.js';
+
+const MAX_ASSET_BYTES = 50 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+const EXTENSIONS: Record<string, string> = {
+  'application/json': 'json',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'image/gif': 'gif',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'text/csv': 'csv',
+  'text/markdown': 'md',
+  'text/plain': 'txt',
+};
+
+interface FetchedAsset {
+  body: Buffer;
+  mimeType?: string;
+}
+
+/**
+ * Download a turn's assets into `sessions/<id>/assets/` through the page's
+ * authenticated context, so cookie-protected URLs resolve as they do in the
+ * UI. Failures are recorded on the asset instead of failing the chat.
+ */
+export async function downloadResponseAssets(
+  page: Page,
+  sessionId: string,
+  turn: number,
+  assets: ResponseAsset[],
+): Promise<ResponseAsset[]> {
+  if (assets.length === 0) return [];
+
+  const dir = getSessionAssetsDir(sessionId);
+  await mkdir(dir, { recursive: true });
+
+  const saved: ResponseAsset[] = [];
+  for (const [i, asset] of assets.entries()) {
+    try {
+      const fetched = await fetchAsset(page, asset.url);
+      if (fetched.body.length > MAX_ASSET_BYTES) {
+        throw new Error(`exceeds ${MAX_ASSET_BYTES / 1024 / 1024} MB`);
+      }
+      const mimeType = fetched.mimeType ?? asset.mimeType;
+      const fileName = assetFileName(turn, i + 1, asset, mimeType);
+      await writeFile(path.join(dir, fileName), fetched.body);
+      saved.push({ ...asset, mimeType, path: `assets/${fileName}` });
+    } catch (error) {
+      saved.push({ ...asset, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return saved;
+}
+
+async function fetchAsset(page: Page, url: string): Promise<FetchedAsset> {
+  if (url.startsWith('data:')) {
+    const match = url.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+    if (!match) throw new Error('malformed data URL');
+    const base64 = match[2].split(';').includes('base64');
+    return {
+      body: base64 ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3])),
+      mimeType: match[1] || undefined,
+    };
+  }
+
+  if (url.startsWith('blob:')) {
+    // Blob URLs only resolve inside the document that created them
+    const dataUrl = await page.evaluate(async (blobUrl) => {
+      const blob = await (await fetch(blobUrl)).blob();
+      return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+    }, url);
+    return fetchAsset(page, dataUrl);
+  }
+
+  const response = await page.context().request.get(url, { timeout: DOWNLOAD_TIMEOUT_MS });
+  if (!response.ok()) {
+    throw new Error(`HTTP ${response.status()}`);
+  }
+  return {
+    body: await response.body(),
+    mimeType: response.headers()['content-type']?.split(';')[0].trim() || undefined,
+  };
+}
+
+/** `<turn>-<n>-<name>`: unique per session, sorted by turn, extension from the content type. */
+function assetFileName(
+  turn: number,
+  index: number,
+  asset: ResponseAsset,
+  mimeType?: string,
+): string {
+  const prefix = `${String(turn).padStart(3, '0')}-${String(index).padStart(2, '0')}`;
+  const base = (asset.name ?? asset.kind)
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(0, 80);
+  const ext = mimeType ? EXTENSIONS[mimeType] : undefined;
+  const name = base || asset.kind;
+  return ext && !path.extname(name) ? `${prefix}-${name}.${ext}` : `${prefix}-${name}`;
+}
+
+/**
+ * Point a turn's markdown at the downloaded copies: links to an asset's URL
+ * are rewritten to its relative path (from `turns/<nnn>/response.md`), and
+ * assets the markdown doesn't show yet are listed under `## Assets`.
+ */
+export function linkResponseAssets(markdown: string, assets: ResponseAsset[]): string {
+  const downloaded = assets.filter((asset) => asset.path);
+  if (downloaded.length === 0) return markdown;
+
+  let linked = markdown;
+  const unreferenced: string[] = [];
+  for (const asset of downloaded) {
+    const local = `../../${asset.path}`;
+    const target = `](${asset.url})`;
+    if (linked.includes(target)) {
+      linked = linked.split(target).join(`](${local})`);
+      continue;
+    }
+    const label = (asset.alt ?? asset.name ?? path.basename(local)).replace(/([[\]])/g, '\\$1');
+    unreferenced.push(
+      asset.kind === 'image' ? `- ![${label}](${local})` : `- [${label}](${local})`,
+    );
+  }
+
+  if (unreferenced.length === 0) return linked;
+  return [linked.trimEnd(), '', '## Assets', '', ...unreferenced].join('\n').trim();
+}
@@ -1,6 +1,19 @@
 import { readFile, stat } from 'node:fs/promises';
 import path from 'node:path';
 import fg from 'fast-glob';
+import type {
+  ContextBudget,
+  GitSelector,
+  OverflowStrategy,
+  PromptTemplate,
+  ProviderConfig,
+  SecretPattern,
+} from '../types.js';
+import { type DocumentKind, detectDocumentKind, extractDocument, fenceFor } from './documents.js';
+import { selectGitChanges } from './git.js';
+import { loadIgnoreMatcher } from './ignore.js';
+import { createRedactor, type RedactionFinding } from './redact.js';
+import { renderTemplate, type TemplateValues } from './templates.js';
 
 const DEFAULT_EXCLUDES = [
   'node_modules/**',
@@ -22,11 +35,88 @@ const DEFAULT_EXCLUDES = [
 ];
 
 const MAX_FILE_SIZE = 1024 * 1024; // 1 MB
+/** PDFs and DOCX files are mostly markup and compressed streams; their text is far smaller. */
+const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+const ATTACHMENT_LABELS: Partial<Record<DocumentKind, string>> = {
+  image: 'image',
+  pdf: 'PDF',
+  docx: 'DOCX',
+};
+/** A truncated excerpt smaller than this (in budget units) isn't worth sending. */
+const MIN_EXCERPT = 200;
+/** Share of a truncated file's allowance given to its head; the rest goes to the tail. */
+const HEAD_SHARE = 2 / 3;
+/** Most of the budget a git diff or stdin section may take before it is truncated too. */
+const MAX_SECTION_SHARE = 1 / 2;
 
 interface BundleOptions {
   prompt: string;
   files?: string[];
   cwd?: string;
+  /** Size limit for the whole bundle. Without one every file is included in full. */
+  budget?: ContextBudget;
+  overflow?: OverflowStrategy;
+  /** Add the files a git change touches, and the change's diff as its own section. */
+  git?: GitSelector;
+  /** Detectors to run alongside the built-in ones; every bundle is redacted. */
+  secretPatterns?: SecretPattern[];
+  /** Renders in place of the bare prompt at the top of the bundle. */
+  template?: PromptTemplate;
+  /** Lines to quote from a file: `path`, `path:line` or `path:start-end`. */
+  selection?: string;
+  /** Piped input to include. */
+  stdin?: string;
+}
+
+export type BundleFileAction =
+  | 'full'
+  | 'truncated'
+  | 'outline'
+  | 'dropped'
+  | 'skipped'
+  | 'attached';
+
+export interface BundleFileReport {
+  path: string;
+  /** Named explicitly, or matched by a glob. Explicit files are packed first. */
+  source: 'explicit' | 'glob';
+  modifiedAt: string;
+  /** Size of the full file section, in budget units. */
+  size: number;
+  /** Size actually sent, in budget units. */
+  included: number;
+  action: BundleFileAction;
+}
+
+export interface BundleReport {
+  budget?: ContextBudget;
+  overflow: OverflowStrategy;
+  /** Size of the prompt alone. */
+  prompt: number;
+  /** The git diff section, when a selector was given. */
+  diff?: { label: string; size: number; included: number };
+  /** Piped input, when there was any. */
+  stdin?: { size: number; included: number };
+  /** Size of the finished bundle. */
+  total: number;
+  files: BundleFileReport[];
+  /** Secrets replaced with placeholders before anything was measured or sent. */
+  redactions: RedactionFinding[];
+  /** Images and other binaries matched by `files`, to upload instead of inlining. */
+  attachments: string[];
+}
+
+export interface BundlePlan {
+  bundle: string;
+  report: BundleReport;
+}
+
+interface Candidate {
+  absolutePath: string;
+  relativePath: string;
+  source: 'explicit' | 'glob';
+  modifiedMs: number;
+  size: number;
 }
 
 /**
@@ -34,16 +124,214 @@ interface BundleOptions {
  * Inspired by Oracle's bundle approach — one self-contained markdown document.
  */
 export async function buildBundle(opts: BundleOptions): Promise<string> {
-  const { prompt, files = [], cwd = process.cwd() } = opts;
-  const parts: string[] = [];
+  return (await planBundle(opts)).bundle;
+}
+
+/**
+ * Build the bundle within a context budget and report what each file cost.
+ *
+ * Files are packed in priority order — explicitly named paths before glob
+ * matches, then most recently modified first — and those that no longer fit
+ * are dropped, cut to their head and tail, or reduced to an outline of their
+ * signatures, per `overflow`. The bundle itself lists files by path.
+ *
+ * Glob matches also skip anything `.gitignore` or `.douzhiignore` excludes.
+ * A `git` selector adds the change's diff ahead of the files it touches.
+ * Secrets in the prompt, diff and files are redacted before anything else.
+ *
+ * PDFs, DOCX files, notebooks and CSVs are inlined as extracted text; images
+ * and other binaries are listed in `attachments` for the provider's upload.
+ */
+export async function planBundle(opts: BundleOptions): Promise<BundlePlan> {
+  const { files = [], cwd = process.cwd(), budget, overflow = 'truncate' } = opts;
+  const unit = budget?.unit ?? 'tokens';
+  const redactor = createRedactor(opts.secretPatterns);
+  const prompt = redactor.redact(opts.prompt, 'prompt');
+  const report: BundleReport = {
+    budget,
+    overflow,
+    prompt: measure(prompt, unit),
+    total: 0,
+    files: [],
+    redactions: redactor.findings,
+    attachments: [],
+  };
+
+  const blocks: Omit<TemplateValues, 'files'> = { prompt, diff: '', selection: '', stdin: '' };
+  const headings: Partial<Record<keyof TemplateValues, string>> = {};
+  const maxSection = budget
+    ? Math.floor(budget.limit * MAX_SECTION_SHARE)
+    : Number.POSITIVE_INFINITY;
+  if (opts.stdin?.trim()) {
+    const redacted = redactor.redact(opts.stdin, 'stdin');
+    const size = measure(redacted, unit);
+    const text = size > maxSection ? headAndTail(redacted, maxSection, unit).excerpt : redacted;
+    blocks.stdin = codeBlock('', text);
+    headings.stdin = '# Stdin\n';
+    report.stdin = { size, included: measure(blocks.stdin, unit) + 1 };
+  }
+  if (opts.selection) {
+    const selected = await readSelection(opts.selection, cwd);
+    blocks.selection = codeBlock(selected.language, redactor.redact(selected.text, selected.label));
+    headings.selection = `# Selection (${selected.label})\n`;
+  }
+
+  const change = opts.git ? await selectGitChanges(opts.git, cwd) : undefined;
+  if (change) {
+    if (!change.diff.trim() && change.files.length === 0) {
+      blocks.diff = `> No ${change.label} found.\n`;
+    } else if (change.diff.trim()) {
+      const redacted = redactor.redact(change.diff, 'diff');
+      const size = measure(redacted, unit);
+      const diff = size > maxSection ? headAndTail(redacted, maxSection, unit).excerpt : redacted;
+      blocks.diff = diffSection(change.label, diff);
+      report.diff = { label: change.label, size, included: measure(blocks.diff, unit) + 1 };
+    }
+  }
+
+  const compose = (filesBlock: string) =>
+    composeBundle({ ...blocks, files: filesBlock }, headings, opts.template);
+  const finish = (filesBlock = ''): BundlePlan => {
+    const bundle = compose(filesBlock);
+    return { bundle, report: { ...report, total: measure(bundle, unit) } };
+  };
+
+  // Files a git selector touched count as named explicitly
+  const patterns = [...files, ...(change?.files.map((file) => fg.escapePath(file)) ?? [])];
+  if (patterns.length === 0) {
+    return finish();
+  }
 
-  parts.push(prompt);
-  parts.push('');
+  const candidates = await resolveCandidates(patterns, cwd);
+  if (candidates.length === 0) {
+    return finish(files.length > 0 ? '> No files matched the provided patterns.\n' : '');
+  }
+
+  const header = `# Context Files (${candidates.length})\n`;
+  let remaining = budget ? budget.limit - measure(compose(header), unit) : Number.POSITIVE_INFINITY;
+  const sections = new Map<string, string>();
+  // Hold back room for every later file's heading, so overflow never hides a file entirely
+  const headingCost = (file: Candidate) => measure(omittedHeading(file.relativePath), unit) + 1;
+  let reserved = budget ? candidates.reduce((sum, file) => sum + headingCost(file), 0) : 0;
+
+  for (const file of prioritize(candidates)) {
+    reserved -= budget ? headingCost(file) : 0;
+    const entry: BundleFileReport = {
+      path: file.relativePath,
+      source: file.source,
+      modifiedAt: new Date(file.modifiedMs).toISOString(),
+      size: 0,
+      included: 0,
+      action: 'full',
+    };
+    report.files.push(entry);
+
+    const kind = await detectDocumentKind(file.absolutePath);
+    const limit =
+      kind === 'pdf' || kind === 'docx' || kind === 'csv' ? MAX_DOCUMENT_SIZE : MAX_FILE_SIZE;
+    const document =
+      kind === 'image' || kind === 'binary' || file.size > limit
+        ? undefined
+        : await extractDocument(file.absolutePath, kind);
+
+    if (document?.text === undefined) {
+      // Binaries go out as uploads; a document with no text (a scan) is attached as-is
+      const attach = kind !== 'text' && kind !== 'csv' && kind !== 'notebook';
+      const section = attach
+        ? `## ${file.relativePath} (ATTACHED — ${ATTACHMENT_LABELS[kind] ?? 'binary file'})\n`
+        : `## ${file.relativePath} (SKIPPED — exceeds ${formatMegabytes(limit)})\n`;
+      sections.set(file.relativePath, section);
+      entry.action = attach ? 'attached' : 'skipped';
+      entry.included = measure(section, unit) + 1;
+      entry.size = entry.included;
+      remaining -= entry.included;
+      if (attach) report.attachments.push(file.absolutePath);
+      continue;
+    }
+
+    const content = redactor.redact(document.text, file.relativePath);
+    const ext = document.language;
+    const full = fileSection(file.relativePath, ext, content, extractedNote(document.note));
+    entry.size = measure(full, unit) + 1;
+
+    let section = full;
+    if (entry.size > remaining - reserved) {
+      const room = remaining - reserved;
+      const fitted = fitOverflow(file.relativePath, ext, content, room, unit, overflow);
+      section = fitted.section;
+      entry.action = fitted.action;
+    }
+
+    entry.included = section ? measure(section, unit) + 1 : 0;
+    remaining -= entry.included;
+    if (section) sections.set(file.relativePath, section);
+  }
+
+  const included = candidates.flatMap((file) => sections.get(file.relativePath) ?? []);
+  return finish([header, ...included].join('\n'));
+}
+
+/**
+ * Lay out the bundle: the prompt, then stdin, the selection, the diff and the
+ * files. A template places whichever of these it references itself; the rest
+ * follow it in the default order.
+ */
+function composeBundle(
+  values: TemplateValues,
+  headings: Partial<Record<keyof TemplateValues, string>>,
+  template: PromptTemplate | undefined,
+): string {
+  const section = (key: 'stdin' | 'selection') =>
+    values[key] && headings[key] ? `${headings[key]}\n${values[key]}\n` : '';
+  const rest = (used: Set<string>) =>
+    [
+      used.has('stdin') ? '' : section('stdin'),
+      used.has('selection') ? '' : section('selection'),
+      used.has('diff') ? '' : values.diff,
+      used.has('files') ? '' : values.files,
+    ].filter(Boolean);
 
-  if (files.length === 0) {
-    return parts.join('\n');
+  if (!template) {
+    return [values.prompt, '', ...rest(new Set())].join('\n');
   }
 
+  const { text, used } = renderTemplate(template, values);
+  const prompt = used.has('prompt') || !values.prompt ? [] : [values.prompt, ''];
+  return [text.replace(/\n*$/, '\n'), ...prompt, ...rest(used)].join('\n');
+}
+
+/** Lines of a file named `path`, `path:line` or `path:start-end`. */
+async function readSelection(
+  spec: string,
+  cwd: string,
+): Promise<{ label: string; language: string; text: string }> {
+  const match = spec.match(/^(.+?)(?::(\d+)(?:-(\d+))?)?$/);
+  const filePath = match?.[1] ?? spec;
+  const content = await readFile(path.resolve(cwd, filePath), 'utf-8').catch(() => {
+    throw new Error(`Selection not found: ${filePath}`);
+  });
+  const language = path.extname(filePath).slice(1) || 'txt';
+  if (!match?.[2]) return { label: filePath, language, text: content.replace(/\n$/, '') };
+
+  const start = Number(match[2]);
+  const end = match[3] ? Number(match[3]) : start;
+  const lines = content.split('\n');
+  if (start < 1 || end < start || start > lines.length) {
+    throw new Error(`Invalid selection range: ${spec}`);
+  }
+  return {
+    label: `${filePath}:${start}-${Math.min(end, lines.length)}`,
+    language,
+    text: lines.slice(start - 1, end).join('\n'),
+  };
+}
+
+function codeBlock(language: string, body: string): string {
+  const fence = fenceFor(body);
+  return [`${fence}${language}`, body.replace(/\n$/, ''), fence].join('\n');
+}
+
+async function resolveCandidates(files: string[], cwd: string): Promise<Candidate[]> {
   // Resolve file globs
   const includes: string[] = [];
   const excludes: string[] = [...DEFAULT_EXCLUDES];
@@ -56,6 +344,12 @@ export async function buildBundle(opts: BundleOptions): Promise<string> {
     }
   }
 
+  const explicit = new Set(
+    includes
+      .filter((pattern) => !fg.isDynamicPattern(pattern))
+      .map((pattern) => path.resolve(cwd, pattern)),
+  );
+
   const resolvedFiles = await fg(includes, {
     cwd,
     ignore: excludes,
@@ -65,29 +359,176 @@ export async function buildBundle(opts: BundleOptions): Promise<string> {
     dot: false,
   });
 
-  if (resolvedFiles.length === 0) {
-    parts.push('> No files matched the provided patterns.\n');
-    return parts.join('\n');
-  }
+  // .gitignore/.douzhiignore filter glob matches; a path named outright is always bundled
+  const matcher = await loadIgnoreMatcher(cwd);
+  const selected = resolvedFiles.filter(
+    (file) => explicit.has(path.resolve(file)) || !matcher.ignores(path.relative(cwd, file)),
+  );
 
-  parts.push(`# Context Files (${resolvedFiles.length})\n`);
+  return Promise.all(
+    selected.sort().map(async (absolutePath): Promise<Candidate> => {
+      const fileStat = await stat(absolutePath);
+      return {
+        absolutePath,
+        relativePath: path.relative(cwd, absolutePath),
+        source: explicit.has(path.resolve(absolutePath)) ? 'explicit' : 'glob',
+        modifiedMs: fileStat.mtimeMs,
+        size: fileStat.size,
+      };
+    }),
+  );
+}
 
-  for (const filePath of resolvedFiles.sort()) {
-    const fileStat = await stat(filePath);
-    if (fileStat.size > MAX_FILE_SIZE) {
-      parts.push(`## ${path.relative(cwd, filePath)} (SKIPPED — exceeds 1 MB)\n`);
-      continue;
+function prioritize(candidates: Candidate[]): Candidate[] {
+  return [...candidates].sort((a, b) => {
+    if (a.source !== b.source) return a.source === 'explicit' ? -1 : 1;
+    return b.modifiedMs - a.modifiedMs || a.relativePath.localeCompare(b.relativePath);
+  });
+}
+
+function fileSection(relativePath: string, ext: string, content: string, note = ''): string {
+  const fence = fenceFor(content);
+  return [
+    `## ${relativePath}${note ? ` (${note})` : ''}\n`,
+    `${fence}${ext}`,
+    content,
+    `${fence}\n`,
+  ].join('\n');
+}
+
+function extractedNote(note: string | undefined): string {
+  return note ? `EXTRACTED — ${note}` : '';
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${bytes / (1024 * 1024)} MB`;
+}
+
+function diffSection(label: string, diff: string): string {
+  const fence = fenceFor(diff);
+  return [`# Diff (${label})\n`, `${fence}diff`, diff.replace(/\n$/, ''), `${fence}\n`].join('\n');
+}
+
+function omittedHeading(relativePath: string): string {
+  return `## ${relativePath} (OMITTED — over context budget)\n`;
+}
+
+/** The largest form of a file that fits `room` under the overflow strategy. */
+function fitOverflow(
+  relativePath: string,
+  ext: string,
+  content: string,
+  room: number,
+  unit: ContextBudget['unit'],
+  overflow: OverflowStrategy,
+): { section: string; action: BundleFileAction } {
+  const omitted = omittedHeading(relativePath);
+  const dropped = {
+    section: measure(omitted, unit) + 1 <= room ? omitted : '',
+    action: 'dropped' as const,
+  };
+  const lineCount = content.split('\n').length;
+  const overhead =
+    measure(
+      fileSection(relativePath, ext, '', `TRUNCATED — ${lineCount} of ${lineCount} lines`),
+      unit,
+    ) + 1;
+
+  if (overflow === 'outline') {
+    const outline = outlineOf(content);
+    const section = fileSection(relativePath, ext, outline, 'OUTLINE — signatures only');
+    return outline && measure(section, unit) + 1 <= room ? { section, action: 'outline' } : dropped;
+  }
+
+  if (overflow === 'truncate' && room - overhead >= MIN_EXCERPT) {
+    const { excerpt, kept, total } = headAndTail(content, room - overhead, unit);
+    if (kept > 0) {
+      return {
+        section: fileSection(relativePath, ext, excerpt, `TRUNCATED — ${kept} of ${total} lines`),
+        action: 'truncated',
+      };
     }
+  }
 
-    const content = await readFile(filePath, 'utf-8');
-    const ext = path.extname(filePath).slice(1) || 'txt';
-    const relativePath = path.relative(cwd, filePath);
+  return dropped;
+}
+
+function headAndTail(
+  content: string,
+  room: number,
+  unit: ContextBudget['unit'],
+): { excerpt: string; kept: number; total: number } {
+  const lines = content.split('\n');
+  const cost = (line: string) => measure(line, unit) + 1;
+  const markerFor = (skipped: number) => `… [${skipped} lines omitted] …`;
+  room -= cost(markerFor(lines.length));
 
-    parts.push(`## ${relativePath}\n`);
-    parts.push(`\`\`\`${ext}`);
-    parts.push(content);
-    parts.push('```\n');
+  const head: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    if (used + cost(line) > room * HEAD_SHARE) break;
+    head.push(line);
+    used += cost(line);
   }
 
-  return parts.join('\n');
+  const tail: string[] = [];
+  for (let i = lines.length - 1; i >= head.length; i--) {
+    if (used + cost(lines[i]) > room) break;
+    tail.unshift(lines[i]);
+    used += cost(lines[i]);
+  }
+
+  const skipped = lines.length - head.length - tail.length;
+  return {
+    excerpt: [...head, markerFor(skipped), ...tail].join('\n'),
+    kept: head.length + tail.length,
+    total: lines.length,
+  };
+}
+
+const SIGNATURE =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub(?:\([\w:]+\))?\s+)?(?:function\*?|class|interface|type|enum|namespace|module|def|fn|func|struct|trait|impl|object|record)\b/;
+const TOP_LEVEL =
+  /^(?:export\s+(?:const|let|var)|const|let|var|import|from|package|use|#include|#define)\b/;
+const MEMBER =
+  /^(?:(?:public|private|protected|static|readonly|override|async|get|set)\s+)*[\w$]+\s*(?:<[^>]*>)?\s*\([^)]*\)\s*(?::[^{;=]+)?\s*\{?$/;
+const CONTROL = /^(?:if|for|while|switch|catch|return|else)\b/;
+
+/**
+ * Declarations only: imports, top-level bindings, and function, class and
+ * method signatures, with their original indentation. Markdown keeps its
+ * headings.
+ */
+export function outlineOf(content: string): string {
+  const lines = content.split('\n').filter((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > 200) return false;
+    if (/^#{1,6}\s/.test(trimmed)) return true;
+    if (SIGNATURE.test(trimmed)) return true;
+    if (line === trimmed && TOP_LEVEL.test(trimmed)) return true;
+    return !CONTROL.test(trimmed) && MEMBER.test(trimmed);
+  });
+  return lines.join('\n');
+}
+
+/** The provider's budget, or an explicit token budget that replaces it. */
+export function resolveContextBudget(
+  config: ProviderConfig,
+  budgetTokens?: number,
+): ContextBudget | undefined {
+  return budgetTokens ? { limit: budgetTokens, unit: 'tokens' } : config.contextBudget;
+}
+
+/** Size of `text` in a budget unit. */
+export function measure(text: string, unit: ContextBudget['unit']): number {
+  return unit === 'chars' ? text.length : estimateTokens(text);
+}
+
+/**
+ * Rough token count for budgeting: CJK characters count as one token each,
+ * everything else as one token per four characters.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
 }
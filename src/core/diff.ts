@@ -0,0 +1,128 @@
+/**
+ * Minimal line-based unified diff, enough to preview and `git apply` the
+ * file rewrites extracted from a response.
+ */
+
+const CONTEXT_LINES = 3;
+/** Above this many cells the LCS table is skipped and the changed middle is replaced wholesale. */
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: 'equal' | 'delete' | 'insert'; line: string };
+
+/**
+ * Render a unified diff between two texts. `oldPath` null means a new file.
+ * Returns an empty string when the texts are identical.
+ */
+export function unifiedDiff(
+  oldPath: string | null,
+  newPath: string,
+  before: string,
+  after: string,
+): string {
+  if (before === after) return '';
+
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+
+  const header = [`--- ${oldPath === null ? '/dev/null' : `a/${oldPath}`}`, `+++ b/${newPath}`];
+  return [...header, ...renderHunks(ops)].join('\n').concat('\n');
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((line): Op => ({ kind: 'equal', line }));
+  const suffix = a.slice(endA).map((line): Op => ({ kind: 'equal', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  let middle: Op[];
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    middle = [
+      ...midA.map((line): Op => ({ kind: 'delete', line })),
+      ...midB.map((line): Op => ({ kind: 'insert', line })),
+    ];
+  } else {
+    middle = lcsDiff(midA, midB);
+  }
+  return [...prefix, ...middle, ...suffix];
+}
+
+function lcsDiff(a: string[], b: string[]): Op[] {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ kind: 'delete', line: a[i++] });
+    } else {
+      ops.push({ kind: 'insert', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: 'delete', line: a[i++] });
+  while (j < b.length) ops.push({ kind: 'insert', line: b[j++] });
+  return ops;
+}
+
+function renderHunks(ops: Op[]): string[] {
+  const changed = ops.flatMap((op, index) => (op.kind === 'equal' ? [] : [index]));
+  const lines: string[] = [];
+
+  let cursor = 0;
+  while (cursor < changed.length) {
+    const start = Math.max(0, changed[cursor] - CONTEXT_LINES);
+    let end = changed[cursor];
+    // Merge changes whose context windows touch into one hunk
+    while (cursor + 1 < changed.length && changed[cursor + 1] - end <= CONTEXT_LINES * 2) {
+      end = changed[++cursor];
+    }
+    end = Math.min(ops.length, end + CONTEXT_LINES + 1);
+    cursor++;
+
+    const before = ops.slice(0, start);
+    const oldStart = before.filter((op) => op.kind !== 'insert').length;
+    const newStart = before.filter((op) => op.kind !== 'delete').length;
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.kind !== 'insert').length;
+    const newCount = hunk.filter((op) => op.kind !== 'delete').length;
+
+    lines.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`,
+    );
+    for (const op of hunk) {
+      const marker = op.kind === 'equal' ? ' ' : op.kind === 'delete' ? '-' : '+';
+      lines.push(`${marker}${op.line}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,531 @@
+import { open, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { constants, inflateRawSync, inflateSync } from 'node:zlib';
+
+export type DocumentKind = 'text' | 'pdf' | 'docx' | 'notebook' | 'csv' | 'image' | 'binary';
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  /** Text to inline in the bundle; absent when the file can only be attached. */
+  text?: string;
+  /** Fence language for `text`. */
+  language: string;
+  /** Describes an extraction, for the bundle heading (e.g. "PDF text"). */
+  note?: string;
+}
+
+const SNIFF_BYTES = 8192;
+const IMAGE_EXTENSIONS = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.bmp',
+  '.ico',
+  '.tif',
+  '.tiff',
+  '.heic',
+  '.avif',
+]);
+/** Data rows shown in a CSV preview. */
+const CSV_PREVIEW_ROWS = 20;
+/** Characters kept from each notebook cell's outputs. */
+const MAX_CELL_OUTPUT = 2000;
+
+/**
+ * What a file is, from its magic bytes and extension. Text is anything
+ * without NUL bytes in its first 8 KB that isn't a recognized document.
+ */
+export async function detectDocumentKind(filePath: string): Promise<DocumentKind> {
+  const handle = await open(filePath, 'r');
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (head.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (head.subarray(0, 4).toString('latin1') === 'PK\x03\x04') {
+    return ext === '.docx' ? 'docx' : 'binary';
+  }
+  if (isImage(head) || IMAGE_EXTENSIONS.has(ext)) return 'image';
+  if (head.includes(0)) return 'binary';
+  if (ext === '.ipynb') return 'notebook';
+  if (ext === '.csv' || ext === '.tsv') return 'csv';
+  return 'text';
+}
+
+function isImage(head: Buffer): boolean {
+  const signature = head.subarray(0, 12).toString('latin1');
+  return (
+    signature.startsWith('\x89PNG') ||
+    signature.startsWith('\xff\xd8\xff') ||
+    signature.startsWith('GIF8') ||
+    (signature.startsWith('RIFF') && signature.slice(8, 12) === 'WEBP')
+  );
+}
+
+/**
+ * Read a file as bundle text: source as-is, and PDFs, DOCX files, notebooks
+ * and CSVs through their extractors. Images, other binaries and documents
+ * with no extractable text come back without `text`, to be attached instead.
+ */
+export async function extractDocument(
+  filePath: string,
+  kind?: DocumentKind,
+): Promise<ExtractedDocument> {
+  const detected = kind ?? (await detectDocumentKind(filePath));
+  const ext = path.extname(filePath).slice(1) || 'txt';
+
+  switch (detected) {
+    case 'text':
+      return { kind: detected, text: await readFile(filePath, 'utf-8'), language: ext };
+    case 'pdf': {
+      const text = extractPdfText(await readFile(filePath));
+      return { kind: detected, text: text || undefined, language: 'text', note: 'PDF text' };
+    }
+    case 'docx': {
+      const text = extractDocxText(await readFile(filePath));
+      return { kind: detected, text: text || undefined, language: 'markdown', note: 'DOCX text' };
+    }
+    case 'notebook': {
+      const raw = await readFile(filePath, 'utf-8');
+      const text = notebookToMarkdown(raw);
+      return text === undefined
+        ? { kind: 'text', text: raw, language: ext }
+        : { kind: detected, text, language: 'markdown', note: 'notebook cells and outputs' };
+    }
+    case 'csv': {
+      const { table, rows } = csvPreview(
+        await readFile(filePath, 'utf-8'),
+        ext === 'tsv' ? '\t' : ',',
+      );
+      const shown = Math.min(rows, CSV_PREVIEW_ROWS);
+      return {
+        kind: detected,
+        text: table,
+        language: 'markdown',
+        note: `CSV preview — ${shown} of ${rows.toLocaleString()} rows`,
+      };
+    }
+    default:
+      return { kind: detected, language: ext };
+  }
+}
+
+/** A fence longer than any backtick run at the start of a line in `text`. */
+export function fenceFor(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/^ {0,3}`{3,}/gm) ?? []).map((run) => run.trim().length),
+  );
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+// ── PDF ──────────────────────────────────────────────────────
+
+/**
+ * Text shown by a PDF's content streams, one line per text line. Covers
+ * uncompressed and Flate streams drawn with simple fonts; text in CID fonts
+ * without a usable encoding comes out empty.
+ */
+export function extractPdfText(data: Buffer): string {
+  const raw = data.toString('latin1');
+  const chunks: string[] = [];
+  const streamStart = /\bstream\r?\n/g;
+
+  for (let match = streamStart.exec(raw); match; match = streamStart.exec(raw)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamStart.lastIndex = end;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(?:XRef|ObjStm|XObject)/.test(dictionary)) {
+      continue;
+    }
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (filters && filters.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue;
+
+    let body = Buffer.from(raw.slice(start, end).replace(/\r?\n$/, ''), 'latin1');
+    if (filters) {
+      try {
+        body = inflateSync(body, { finishFlush: constants.Z_SYNC_FLUSH });
+      } catch {
+        continue;
+      }
+    }
+    const content = body.toString('latin1');
+    if (!/\bBT\b/.test(content)) continue;
+    const text = contentStreamText(content);
+    if (text) chunks.push(text);
+  }
+
+  return chunks.join('\n\n').trim();
+}
+
+type PdfOperand = string | number | PdfOperand[] | null;
+
+const PDF_NAME = /\/[^\s/[\]()<>{}%]*/y;
+const PDF_NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+const PDF_OPERATOR = /[A-Za-z*]+|'|"|<<|>>|[{}]/y;
+const PDF_OCTAL = /[0-7]{1,3}/y;
+
+/** Run a content stream's text operators (Tj, TJ, ', ", Td, TD, T*, Tm). */
+function contentStreamText(content: string): string {
+  let out = '';
+  let operands: PdfOperand[] = [];
+  const arrays: PdfOperand[][] = [];
+  let lastY: number | undefined;
+  const push = (value: PdfOperand) => (arrays.at(-1) ?? operands).push(value);
+  const take = (pattern: RegExp, at: number): string | undefined => {
+    pattern.lastIndex = at;
+    return pattern.exec(content)?.[0];
+  };
+  const show = (value: PdfOperand | undefined) => {
+    if (typeof value === 'string') out += value.replace(/(?![\t\n])\p{Cc}/gu, '');
+  };
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (/\s/.test(char)) continue;
+
+    if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      const { value, end } = readLiteralString(content, i);
+      push(value);
+      i = end;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end === -1 ? undefined : end).replace(/\s/g, '');
+      push(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1'));
+      i = end === -1 ? content.length : end;
+    } else if (char === '[') {
+      arrays.push([]);
+    } else if (char === ']') {
+      push(arrays.pop() ?? []);
+    } else if (char === '/') {
+      // Names (fonts, resources) aren't text
+      i += (take(PDF_NAME, i) ?? char).length - 1;
+      push(null);
+    } else if (/[\d.+-]/.test(char)) {
+      const number = take(PDF_NUMBER, i) ?? char;
+      push(Number(number));
+      i += number.length - 1;
+    } else {
+      const operator = take(PDF_OPERATOR, i) ?? char;
+      i += operator.length - 1;
+
+      switch (operator) {
+        case 'Tj':
+          show(operands.at(-1));
+          break;
+        case "'":
+        case '"':
+          newline();
+          show(operands.at(-1));
+          break;
+        case 'TJ':
+          for (const item of (operands.at(-1) as PdfOperand[] | undefined) ?? []) {
+            if (typeof item === 'string') show(item);
+            // A large negative kern is a word gap
+            else if (typeof item === 'number' && item < -200 && !out.endsWith(' ')) out += ' ';
+          }
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands.at(-1);
+          if (typeof ty === 'number' && ty !== 0) newline();
+          else if (out && !out.endsWith(' ') && !out.endsWith('\n')) out += ' ';
+          break;
+        }
+        case 'T*':
+          newline();
+          break;
+        case 'Tm': {
+          const y = operands.at(-1);
+          if (typeof y === 'number' && y !== lastY) {
+            if (lastY !== undefined) newline();
+            lastY = y;
+          }
+          break;
+        }
+        case 'ET':
+          newline();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return out
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const PDF_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '(': '(',
+  ')': ')',
+  '\\': '\\',
+};
+
+function readLiteralString(content: string, start: number): { value: string; end: number } {
+  let value = '';
+  let depth = 0;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      PDF_OCTAL.lastIndex = i + 1;
+      const octal = PDF_OCTAL.exec(content)?.[0];
+      if (octal) {
+        value += String.fromCharCode(Number.parseInt(octal, 8));
+        i += octal.length;
+      } else if (next === '\r' || next === '\n') {
+        i += next === '\r' && content[i + 2] === '\n' ? 2 : 1;
+      } else {
+        value += PDF_ESCAPES[next] ?? next;
+        i++;
+      }
+    } else if (char === '(') {
+      if (depth++ > 0) value += char;
+    } else if (char === ')') {
+      if (--depth === 0) return { value, end: i };
+      value += char;
+    } else {
+      value += char;
+    }
+  }
+  return { value, end: content.length };
+}
+
+// ── DOCX ─────────────────────────────────────────────────────
+
+/** Paragraph text of a DOCX file, with headings and list items marked up as markdown. */
+export function extractDocxText(data: Buffer): string {
+  const xml = readZipEntry(data, 'word/document.xml')?.toString('utf-8');
+  if (!xml) return '';
+
+  const paragraphs: string[] = [];
+  let current: { prefix: string; text: string } | undefined;
+  const token =
+    /<w:p[\s>]|<\/w:p>|<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>|<w:pStyle w:val="([^"]+)"\/>|<w:numPr>/g;
+
+  for (const match of xml.matchAll(token)) {
+    const tag = match[0];
+    if (tag.startsWith('<w:p') && !tag.startsWith('<w:pS')) {
+      current = { prefix: '', text: '' };
+      continue;
+    }
+    if (!current) continue;
+
+    if (tag === '</w:p>') {
+      if (current.text.trim()) paragraphs.push(`${current.prefix}${current.text.trim()}`);
+      current = undefined;
+    } else if (match[1] !== undefined) {
+      current.text += decodeXmlEntities(match[1]);
+    } else if (tag === '<w:tab/>') {
+      current.text += '\t';
+    } else if (tag === '<w:br/>') {
+      current.text += '\n';
+    } else if (match[2] !== undefined) {
+      const level = match[2].match(/^Heading(\d)$/i)?.[1];
+      if (level) current.prefix = `${'#'.repeat(Number(level))} `;
+      else if (/^Title$/i.test(match[2])) current.prefix = '# ';
+    } else if (tag === '<w:numPr>' && !current.prefix) {
+      current.prefix = '- ';
+    }
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#x([0-9a-f]+)|(lt|gt|amp|quot|apos));/gi,
+    (entity, dec, hex, name) => {
+      if (dec) return String.fromCodePoint(Number(dec));
+      if (hex) return String.fromCodePoint(Number.parseInt(hex, 16));
+      return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[name as string] ?? entity;
+    },
+  );
+}
+
+/** One entry of a zip archive, located through its central directory. */
+function readZipEntry(zip: Buffer, name: string): Buffer | undefined {
+  const end = zip.lastIndexOf(Buffer.from('PK\x05\x06', 'latin1'));
+  if (end === -1) return undefined;
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count && zip.readUInt32LE(offset) === 0x02014b50; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart =
+        localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const body = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return body;
+      return method === 8 ? inflateRawSync(body) : undefined;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return undefined;
+}
+
+// ── Notebooks ────────────────────────────────────────────────
+
+interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  source?: string | string[];
+  outputs?: Array<{
+    output_type: string;
+    text?: string | string[];
+    data?: Record<string, string | string[]>;
+    ename?: string;
+    evalue?: string;
+  }>;
+}
+
+/**
+ * A Jupyter notebook as markdown: markdown cells as written, code cells
+ * fenced in the kernel's language, each followed by its outputs. Returns
+ * undefined when the file isn't a notebook.
+ */
+export function notebookToMarkdown(raw: string): string | undefined {
+  let notebook: {
+    cells?: NotebookCell[];
+    metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+  };
+  try {
+    notebook = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(notebook.cells)) return undefined;
+
+  const language =
+    notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? '';
+  const joined = (value: string | string[] | undefined) =>
+    Array.isArray(value) ? value.join('') : (value ?? '');
+
+  const sections = notebook.cells.map((cell, index) => {
+    const source = joined(cell.source).replace(/\n$/, '');
+    if (cell.cell_type !== 'code') return source;
+
+    const parts = [`In [${index + 1}]:`, fenced(language, source)];
+    const outputs = (cell.outputs ?? [])
+      .map((output) => {
+        if (output.output_type === 'stream') return joined(output.text);
+        if (output.output_type === 'error') return `${output.ename}: ${output.evalue}`;
+        const data = output.data ?? {};
+        if (data['text/plain'] !== undefined) return joined(data['text/plain']);
+        const media = Object.keys(data).find((type) => type.startsWith('image/'));
+        return media ? `[${media} output]` : '';
+      })
+      .map((text) => text.replace(/\n$/, ''))
+      .filter(Boolean)
+      .join('\n');
+    if (outputs) {
+      const shown =
+        outputs.length > MAX_CELL_OUTPUT
+          ? `${outputs.slice(0, MAX_CELL_OUTPUT)}\n… [output truncated]`
+          : outputs;
+      parts.push('Out:', fenced('', shown));
+    }
+    return parts.join('\n');
+  });
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+function fenced(language: string, body: string): string {
+  const fence = fenceFor(body);
+  return `${fence}${language}\n${body}\n${fence}`;
+}
+
+// ── CSV ──────────────────────────────────────────────────────
+
+/** The header and first rows of a CSV as a markdown table, with the total row count. */
+export function csvPreview(raw: string, delimiter = ','): { table: string; rows: number } {
+  const records = parseCsv(raw, delimiter);
+  if (records.length === 0) return { table: '', rows: 0 };
+
+  const [header, ...rows] = records;
+  const width = Math.max(...records.map((record) => record.length));
+  const cells = (record: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) =>
+      (record[i] ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' '),
+    ).join(' | ')} |`;
+
+  const table = [
+    cells(header),
+    `|${' --- |'.repeat(width)}`,
+    ...rows.slice(0, CSV_PREVIEW_ROWS).map(cells),
+  ];
+  if (rows.length > CSV_PREVIEW_ROWS) {
+    table.push('', `… ${(rows.length - CSV_PREVIEW_ROWS).toLocaleString()} more rows`);
+  }
+  return { table: table.join('\n'), rows: rows.length };
+}
+
+function parseCsv(raw: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((row) => row.some((cell) => cell.trim()));
+}
@@ -0,0 +1,240 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { unifiedDiff } from './diff.js';
+
+export interface CodeBlock {
+  /** Path named by the heading, label line or fence info string, if any. */
+  path?: string;
+  language: string;
+  content: string;
+  /** 1-based line of the opening fence in the response. */
+  line: number;
+}
+
+export interface FileChange {
+  /** Path relative to the base directory, with forward slashes. */
+  path: string;
+  kind: 'modify' | 'create';
+  before: string;
+  after: string;
+  /** Whether the path was one of the files sent in the bundle. */
+  bundled: boolean;
+  diff: string;
+}
+
+export interface ExtractionPlan {
+  changes: FileChange[];
+  /** Blocks left out: no recognizable path, a path outside the base dir, or no change. */
+  skipped: Array<CodeBlock & { reason: string }>;
+}
+
+export interface ExtractionOptions {
+  /** Captured response markdown. */
+  markdown: string;
+  /** Bundle sent for the same turn; its `## path` headings name the bundled files. */
+  bundle?: string | null;
+  /** Directory bundled paths are relative to. */
+  baseDir?: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`]*)$/;
+const PATH_LIKE = /^(?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)*\.[\w-]+$|^(?:[\w@.-]+\/)+[\w@.-]+$/;
+
+/**
+ * Fenced code blocks in a response, each with the file path it is headed by.
+ *
+ * A path is taken from the fence info string (```ts src/a.ts), or from the
+ * line just above the fence when it is a heading, a bold or backticked label,
+ * or a `File: path` line — the shapes models use when echoing a bundle.
+ */
+export function parseCodeBlocks(markdown: string): CodeBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: CodeBlock[] = [];
+  let label: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE);
+    if (!open) {
+      if (lines[i].trim()) label = lines[i];
+      continue;
+    }
+
+    const fence = open[1];
+    const [language = '', ...infoRest] = open[2].trim().split(/\s+/).filter(Boolean);
+    const body: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !isClosingFence(lines[j], fence)) {
+      body.push(lines[j]);
+      j++;
+    }
+
+    const infoPath = [language, ...infoRest].map(pathFromInfo).find(Boolean);
+    blocks.push({
+      path: infoPath ?? (label !== undefined ? pathFromLabel(label) : undefined),
+      language: infoPath === language ? '' : language,
+      content: body.length > 0 ? `${body.join('\n')}\n` : '',
+      line: i + 1,
+    });
+    label = undefined;
+    i = j;
+  }
+
+  return blocks;
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= fence.length &&
+    trimmed[0] === fence[0] &&
+    new Set(trimmed).size === 1 &&
+    line.search(/\S/) <= 3
+  );
+}
+
+function pathFromInfo(token: string): string | undefined {
+  const value = token.replace(/^(?:title|file|filename|path)=/, '').replace(/^["']|["']$/g, '');
+  return value.includes('/') || value.includes('.') ? asPath(value) : undefined;
+}
+
+function pathFromLabel(line: string): string | undefined {
+  let text = line.trim().replace(/^#{1,6}\s+/, '');
+  text = text.replace(/^(?:\*\*|__)(.*)(?:\*\*|__):?$/, '$1').trim();
+  text = text.replace(/^(?:file(?:name)?|path)\s*[:：]\s*/i, '');
+  text = text.replace(
+    /\s*\((?:new file|new|updated|modified|(?:SKIPPED|OMITTED|TRUNCATED|OUTLINE|EXTRACTED|ATTACHED)[^)]*)\)$/i,
+    '',
+  );
+  text = text.replace(/[:：]$/, '').trim();
+  text = text.replace(/^`([^`]+)`$/, '$1').trim();
+  return asPath(text);
+}
+
+function asPath(text: string): string | undefined {
+  if (!text || /\s/.test(text) || /^[a-z][\w+.-]*:\/\//i.test(text)) return undefined;
+  return PATH_LIKE.test(text) ? text.replace(/\\/g, '/').replace(/^\.\//, '') : undefined;
+}
+
+/** Files included in a bundle, in bundle order (skipped and omitted files excluded). */
+export function listBundledFiles(bundle: string): string[] {
+  const files: string[] = [];
+  let inFence: string | undefined;
+  let inContext = false;
+
+  for (const line of bundle.split('\n')) {
+    const fence = line.match(/^(`{3,}|~{3,})/);
+    if (inFence) {
+      if (fence && isClosingFence(line, inFence)) inFence = undefined;
+      continue;
+    }
+    if (fence) {
+      inFence = fence[1];
+      continue;
+    }
+    if (/^# Context Files \(\d+\)/.test(line)) {
+      inContext = true;
+      continue;
+    }
+    const heading = line.match(
+      /^## (.+?)(?: \((SKIPPED|OMITTED|ATTACHED|TRUNCATED|OUTLINE|EXTRACTED) — [^)]*\))?$/,
+    );
+    // Skipped, omitted and attached files weren't inlined; the rest were, at least in part
+    const inlined = heading && !['SKIPPED', 'OMITTED', 'ATTACHED'].includes(heading[2]);
+    if (inContext && heading && inlined) {
+      files.push(heading[1].replace(/\\/g, '/'));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Match a response's code blocks to files and diff each against what is on
+ * disk. Blocks naming a bundled file (or a unique bundled basename) modify it;
+ * other paths inside `baseDir` become new files. When several blocks name the
+ * same file, the last one wins.
+ */
+export async function planExtraction(opts: ExtractionOptions): Promise<ExtractionPlan> {
+  const baseDir = path.resolve(opts.baseDir ?? process.cwd());
+  const bundled = opts.bundle ? listBundledFiles(opts.bundle) : [];
+  const skipped: ExtractionPlan['skipped'] = [];
+  const latest = new Map<string, CodeBlock>();
+
+  for (const block of parseCodeBlocks(opts.markdown)) {
+    if (!block.path) {
+      skipped.push({ ...block, reason: 'no file path' });
+      continue;
+    }
+    const resolved = resolveBundledPath(block.path, bundled);
+    const absolute = path.resolve(baseDir, resolved);
+    const relative = path.relative(baseDir, absolute);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      skipped.push({ ...block, reason: 'outside the base directory' });
+      continue;
+    }
+    latest.set(relative.split(path.sep).join('/'), block);
+  }
+
+  const changes: FileChange[] = [];
+  for (const [filePath, block] of latest) {
+    const before = await readFile(path.join(baseDir, filePath), 'utf-8').catch(() => null);
+    if (before === block.content) {
+      skipped.push({ ...block, reason: 'unchanged' });
+      continue;
+    }
+    changes.push({
+      path: filePath,
+      kind: before === null ? 'create' : 'modify',
+      before: before ?? '',
+      after: block.content,
+      bundled: bundled.includes(filePath),
+      diff: unifiedDiff(before === null ? null : filePath, filePath, before ?? '', block.content),
+    });
+  }
+
+  return { changes, skipped };
+}
+
+function resolveBundledPath(candidate: string, bundled: string[]): string {
+  if (bundled.includes(candidate)) return candidate;
+  if (candidate.includes('/')) {
+    const suffixed = bundled.filter((file) => file.endsWith(`/${candidate}`));
+    return suffixed.length === 1 ? suffixed[0] : candidate;
+  }
+  const byName = bundled.filter((file) => path.posix.basename(file) === candidate);
+  return byName.length === 1 ? byName[0] : candidate;
+}
+
+/** All changes as one patch, applicable with `git apply` or `patch -p1`. */
+export function renderPatch(changes: FileChange[]): string {
+  return changes.map((change) => change.diff).join('');
+}
+
+/**
+ * Write a plan to `outDir`: a single `name.patch` by default, or with
+ * `files` the full new contents of each file under its relative path.
+ * Returns the paths written.
+ */
+export async function writeExtraction(
+  plan: ExtractionPlan,
+  opts: { outDir: string; files?: boolean; name?: string },
+): Promise<string[]> {
+  if (plan.changes.length === 0) return [];
+  const outDir = path.resolve(opts.outDir);
+
+  if (!opts.files) {
+    const patchPath = path.join(outDir, `${opts.name ?? 'response'}.patch`);
+    await mkdir(outDir, { recursive: true });
+    await writeFile(patchPath, renderPatch(plan.changes), 'utf-8');
+    return [patchPath];
+  }
+
+  const written: string[] = [];
+  for (const change of plan.changes) {
+    const target = path.join(outDir, change.path);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, change.after, 'utf-8');
+    written.push(target);
+  }
+  return written;
+}
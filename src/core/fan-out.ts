@@ -0,0 +1,61 @@
+import type { ChatOptions, ProviderName } from '../types.js';
+import { type ChatResult, type ChatRuntime, runChat } from './orchestrator.js';
+
+export interface FanOutResult {
+  provider: ProviderName;
+  ok: boolean;
+  result?: ChatResult;
+  error?: string;
+}
+
+/**
+ * Send the same prompt bundle to several providers in parallel.
+ *
+ * Each provider goes through its own `runChat` — risk guard, profile lock,
+ * browser and session are all per provider — and a failure in one run is
+ * reported in its result instead of rejecting the others.
+ */
+export async function runChatFanOut(
+  options: ChatOptions,
+  hooks: { onSettled?: (result: FanOutResult) => void } = {},
+  runtime: ChatRuntime = {},
+): Promise<FanOutResult[]> {
+  const providers = [...new Set(options.providers ?? [])];
+  if (providers.length === 0) {
+    throw new Error('No providers specified for fan-out.');
+  }
+  if (options.continueSessionId) {
+    throw new Error('--continue cannot be combined with multiple providers.');
+  }
+
+  return Promise.all(
+    providers.map(async (provider): Promise<FanOutResult> => {
+      let outcome: FanOutResult;
+      try {
+        const result = await runChat(
+          {
+            ...options,
+            provider,
+            providers: undefined,
+            // Falling back would only send the prompt to another provider of the fan-out
+            fallback: [],
+            // Names are unique, so each provider's session gets its own
+            name: options.name ? `${options.name}-${provider}` : undefined,
+            // Interleaved streams from parallel runs are unreadable; results are printed at the end.
+            onChunk: options.onChunk ?? (() => {}),
+          },
+          runtime,
+        );
+        outcome = { provider, ok: true, result };
+      } catch (error) {
+        outcome = {
+          provider,
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      hooks.onSettled?.(outcome);
+      return outcome;
+    }),
+  );
+}
@@ -0,0 +1,92 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { GitSelector, SessionRepository } from '../types.js';
+
+const execFileAsync = promisify(execFile);
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+
+export interface GitSelection {
+  /** Human-readable description, e.g. "changes since main". */
+  label: string;
+  /** Touched files that still exist, relative to cwd. */
+  files: string[];
+  /** Unified diff of the selection, limited to cwd. */
+  diff: string;
+}
+
+/** Resolve a selector to its touched files and unified diff, scoped to `cwd`. */
+export async function selectGitChanges(selector: GitSelector, cwd: string): Promise<GitSelection> {
+  await git(['rev-parse', '--is-inside-work-tree'], cwd).catch(() => {
+    throw new Error(`Not a git repository: ${cwd}`);
+  });
+  if ('ref' in selector) {
+    await git(['rev-parse', '--verify', '--quiet', `${selector.ref}^{commit}`], cwd).catch(() => {
+      throw new Error(`Unknown git ref: ${selector.ref}`);
+    });
+  }
+
+  const range = diffRange(selector);
+  const [names, diff, untracked] = await Promise.all([
+    git(['diff', '-z', '--name-only', '--diff-filter=d', '--relative', ...range], cwd),
+    git(['diff', '--no-color', '--no-ext-diff', '--relative', ...range], cwd),
+    selector.mode === 'changed'
+      ? git(['ls-files', '-z', '--others', '--exclude-standard'], cwd)
+      : Promise.resolve(''),
+  ]);
+
+  const files = [...new Set([...paths(names), ...paths(untracked)])].sort();
+  return { label: describeSelector(selector), files, diff };
+}
+
+/** Root and current branch of the repository containing `cwd`, if any. */
+export async function describeRepository(cwd: string): Promise<SessionRepository | undefined> {
+  try {
+    const root = (await git(['rev-parse', '--show-toplevel'], cwd)).trim();
+    const branch = (
+      await git(['symbolic-ref', '--quiet', '--short', 'HEAD'], cwd).catch(() => '')
+    ).trim();
+    return { root, branch: branch || undefined };
+  } catch {
+    return undefined;
+  }
+}
+
+function diffRange(selector: GitSelector): string[] {
+  switch (selector.mode) {
+    case 'changed':
+      return ['HEAD'];
+    case 'staged':
+      return ['--cached'];
+    case 'since':
+      return [`${selector.ref}...HEAD`];
+    case 'diff':
+      return [selector.ref];
+  }
+}
+
+export function describeSelector(selector: GitSelector): string {
+  switch (selector.mode) {
+    case 'changed':
+      return 'uncommitted changes';
+    case 'staged':
+      return 'staged changes';
+    case 'since':
+      return `changes since ${selector.ref}`;
+    case 'diff':
+      return `working tree vs ${selector.ref}`;
+  }
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: MAX_GIT_OUTPUT,
+    encoding: 'utf-8',
+  });
+  return stdout;
+}
+
+/** Split NUL-separated (`-z`) path output. */
+function paths(output: string): string[] {
+  return output.split('\0').filter(Boolean);
+}
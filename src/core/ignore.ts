@@ -0,0 +1,179 @@
+import { access, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import fg from 'fast-glob';
+
+/** Per-directory ignore files, in the order their rules apply. */
+const IGNORE_FILES = ['.gitignore', '.douzhiignore'];
+
+export interface IgnoreRule {
+  /** Directory of the ignore file, relative to the root ('' for the root). */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export interface IgnoreMatcher {
+  /** Whether a path relative to `cwd` is ignored, directly or through an ignored parent. */
+  ignores(relativePath: string): boolean;
+}
+
+/**
+ * Load `.gitignore` and `.douzhiignore` rules that apply under `cwd`: those
+ * in `cwd` and its subdirectories, plus those between the enclosing git
+ * repository's root and `cwd` (and `.git/info/exclude`).
+ */
+export async function loadIgnoreMatcher(cwd: string): Promise<IgnoreMatcher> {
+  const root = (await findGitRoot(cwd)) ?? cwd;
+  const rules: IgnoreRule[] = [];
+
+  const addFile = async (filePath: string, base: string) => {
+    const content = await readFile(filePath, 'utf-8').catch(() => null);
+    if (content !== null) rules.push(...parseIgnoreFile(content, base));
+  };
+
+  await addFile(path.join(root, '.git', 'info', 'exclude'), '');
+
+  // Ancestors from the repository root down to (but excluding) cwd
+  const fromRoot = path.relative(root, cwd).split(path.sep).filter(Boolean);
+  for (let depth = 0; depth < fromRoot.length; depth++) {
+    const base = fromRoot.slice(0, depth).join('/');
+    for (const name of IGNORE_FILES) {
+      await addFile(path.join(root, base, name), base);
+    }
+  }
+
+  const nested = await fg(
+    IGNORE_FILES.map((name) => `**/${name}`),
+    { cwd, dot: true, onlyFiles: true, ignore: ['**/node_modules/**', '**/.git/**'] },
+  );
+  // Shallower files first, so deeper rules override them
+  nested.sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+  for (const file of nested) {
+    const dir = path.posix.dirname(file);
+    await addFile(path.join(cwd, file), joinPosix(fromRoot.join('/'), dir === '.' ? '' : dir));
+  }
+
+  const prefix = fromRoot.join('/');
+  return createIgnoreMatcher(rules, prefix);
+}
+
+/** A matcher over parsed rules; `prefix` is cwd relative to the rules' root. */
+export function createIgnoreMatcher(rules: IgnoreRule[], prefix = ''): IgnoreMatcher {
+  const matches = (candidate: string, isDir: boolean): boolean | undefined => {
+    let ignored: boolean | undefined;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.base && !candidate.startsWith(`${rule.base}/`)) continue;
+      const local = rule.base ? candidate.slice(rule.base.length + 1) : candidate;
+      if (rule.regex.test(local)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return {
+    ignores(relativePath: string): boolean {
+      const full = joinPosix(prefix, relativePath.split(path.sep).join('/'));
+      const segments = full.split('/');
+      // A file inside an ignored directory can't be re-included
+      for (let i = 1; i < segments.length; i++) {
+        if (matches(segments.slice(0, i).join('/'), true)) return true;
+      }
+      return matches(full, false) ?? false;
+    },
+  };
+}
+
+/** Parse gitignore syntax into rules relative to `base`. */
+export function parseIgnoreFile(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.replace(/\/+$/, '');
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    const body = globToRegex(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negate,
+      dirOnly,
+    });
+  }
+  return rules;
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          // `**/` matches zero or more directories; a trailing `/**` everything inside
+          if (i + 2 === glob.length) {
+            out += '.*';
+          } else {
+            out += '(?:.*/)?';
+            i++;
+          }
+          i++;
+          continue;
+        }
+      }
+      out += '[^/]*';
+    } else if (char === '?') {
+      out += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        out += '\\[';
+      } else {
+        out += `[${glob
+          .slice(i + 1, close)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      out += escapeRegex(glob[++i]);
+    } else {
+      out += escapeRegex(char);
+    }
+  }
+  return out;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function joinPosix(a: string, b: string): string {
+  return a && b ? `${a}/${b}` : a || b;
+}
+
+async function findGitRoot(start: string): Promise<string | undefined> {
+  let dir = path.resolve(start);
+  while (true) {
+    try {
+      await access(path.join(dir, '.git'));
+      return dir;
+    } catch {
+      const parent = path.dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+}
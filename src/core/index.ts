@@ -1,5 +1,58 @@
-export { buildBundle } from './bundle.js';
-export { type ChatResult, runChat } from './orchestrator.js';
+export {
+  type BundleFileReport,
+  type BundlePlan,
+  type BundleReport,
+  buildBundle,
+  estimateTokens,
+  planBundle,
+  resolveContextBudget,
+} from './bundle.js';
+export {
+  type DocumentKind,
+  detectDocumentKind,
+  type ExtractedDocument,
+  extractDocument,
+} from './documents.js';
+export {
+  type CodeBlock,
+  type ExtractionOptions,
+  type ExtractionPlan,
+  type FileChange,
+  listBundledFiles,
+  parseCodeBlocks,
+  planExtraction,
+  renderPatch,
+  writeExtraction,
+} from './extract.js';
+export { type FanOutResult, runChatFanOut } from './fan-out.js';
+export { describeRepository, type GitSelection, selectGitChanges } from './git.js';
+export { type IgnoreMatcher, loadIgnoreMatcher } from './ignore.js';
+export {
+  type ChatResult,
+  type ChatRuntime,
+  resolveChatProvider,
+  runChat,
+} from './orchestrator.js';
+export { createRedactor, type RedactionFinding, type Redactor } from './redact.js';
+export {
+  acquireRiskSlot,
+  type ChatRunMode,
+  explainRiskGuard,
+  type GuardDecision,
+  getRiskPolicies,
+  getRiskStatus,
+  type ProviderRiskStatus,
+  type RiskCheck,
+  type RiskEventEntry,
+  type RiskExplanation,
+  RiskGuardError,
+  type RiskPolicyReport,
+  type RiskRule,
+  type RiskSlotRequest,
+  type RiskUsage,
+  resetRiskState,
+  validateRiskPolicyConfig,
+} from './risk-guard.js';
 export {
   crawlSources,
   extractUrlsFromText,
@@ -9,3 +62,11 @@ export {
   type SourceExtractionResult,
   writeCrawlOutput,
 } from './sources.js';
+export {
+  listTemplates,
+  loadTemplate,
+  parseTemplate,
+  renderTemplate,
+  type TemplateValues,
+  type TemplateVariable,
+} from './templates.js';
@@ -1,30 +1,80 @@
 import { stat } from 'node:fs/promises';
 import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
 import chalk from 'chalk';
 import fg from 'fast-glob';
 import type { Page } from 'playwright';
-import { type BrowserSession, launchBrowser } from '../browser/index.js';
+import { type BrowserSession, type LaunchOptions, launchBrowser } from '../browser/index.js';
 import { loadConfig } from '../config.js';
-import { getProvider } from '../providers/index.js';
-import { createSession, saveBundle, saveResponse, updateSession } from '../session/index.js';
-import { recordErrorEvent } from '../telemetry/errors.js';
-import type { CapturedResponse, ChatOptions, ProviderName } from '../types.js';
-import { buildBundle } from './bundle.js';
+import { getProvider, isValidProvider } from '../providers/index.js';
+import { matchModel } from '../providers/model-picker.js';
 import {
+  addSessionTurn,
+  applyRetentionPolicy,
+  createSession,
+  getSession,
+  listSessions,
+  saveBundle,
+  saveResponse,
+  updateSession,
+} from '../session/index.js';
+import { classifyErrorType, recordErrorEvent } from '../telemetry/errors.js';
+import type {
+  CapturedResponse,
+  ChatOptions,
+  Citation,
+  FallbackReason,
+  ProviderConfig,
+  ProviderName,
+  ResponseAsset,
+  RiskOutcomeKind,
+  SessionMeta,
+  SkippedProvider,
+} from '../types.js';
+import { downloadResponseAssets, linkResponseAssets } from './assets.js';
+import { planBundle, resolveContextBudget } from './bundle.js';
+import { describeRepository } from './git.js';
+import {
+  acquireRiskSlot,
   detectRiskOutcomeFromError,
   detectRiskOutcomeFromResponse,
-  evaluateRiskGuard,
-  type RiskOutcomeKind,
-  recordRiskAttemptStart,
+  type GuardDecision,
+  RiskGuardError,
   recordRiskOutcome,
 } from './risk-guard.js';
+import { templateModel } from './templates.js';
 
 export interface ChatResult {
   sessionId: string;
+  /** 1-based index of the turn this result belongs to. */
+  turn: number;
   provider: ProviderName;
+  /** Model in effect when the response was captured, as read back from the UI. */
+  model?: string;
+  conversationUrl?: string;
+  /** Response markdown (plain text for providers that only expose text). */
   response: string;
+  citations?: Citation[];
+  /** Downloaded images/files; `path` is relative to the session directory. */
+  assets?: ResponseAsset[];
   truncated: boolean;
   durationMs: number;
+  /** Providers the fallback chain passed over before `provider` answered. */
+  skippedProviders?: SkippedProvider[];
+}
+
+/** Process-level hooks for callers that manage browsers themselves (e.g. `serve`). */
+export interface ChatRuntime {
+  /** Replaces `launchBrowser`, e.g. with a warm pool's `launch`. */
+  launchBrowser?: (opts: LaunchOptions) => Promise<BrowserSession>;
+}
+
+/** One provider's run within a fallback chain. */
+interface ChatAttempt {
+  /** Providers already passed over, recorded with the session. */
+  skipped: SkippedProvider[];
+  /** Set once the run has created its session. */
+  sessionId?: string;
 }
 
 const LOGIN_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
@@ -34,30 +84,116 @@ const HEADLESS_AUTH_RECHECK_INTERVAL_MS = 2_000;
 const HUMAN_VERIFICATION_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
 const HUMAN_VERIFICATION_POLL_INTERVAL_MS = 2_000;
 
+/**
+ * Execute a chat interaction, moving down the fallback chain (`--fallback`,
+ * or `fallbackProviders` in config) while providers are blocked or broken.
+ * Other errors, and the last provider's, are rethrown.
+ */
+export async function runChat(
+  options: ChatOptions,
+  runtime: ChatRuntime = {},
+): Promise<ChatResult> {
+  const chain = await resolveProviderChain(options);
+  const skipped: SkippedProvider[] = [];
+  for (const [index, providerName] of chain.entries()) {
+    const attempt: ChatAttempt = { skipped: [...skipped] };
+    try {
+      return await runProviderChat(
+        index === 0 ? options : fallbackOptions(options, providerName),
+        runtime,
+        attempt,
+      );
+    } catch (error) {
+      const reason = fallbackReason(error);
+      const next = chain[index + 1];
+      if (!reason || !next) throw error;
+
+      skipped.push({
+        provider: providerName,
+        reason,
+        message: error instanceof Error ? error.message : String(error),
+        sessionId: attempt.sessionId,
+      });
+      if (options.name && attempt.sessionId) {
+        await releaseName(attempt.sessionId, options.name, providerName);
+      }
+      console.log(
+        chalk.yellow(
+          `⚠ ${getProvider(providerName).config.displayName} is unavailable (${reason}); trying ${getProvider(next).config.displayName}...`,
+        ),
+      );
+    }
+  }
+  throw new Error('No provider to run the chat on.');
+}
+
 /**
  * Execute a chat interaction with a provider:
  * 1. Build the prompt bundle
- * 2. Launch the browser
+ * 2. Launch the browser (on the saved thread URL when continuing a session)
  * 3. Attach files (if any)
  * 4. Submit the prompt
  * 5. Capture the response
  * 6. Save session
  */
-export async function runChat(options: ChatOptions): Promise<ChatResult> {
+async function runProviderChat(
+  options: ChatOptions,
+  runtime: ChatRuntime,
+  attempt: ChatAttempt,
+): Promise<ChatResult> {
+  const launch = runtime.launchBrowser ?? launchBrowser;
   let stage = 'init';
   const config = await loadConfig();
-  const providerName = options.provider ?? config.defaultProvider;
+  const continued = options.continueSessionId
+    ? await loadContinuableSession(options.continueSessionId, options.provider)
+    : null;
+  const { template } = options;
+  const providerName =
+    continued?.provider ?? options.provider ?? template?.provider ?? config.defaultProvider;
   const provider = getProvider(providerName);
+  const startUrl = continued?.conversationUrl ?? provider.config.url;
   const timeoutMs = options.timeoutMs ?? config.defaultTimeoutMs;
   const headless = options.headed === true ? false : config.headless;
   const runMode = headless ? 'headless' : 'headed';
   let activeHeadless = headless;
 
+  // Fail fast on a model the provider doesn't offer, before touching the risk budget
+  const requestedModel = resolveRequestedModel(
+    provider.config,
+    options.model ?? templateModel(template, providerName),
+    config.defaultModel,
+  );
+  if (requestedModel && !provider.actions.selectModel) {
+    throw new Error(`${provider.config.displayName} does not support model selection.`);
+  }
+
+  // Build the bundle
+  const { bundle, report: bundleReport } = await planBundle({
+    prompt: options.prompt,
+    files: options.file ?? template?.files,
+    budget: resolveContextBudget(provider.config, options.budgetTokens),
+    overflow: options.overflow,
+    git: options.git,
+    secretPatterns: config.secretPatterns,
+    template,
+    selection: options.selection,
+    stdin: options.stdin,
+  });
+  const redactions = bundleReport.redactions.length;
+  if (options.strict && redactions > 0) {
+    throw new Error(
+      `Refusing to send: ${redactions} secret(s) detected in the bundle (--strict). Review them with --dry-run.`,
+    );
+  }
+
   stage = 'risk_guard_precheck';
-  const riskDecision = await evaluateRiskGuard({
+  // Takes the provider's next slot, waiting for it with --wait-for-slot
+  const riskDecision = await acquireRiskSlot({
     provider: providerName,
     mode: runMode,
     prompt: options.prompt,
+    maxWaitMs: options.waitForSlotMs,
+    wait: (denial) => waitForRiskSlot(denial, provider.config.displayName),
   });
   if (!riskDecision.allowed) {
     const waitSeconds = riskDecision.waitMs ? Math.ceil(riskDecision.waitMs / 1000) : null;
@@ -76,51 +212,61 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
         waitMs: riskDecision.waitMs,
       },
     });
-    throw new Error(blockedMessage);
+    throw new RiskGuardError(blockedMessage, providerName, riskDecision.waitMs);
   }
 
-  // Build the bundle
-  const bundle = await buildBundle({
-    prompt: options.prompt,
-    files: options.file,
-  });
-
-  // Create session
-  const session = await createSession(providerName, options.prompt, options.model);
-  await saveBundle(session.id, bundle);
-
-  stage = 'risk_guard_attempt_start';
-  try {
-    await recordRiskAttemptStart({
-      provider: providerName,
-      mode: runMode,
-      prompt: options.prompt,
-    });
-  } catch (riskError) {
-    await recordErrorEvent(
-      {
-        module: 'chat',
-        stage,
-        provider: providerName,
-        sessionId: session.id,
-        message: riskError instanceof Error ? riskError.message : String(riskError),
-      },
-      riskError,
+  // Create session (or reuse the continued one) and open a new turn
+  // A template run without -p is recorded under the template's name
+  const sessionPrompt = options.prompt || (template ? `[template: ${template.name}]` : '');
+  const cwd = process.cwd();
+  const session = continued
+    ? await relabelSession(continued, options)
+    : await createSession(providerName, sessionPrompt, requestedModel, {
+        name: options.name,
+        tags: options.tags,
+        cwd,
+        repository: await describeRepository(cwd),
+        skippedProviders: attempt.skipped,
+      });
+  attempt.sessionId = session.id;
+  const turn = await addSessionTurn(session.id, sessionPrompt);
+  await saveBundle(session.id, bundle, turn.index);
+
+  console.log(chalk.dim(`Session: ${session.id}${continued ? ` (turn ${turn.index})` : ''}`));
+  console.log(chalk.blue(`Provider: ${provider.config.displayName}`));
+  const overflowed = bundleReport.files.filter(
+    (file) => file.action !== 'full' && file.action !== 'skipped',
+  );
+  if (overflowed.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠ ${overflowed.length} file(s) exceeded the context budget (${bundleReport.overflow}); preview with --dry-run`,
+      ),
+    );
+  }
+  if (redactions > 0) {
+    console.log(
+      chalk.yellow(`⚠ Redacted ${redactions} secret(s) from the bundle; review with --dry-run`),
     );
   }
 
-  console.log(chalk.dim(`Session: ${session.id}`));
-  console.log(chalk.blue(`Provider: ${provider.config.displayName}`));
+  // Retention runs as each chat starts; the session in use is never pruned
+  const pruned = await applyRetentionPolicy(config.retention, { keep: [session.id] }).catch(
+    () => null,
+  );
+  if (pruned?.removed.length) {
+    console.log(chalk.dim(`Pruned ${pruned.removed.length} old session(s) (retention policy)`));
+  }
 
   // Launch browser — if this fails, mark session as failed
   let browser: BrowserSession | null = null;
   try {
     stage = 'launch_browser';
     await updateSession(session.id, { status: 'running' });
-    browser = await launchBrowser({
+    browser = await launch({
       provider: providerName,
       headless: activeHeadless,
-      url: provider.config.url,
+      url: startUrl,
     });
   } catch (error) {
     await updateSession(session.id, { status: 'failed' });
@@ -171,10 +317,10 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
 
           stage = 'relaunch_headed_due_headless_block';
           activeHeadless = false;
-          browser = await launchBrowser({
+          browser = await launch({
             provider: providerName,
             headless: false,
-            url: provider.config.url,
+            url: startUrl,
           });
 
           stage = 'check_login_after_headed_block_fallback';
@@ -194,7 +340,7 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
 
         stage = 'launch_headed_for_login';
         activeHeadless = false;
-        browser = await launchBrowser({
+        browser = await launch({
           provider: providerName,
           headless: false,
           url: provider.config.loginUrl,
@@ -225,10 +371,10 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
 
         stage = 'relaunch_headless_post_login';
         activeHeadless = true;
-        browser = await launchBrowser({
+        browser = await launch({
           provider: providerName,
           headless: true,
-          url: provider.config.url,
+          url: startUrl,
         });
 
         stage = 'check_login_after_relaunch';
@@ -257,21 +403,25 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
     // Submit prompt
     console.log(chalk.dim('Submitting prompt...'));
 
-    // Attach files if provided
-    if (options.attach && options.attach.length > 0) {
-      stage = 'attach_files';
+    // Attach files: --attach, plus images and binaries matched by --file
+    stage = 'attach_files';
+    const attach = options.attach ?? template?.attach;
+    const attachments = [
+      ...new Set([
+        ...(attach && attach.length > 0 ? await resolveAttachPaths(attach) : []),
+        ...bundleReport.attachments,
+      ]),
+    ];
+    if (attachments.length > 0) {
       if (!provider.actions.attachFiles) {
         console.warn(
           chalk.yellow(
-            `⚠ Provider '${providerName}' does not support file attachments. --attach will be ignored.`,
+            `⚠ Provider '${providerName}' does not support file attachments. ${attachments.length} attachment(s) will be ignored.`,
           ),
         );
       } else {
-        const resolvedPaths = await resolveAttachPaths(options.attach);
-        if (resolvedPaths.length > 0) {
-          console.log(chalk.dim(`Attaching ${resolvedPaths.length} file(s)...`));
-          await provider.actions.attachFiles(browser.page, resolvedPaths);
-        }
+        console.log(chalk.dim(`Attaching ${attachments.length} file(s)...`));
+        await provider.actions.attachFiles(browser.page, attachments);
       }
     }
 
@@ -283,6 +433,8 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
         providerDisplayName: provider.config.displayName,
         isLoggedIn: provider.actions.isLoggedIn,
         activeHeadless,
+        url: startUrl,
+        launch,
       }));
 
       const captureTimeoutMs =
@@ -291,6 +443,12 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
           : timeoutMs;
 
       try {
+        if (requestedModel && provider.actions.selectModel) {
+          stage = 'select_model';
+          console.log(chalk.dim(`Selecting model: ${requestedModel}`));
+          await provider.actions.selectModel(browser.page, requestedModel);
+        }
+
         stage = 'submit_prompt';
         await provider.actions.submitPrompt(browser.page, bundle);
 
@@ -298,7 +456,7 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
         stage = 'capture_response';
         captured = await provider.actions.captureResponse(browser.page, {
           timeoutMs: captureTimeoutMs,
-          onChunk: (chunk) => process.stdout.write(chalk.dim(chunk)),
+          onChunk: options.onChunk ?? ((chunk) => process.stdout.write(chalk.dim(chunk))),
         });
         break;
       } catch (error) {
@@ -313,6 +471,8 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
             providerDisplayName: provider.config.displayName,
             isLoggedIn: provider.actions.isLoggedIn,
             activeHeadless,
+            url: startUrl,
+            launch,
           }));
           continue;
         }
@@ -336,10 +496,10 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
 
           stage = 'relaunch_headed_retry_after_block';
           activeHeadless = false;
-          browser = await launchBrowser({
+          browser = await launch({
             provider: providerName,
             headless: false,
-            url: provider.config.url,
+            url: startUrl,
           });
 
           stage = 'check_login_after_retry_relaunch';
@@ -386,20 +546,59 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
       message: riskOutcome === 'success' ? undefined : captured.text.slice(0, 500),
     });
 
+    // Record the model the UI actually used, which may differ from the request
+    stage = 'read_model';
+    captured.model =
+      captured.model ??
+      (browser
+        ? await provider.actions.readModel?.(browser.page).catch(() => undefined)
+        : undefined) ??
+      requestedModel;
+
+    // Keep generated images and files: the URLs behind them expire or need the login
+    if (captured.assets?.length && browser) {
+      stage = 'download_assets';
+      captured.assets = await downloadResponseAssets(
+        browser.page,
+        session.id,
+        turn.index,
+        captured.assets,
+      );
+      captured.markdown = linkResponseAssets(captured.markdown || captured.text, captured.assets);
+      const failed = captured.assets.filter((asset) => asset.error);
+      if (failed.length > 0) {
+        console.warn(
+          chalk.yellow(
+            `⚠ ${failed.length} of ${captured.assets.length} asset(s) failed to download`,
+          ),
+        );
+      }
+    }
+
     // Save response
     stage = 'save_response';
-    await saveResponse(session.id, captured.text);
+    const conversationUrl =
+      matchConversationUrl(provider.config, browser?.page.url()) ?? continued?.conversationUrl;
+    await saveResponse(session.id, captured, turn.index);
     await updateSession(session.id, {
       status: captured.truncated ? 'timeout' : 'completed',
       durationMs,
+      model: captured.model,
+      conversationUrl,
     });
 
     return {
       sessionId: session.id,
+      turn: turn.index,
       provider: providerName,
-      response: captured.text,
+      model: captured.model,
+      conversationUrl,
+      response: captured.markdown || captured.text,
+      citations: captured.citations ?? [],
+      assets: captured.assets ?? [],
       truncated: captured.truncated,
       durationMs,
+      skippedProviders: attempt.skipped.length > 0 ? attempt.skipped : undefined,
     };
   } catch (error) {
     const durationMs = Date.now() - startTime;
@@ -436,6 +635,135 @@ export async function runChat(options: ChatOptions): Promise<ChatResult> {
   }
 }
 
+/**
+ * Pick the model to select: an explicit request must be one of the provider's
+ * models; the global `config.defaultModel` only applies to providers that
+ * offer it.
+ */
+function resolveRequestedModel(
+  config: ProviderConfig,
+  requested?: string,
+  configDefault?: string,
+): string | undefined {
+  if (requested) return matchModel(config, requested);
+  if (!configDefault) return undefined;
+  return config.models?.find((model) => model.toLowerCase() === configDefault.toLowerCase());
+}
+
+/** Resolve the provider a chat will run on: the continued session's, the requested one, or the default. */
+export async function resolveChatProvider(options: ChatOptions): Promise<ProviderName> {
+  if (options.continueSessionId) {
+    const meta = await loadContinuableSession(options.continueSessionId, options.provider);
+    return meta.provider;
+  }
+  return options.provider ?? options.template?.provider ?? (await loadConfig()).defaultProvider;
+}
+
+/**
+ * Providers to try in order: the chat's own, then its fallbacks. A continued
+ * session stays with its provider, whose thread it is.
+ */
+async function resolveProviderChain(options: ChatOptions): Promise<ProviderName[]> {
+  const primary = await resolveChatProvider(options);
+  if (options.continueSessionId) return [primary];
+
+  const fallback = options.fallback ?? (await loadConfig()).fallbackProviders ?? [];
+  const unknown = fallback.find((name) => !isValidProvider(name));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown fallback provider: ${unknown}`);
+  }
+  return [...new Set([primary, ...fallback])];
+}
+
+/** Options for a fallback provider; a requested model only carries over if it offers it. */
+function fallbackOptions(options: ChatOptions, provider: ProviderName): ChatOptions {
+  let model: string | undefined;
+  if (options.model) {
+    try {
+      model = matchModel(getProvider(provider).config, options.model);
+    } catch {
+      model = undefined;
+    }
+  }
+  return { ...options, provider, model };
+}
+
+/**
+ * Names are unique, so a failed attempt's session gives the chat's name up
+ * for the next provider: `<name>-<provider>` as fan-out runs use, or with
+ * the session's short ID when an earlier run already took that.
+ */
+async function releaseName(sessionId: string, name: string, provider: ProviderName): Promise<void> {
+  const taken = new Set(
+    (await listSessions({ hours: Number.POSITIVE_INFINITY })).map((meta) => meta.name),
+  );
+  // Keep within the 80 characters names are allowed
+  const withSuffix = (suffix: string) => `${name.slice(0, 80 - suffix.length)}${suffix}`;
+  let renamed = withSuffix(`-${provider}`);
+  if (taken.has(renamed)) renamed = withSuffix(`-${provider}-${sessionId.slice(0, 8)}`);
+  await updateSession(sessionId, { name: renamed });
+}
+
+/**
+ * Whether a failure says the provider is blocked or broken rather than
+ * anything about the request, so another provider may well succeed.
+ */
+function fallbackReason(error: unknown): FallbackReason | undefined {
+  if (error instanceof RiskGuardError) return 'risk_guard';
+  const outcome = detectRiskOutcomeFromError(error);
+  if (
+    outcome === 'auth_required' ||
+    outcome === 'http_429' ||
+    outcome === 'captcha_or_verification'
+  ) {
+    return outcome;
+  }
+  return classifyErrorType(error) === 'ui_selector_changed' ? 'ui_selector_changed' : undefined;
+}
+
+/**
+ * Load a session for `--continue` and make sure its provider thread can be reopened.
+ */
+async function loadContinuableSession(
+  sessionId: string,
+  requestedProvider?: ProviderName,
+): Promise<SessionMeta> {
+  const { meta } = await getSession(sessionId).catch(() => {
+    throw new Error(`Session not found: ${sessionId}`);
+  });
+
+  if (requestedProvider && requestedProvider !== meta.provider) {
+    throw new Error(
+      `Session ${sessionId} belongs to provider '${meta.provider}', not '${requestedProvider}'.`,
+    );
+  }
+
+  if (!getProvider(meta.provider).config.conversationUrlPattern) {
+    throw new Error(`Provider '${meta.provider}' does not support continuing conversations.`);
+  }
+
+  if (!meta.conversationUrl) {
+    throw new Error(
+      `Session ${sessionId} has no saved conversation URL. Only sessions that completed a turn can be continued.`,
+    );
+  }
+
+  return meta;
+}
+
+/** Apply `--name` and `--tag` to a continued session. */
+async function relabelSession(meta: SessionMeta, options: ChatOptions): Promise<SessionMeta> {
+  const update: Parameters<typeof updateSession>[1] = {};
+  if (options.name !== undefined) update.name = options.name;
+  if (options.tags?.length) update.tags = [...(meta.tags ?? []), ...options.tags];
+  return Object.keys(update).length > 0 ? updateSession(meta.id, update) : meta;
+}
+
+function matchConversationUrl(config: ProviderConfig, url?: string): string | undefined {
+  if (!url || !config.conversationUrlPattern) return undefined;
+  return config.conversationUrlPattern.test(url) ? url : undefined;
+}
+
 async function safelyRecordRiskOutcome(params: {
   provider: ProviderName;
   sessionId?: string;
@@ -469,8 +797,10 @@ async function resolveHumanVerificationIfNeeded(params: {
   providerDisplayName: string;
   isLoggedIn: (page: Page) => Promise<boolean>;
   activeHeadless: boolean;
+  url: string;
+  launch: (opts: LaunchOptions) => Promise<BrowserSession>;
 }): Promise<{ browser: BrowserSession; activeHeadless: boolean }> {
-  const { providerName, providerDisplayName, isLoggedIn } = params;
+  const { providerName, providerDisplayName, isLoggedIn, url } = params;
   let { browser, activeHeadless } = params;
 
   const needsVerification = await isHumanVerificationVisible(browser.page, providerName);
@@ -483,11 +813,10 @@ async function resolveHumanVerificationIfNeeded(params: {
       ),
     );
     await browser.close();
-    const providerUrl = getProvider(providerName).config.url;
-    browser = await launchBrowser({
+    browser = await params.launch({
       provider: providerName,
       headless: false,
-      url: providerUrl,
+      url,
     });
     activeHeadless = false;
   }
@@ -527,6 +856,37 @@ async function resolveHumanVerificationIfNeeded(params: {
   return { browser, activeHeadless };
 }
 
+/** Sleep through a risk-guard denial, counting down on a terminal. */
+async function waitForRiskSlot(
+  denial: GuardDecision & { waitMs: number },
+  providerDisplayName: string,
+): Promise<void> {
+  const until = Date.now() + denial.waitMs;
+  console.log(
+    chalk.yellow(
+      `Risk guard: ${denial.message ?? `${providerDisplayName} is rate limited.`} Waiting for a slot...`,
+    ),
+  );
+  if (!process.stdout.isTTY) {
+    console.log(chalk.dim(`Next ${providerDisplayName} slot in ${formatCountdown(denial.waitMs)}`));
+    await sleep(denial.waitMs);
+    return;
+  }
+  for (let left = denial.waitMs; left > 0; left = until - Date.now()) {
+    process.stdout.write(
+      `\r${chalk.dim(`Next ${providerDisplayName} slot in ${formatCountdown(left)}`)}\x1b[K`,
+    );
+    await sleep(Math.min(left, 1000));
+  }
+  process.stdout.write('\r\x1b[K');
+}
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  const clock = `${Math.floor((seconds % 3600) / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return seconds >= 3600 ? `${Math.floor(seconds / 3600)}:${clock.padStart(5, '0')}` : clock;
+}
+
 async function waitForLogin(
   page: Page,
   isLoggedIn: (page: Page) => Promise<boolean>,
@@ -0,0 +1,44 @@
+export interface KeyedQueue {
+  /** Run `task` after every earlier task with the same key has settled. */
+  run: <T>(key: string, task: () => Promise<T>) => Promise<T>;
+  /** Number of tasks queued or running for a key. */
+  pending: (key: string) => number;
+}
+
+/**
+ * Serialize async work per key (one provider profile = one key) while letting
+ * different keys run in parallel.
+ */
+export function createKeyedQueue(): KeyedQueue {
+  const tails = new Map<string, Promise<unknown>>();
+  const counts = new Map<string, number>();
+
+  const release = (key: string, tail: Promise<void>): void => {
+    const remaining = (counts.get(key) ?? 1) - 1;
+    if (remaining > 0) {
+      counts.set(key, remaining);
+      return;
+    }
+    counts.delete(key);
+    if (tails.get(key) === tail) tails.delete(key);
+  };
+
+  const run = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = tails.get(key) ?? Promise.resolve();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+
+    const next = previous.then(task);
+    // The stored tail never rejects, so a failed task doesn't block or leak into the next one.
+    const tail: Promise<void> = next.then(
+      () => release(key, tail),
+      () => release(key, tail),
+    );
+    tails.set(key, tail);
+    return next;
+  };
+
+  return {
+    run,
+    pending: (key) => counts.get(key) ?? 0,
+  };
+}
@@ -1,26 +1,29 @@
 import { createHash } from 'node:crypto';
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { getRiskDir, getRiskStatePath } from '../paths.js';
-import type { ProviderName } from '../types.js';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import chalk from 'chalk';
+import { acquireFileLock } from '../browser/lock.js';
+import { loadConfig } from '../config.js';
+import { getRiskDir, getRiskLockPath, getRiskStatePath } from '../paths.js';
+import { isValidProvider } from '../providers/index.js';
+import type {
+  ProviderName,
+  ProviderRiskPolicy,
+  RiskOutcomeKind,
+  RiskPolicyConfig,
+  RiskPolicyOverride,
+} from '../types.js';
+import { createKeyedQueue } from './queue.js';
 
 export type ChatRunMode = 'headed' | 'headless';
 
-export type RiskOutcomeKind =
-  | 'success'
-  | 'paused_generation'
-  | 'captcha_or_verification'
-  | 'http_429'
-  | 'auth_required'
-  | 'timeout'
-  | 'other_error';
-
 interface AttemptEntry {
   at: string;
   mode: ChatRunMode;
   promptHash: string;
 }
 
-interface RiskEventEntry {
+export interface RiskEventEntry {
   at: string;
   kind: RiskOutcomeKind;
   message: string;
@@ -40,25 +43,81 @@ interface RiskStateFile {
   providers: Partial<Record<ProviderName, ProviderRiskState>>;
 }
 
-interface ProviderRiskPolicy {
-  minIntervalMsHeaded: number;
-  minIntervalMsHeadless: number;
-  attemptsWindowMs: number;
-  attemptsLimit: number;
-  headlessAttemptsWindowMs: number;
-  headlessAttemptsLimit: number;
-  samePromptWindowMs: number;
-  samePromptLimit: number;
-  cooldownOnRateLimitMs: number;
-  cooldownByOutcomeMs: Partial<Record<RiskOutcomeKind, number>>;
-  breakerConsecutiveRiskThreshold: number;
-  breakerDurationMs: number;
-}
-
-interface GuardDecision {
+export interface GuardDecision {
   allowed: boolean;
   message?: string;
   waitMs?: number;
+  /** The rule that denied the request. */
+  rule?: RiskRule;
+}
+
+/** Recent attempts counted by a rate limit. */
+export interface RiskUsage {
+  used: number;
+  limit: number;
+  windowMs: number;
+}
+
+/** What the risk guard currently holds against a provider. */
+export interface ProviderRiskStatus {
+  provider: ProviderName;
+  policy: ProviderRiskPolicy;
+  lastAttemptAt?: string;
+  /** Time left on the cooldown; 0 when there is none. */
+  cooldownMs: number;
+  /** Time left on the circuit breaker; 0 when it's closed. */
+  breakerMs: number;
+  consecutiveRiskEvents: number;
+  attempts: RiskUsage;
+  headlessAttempts: RiskUsage;
+  /** Time left until the minimum interval allows another request, per mode. */
+  nextAttemptMs: Record<ChatRunMode, number>;
+  /** Newest first. */
+  riskEvents: RiskEventEntry[];
+}
+
+export type RiskRule =
+  | 'breaker'
+  | 'cooldown'
+  | 'min_interval'
+  | 'attempts'
+  | 'headless_attempts'
+  | 'same_prompt';
+
+export interface RiskCheck {
+  rule: RiskRule;
+  passed: boolean;
+  /** How long until the rule passes, or how long the cooldown it trips lasts. */
+  waitMs?: number;
+  usage?: RiskUsage;
+}
+
+export interface RiskExplanation {
+  provider: ProviderName;
+  mode: ChatRunMode;
+  /** What `evaluateRiskGuard` would decide right now. */
+  decision: GuardDecision;
+  /** Every rule in the order they're enforced; the first failing one decides. */
+  checks: RiskCheck[];
+}
+
+export interface RiskPolicyReport {
+  provider: ProviderName;
+  policy: ProviderRiskPolicy;
+  /** Values set by config.json, e.g. `attemptsLimit` or `cooldownByOutcomeMs.http_429`. */
+  configured: string[];
+}
+
+/** Thrown by runChat when the risk guard denies a request before the browser is opened. */
+export class RiskGuardError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly waitMs?: number,
+  ) {
+    super(message);
+    this.name = 'RiskGuardError';
+  }
 }
 
 const DEFAULT_POLICY: ProviderRiskPolicy = {
@@ -109,8 +168,140 @@ const POLICY_BY_PROVIDER: Partial<Record<ProviderName, Partial<ProviderRiskPolic
   },
 };
 
-function getPolicy(provider: ProviderName): ProviderRiskPolicy {
-  return { ...DEFAULT_POLICY, ...POLICY_BY_PROVIDER[provider] };
+const RISK_LOCK_TIMEOUT_MS = 15_000;
+const RISK_LOCK_POLL_MS = 25;
+/** Requests in this process take their provider's slots one at a time. */
+const slotQueue = createKeyedQueue();
+
+/** Limits that are counts rather than durations. */
+const COUNT_KEYS: Array<keyof ProviderRiskPolicy> = [
+  'attemptsLimit',
+  'headlessAttemptsLimit',
+  'samePromptLimit',
+  'breakerConsecutiveRiskThreshold',
+];
+const OUTCOME_KINDS: RiskOutcomeKind[] = [
+  'success',
+  'paused_generation',
+  'captcha_or_verification',
+  'http_429',
+  'auth_required',
+  'timeout',
+  'other_error',
+];
+/** Attempts are kept at least this long, so tightening a window after loosening it still counts them. */
+const ATTEMPT_HISTORY_MS = 24 * 60 * 60_000;
+
+/** The built-in policy for a provider with the config's overrides applied, read afresh on every call. */
+async function loadPolicy(provider: ProviderName): Promise<ProviderRiskPolicy> {
+  return resolvePolicy(provider, (await loadConfig()).riskPolicy);
+}
+
+function resolvePolicy(
+  provider: ProviderName,
+  config: RiskPolicyConfig | undefined,
+): ProviderRiskPolicy {
+  const overrides = validateRiskPolicyConfig(config);
+  const layers = [overrides.default, POLICY_BY_PROVIDER[provider], overrides.providers?.[provider]];
+  let policy = DEFAULT_POLICY;
+  for (const layer of layers) {
+    policy = {
+      ...policy,
+      ...layer,
+      cooldownByOutcomeMs: { ...policy.cooldownByOutcomeMs, ...layer?.cooldownByOutcomeMs },
+    };
+  }
+  return policy;
+}
+
+/** The effective policy for each provider, noting which values come from config.json. */
+export async function getRiskPolicies(providers: ProviderName[]): Promise<RiskPolicyReport[]> {
+  const { riskPolicy } = await loadConfig();
+  const overrides = validateRiskPolicyConfig(riskPolicy);
+  return providers.map((provider) => {
+    // A built-in provider limit still beats the config's `default`
+    const builtIn = policyKeys(POLICY_BY_PROVIDER[provider]);
+    const configured = new Set([
+      ...policyKeys(overrides.default).filter((key) => !builtIn.includes(key)),
+      ...policyKeys(overrides.providers?.[provider]),
+    ]);
+    return { provider, policy: resolvePolicy(provider, riskPolicy), configured: [...configured] };
+  });
+}
+
+/** Keys a policy layer sets, with outcome cooldowns as `cooldownByOutcomeMs.<kind>`. */
+function policyKeys(layer: RiskPolicyOverride | undefined): string[] {
+  return Object.entries(layer ?? {}).flatMap(([key, value]) =>
+    key === 'cooldownByOutcomeMs' ? Object.keys(value).map((kind) => `${key}.${kind}`) : [key],
+  );
+}
+
+/** Check the `riskPolicy` section of config.json, naming the first offending key. */
+export function validateRiskPolicyConfig(value: unknown): RiskPolicyConfig {
+  if (value === undefined) return {};
+  const section = expectObject(value, 'riskPolicy');
+  for (const [key, entry] of Object.entries(section)) {
+    if (key === 'default') {
+      validateOverride(entry, 'riskPolicy.default');
+    } else if (key === 'providers') {
+      for (const [provider, override] of Object.entries(
+        expectObject(entry, 'riskPolicy.providers'),
+      )) {
+        if (!isValidProvider(provider)) {
+          throw new Error(
+            `Invalid risk policy in config.json: unknown provider riskPolicy.providers.${provider}`,
+          );
+        }
+        validateOverride(override, `riskPolicy.providers.${provider}`);
+      }
+    } else if (key === 'profiles') {
+      throw new Error(
+        'Invalid risk policy in config.json: riskPolicy.profiles is not supported; each account profile has its own app home (DOUZHI_CHAT_HOME) and sets its limits in that config.json',
+      );
+    } else {
+      throw new Error(`Invalid risk policy in config.json: unknown key riskPolicy.${key}`);
+    }
+  }
+  return section as RiskPolicyConfig;
+}
+
+function validateOverride(value: unknown, at: string): void {
+  const override = expectObject(value, at);
+  for (const [key, entry] of Object.entries(override)) {
+    if (key === 'cooldownByOutcomeMs') {
+      for (const [kind, ms] of Object.entries(expectObject(entry, `${at}.${key}`))) {
+        if (!OUTCOME_KINDS.includes(kind as RiskOutcomeKind)) {
+          throw new Error(
+            `Invalid risk policy in config.json: unknown outcome ${at}.${key}.${kind} (use ${OUTCOME_KINDS.join(', ')})`,
+          );
+        }
+        expectDuration(ms, `${at}.${key}.${kind}`);
+      }
+    } else if (COUNT_KEYS.includes(key as keyof ProviderRiskPolicy)) {
+      if (!Number.isInteger(entry) || (entry as number) < 1) {
+        throw new Error(
+          `Invalid risk policy in config.json: ${at}.${key} must be a positive integer`,
+        );
+      }
+    } else if (key in DEFAULT_POLICY) {
+      expectDuration(entry, `${at}.${key}`);
+    } else {
+      throw new Error(`Invalid risk policy in config.json: unknown key ${at}.${key}`);
+    }
+  }
+}
+
+function expectObject(value: unknown, at: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid risk policy in config.json: ${at} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectDuration(value: unknown, at: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid risk policy in config.json: ${at} must be a duration in milliseconds`);
+  }
 }
 
 function isoNow(nowMs: number): string {
@@ -144,9 +335,21 @@ function defaultProviderState(): ProviderRiskState {
   };
 }
 
-async function loadRiskState(): Promise<RiskStateFile> {
+/**
+ * Read the state file. An unreadable one is treated as empty; with
+ * `quarantine`, it is also moved aside so its history can be recovered by hand.
+ */
+async function loadRiskState(opts: { quarantine?: boolean } = {}): Promise<RiskStateFile> {
+  const statePath = getRiskStatePath();
+  let raw: string;
+  try {
+    raw = await readFile(statePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, providers: {} };
+    throw error;
+  }
+
   try {
-    const raw = await readFile(getRiskStatePath(), 'utf-8');
     const parsed = JSON.parse(raw) as Partial<RiskStateFile>;
     if (
       parsed &&
@@ -163,12 +366,60 @@ async function loadRiskState(): Promise<RiskStateFile> {
     // fall through
   }
 
+  if (opts.quarantine) {
+    const backup = statePath.replace(/\.json$/, `.corrupt-${Date.now()}.json`);
+    await rename(statePath, backup);
+    console.warn(
+      chalk.yellow(`⚠ Risk state was unreadable; moved it to ${backup} and started afresh`),
+    );
+  }
   return { version: 1, providers: {} };
 }
 
 async function saveRiskState(state: RiskStateFile): Promise<void> {
   await mkdir(getRiskDir(), { recursive: true });
-  await writeFile(getRiskStatePath(), JSON.stringify(state, null, 2), 'utf-8');
+  // Write then rename, so a crash mid-write never leaves a truncated file behind
+  const statePath = getRiskStatePath();
+  const temporary = `${statePath}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(state, null, 2), 'utf-8');
+  await rename(temporary, statePath);
+}
+
+/**
+ * Read-modify-write the state file under a lock shared by every douzhi-chat
+ * process, so concurrent runs never overwrite each other's attempts.
+ */
+async function updateRiskState<T>(update: (state: RiskStateFile, nowMs: number) => T): Promise<T> {
+  const lock = await acquireFileLock(getRiskLockPath(), {
+    timeoutMs: RISK_LOCK_TIMEOUT_MS,
+    pollMs: RISK_LOCK_POLL_MS,
+    busyMessage: (timeoutMs) =>
+      `Risk state is locked by another douzhi-chat process (waited ${timeoutMs}ms). ` +
+      `If none is running, delete ${getRiskLockPath()}.`,
+  });
+  try {
+    const state = await loadRiskState({ quarantine: true });
+    const result = update(state, Date.now());
+    await saveRiskState(state);
+    return result;
+  } finally {
+    await lock.release();
+  }
+}
+
+/** `updateRiskState` for one provider, with its expired entries pruned first. */
+function updateProviderState<T>(
+  provider: ProviderName,
+  policy: ProviderRiskPolicy,
+  update: (providerState: ProviderRiskState, nowMs: number) => T,
+): Promise<T> {
+  return updateRiskState((state, nowMs) => {
+    const providerState = state.providers[provider] ?? defaultProviderState();
+    pruneState(providerState, nowMs, policy);
+    const result = update(providerState, nowMs);
+    state.providers[provider] = providerState;
+    return result;
+  });
 }
 
 function pruneState(
@@ -177,6 +428,7 @@ function pruneState(
   policy: ProviderRiskPolicy,
 ): void {
   const attemptsRetentionMs = Math.max(
+    ATTEMPT_HISTORY_MS,
     policy.attemptsWindowMs,
     policy.headlessAttemptsWindowMs,
     policy.samePromptWindowMs,
@@ -191,6 +443,25 @@ function pruneState(
   );
 }
 
+function attemptsInWindow(
+  providerState: ProviderRiskState,
+  windowMs: number,
+  nowMs: number,
+  matches: (attempt: AttemptEntry) => boolean = () => true,
+): number {
+  return providerState.attempts.filter(
+    (attempt) => matches(attempt) && parseIsoOrZero(attempt.at) >= nowMs - windowMs,
+  ).length;
+}
+
+function minIntervalFor(policy: ProviderRiskPolicy, mode: ChatRunMode): number {
+  return mode === 'headless' ? policy.minIntervalMsHeadless : policy.minIntervalMsHeaded;
+}
+
+function remainingMs(untilIso: string | undefined, nowMs: number): number {
+  return Math.max(0, parseIsoOrZero(untilIso) - nowMs);
+}
+
 function enforceRateLimits(
   provider: ProviderName,
   providerState: ProviderRiskState,
@@ -203,6 +474,7 @@ function enforceRateLimits(
   if (breakerUntilMs > nowMs) {
     return {
       allowed: false,
+      rule: 'breaker',
       waitMs: breakerUntilMs - nowMs,
       message: `${provider} risk breaker is active. Retry later.`,
     };
@@ -212,59 +484,62 @@ function enforceRateLimits(
   if (cooldownUntilMs > nowMs) {
     return {
       allowed: false,
+      rule: 'cooldown',
       waitMs: cooldownUntilMs - nowMs,
       message: `${provider} is cooling down to avoid risk control.`,
     };
   }
 
   const lastAttemptMs = parseIsoOrZero(providerState.lastAttemptAt);
-  const minIntervalMs =
-    mode === 'headless' ? policy.minIntervalMsHeadless : policy.minIntervalMsHeaded;
+  const minIntervalMs = minIntervalFor(policy, mode);
   if (lastAttemptMs > 0 && nowMs - lastAttemptMs < minIntervalMs) {
     return {
       allowed: false,
+      rule: 'min_interval',
       waitMs: minIntervalMs - (nowMs - lastAttemptMs),
       message: `${provider} minimum interval not reached (${mode}).`,
     };
   }
 
-  const attemptsInWindow = providerState.attempts.filter(
-    (attempt) => parseIsoOrZero(attempt.at) >= nowMs - policy.attemptsWindowMs,
-  );
-  if (attemptsInWindow.length >= policy.attemptsLimit) {
+  if (attemptsInWindow(providerState, policy.attemptsWindowMs, nowMs) >= policy.attemptsLimit) {
     providerState.cooldownUntil = isoNow(nowMs + policy.cooldownOnRateLimitMs);
     return {
       allowed: false,
+      rule: 'attempts',
       waitMs: policy.cooldownOnRateLimitMs,
       message: `${provider} request rate is too high in recent window.`,
     };
   }
 
   if (mode === 'headless') {
-    const headlessAttempts = providerState.attempts.filter(
-      (attempt) =>
-        attempt.mode === 'headless' &&
-        parseIsoOrZero(attempt.at) >= nowMs - policy.headlessAttemptsWindowMs,
+    const headlessAttempts = attemptsInWindow(
+      providerState,
+      policy.headlessAttemptsWindowMs,
+      nowMs,
+      (attempt) => attempt.mode === 'headless',
     );
-    if (headlessAttempts.length >= policy.headlessAttemptsLimit) {
+    if (headlessAttempts >= policy.headlessAttemptsLimit) {
       providerState.cooldownUntil = isoNow(nowMs + policy.cooldownOnRateLimitMs);
       return {
         allowed: false,
+        rule: 'headless_attempts',
         waitMs: policy.cooldownOnRateLimitMs,
         message: `${provider} headless request rate is too high.`,
       };
     }
   }
 
-  const samePromptAttempts = providerState.attempts.filter(
-    (attempt) =>
-      attempt.promptHash === promptHash &&
-      parseIsoOrZero(attempt.at) >= nowMs - policy.samePromptWindowMs,
+  const samePromptAttempts = attemptsInWindow(
+    providerState,
+    policy.samePromptWindowMs,
+    nowMs,
+    (attempt) => attempt.promptHash === promptHash,
   );
-  if (samePromptAttempts.length >= policy.samePromptLimit) {
+  if (samePromptAttempts >= policy.samePromptLimit) {
     providerState.cooldownUntil = isoNow(nowMs + policy.cooldownOnRateLimitMs);
     return {
       allowed: false,
+      rule: 'same_prompt',
       waitMs: policy.cooldownOnRateLimitMs,
       message: `${provider} repeated prompt pattern detected.`,
     };
@@ -279,24 +554,10 @@ export async function evaluateRiskGuard(params: {
   prompt: string;
 }): Promise<GuardDecision> {
   const { provider, mode, prompt } = params;
-  const nowMs = Date.now();
-  const policy = getPolicy(provider);
-  const state = await loadRiskState();
-  const providerState = state.providers[provider] ?? defaultProviderState();
-  pruneState(providerState, nowMs, policy);
-
-  const decision = enforceRateLimits(
-    provider,
-    providerState,
-    policy,
-    nowMs,
-    mode,
-    hashPrompt(prompt),
+  const policy = await loadPolicy(provider);
+  return updateProviderState(provider, policy, (providerState, nowMs) =>
+    enforceRateLimits(provider, providerState, policy, nowMs, mode, hashPrompt(prompt)),
   );
-
-  state.providers[provider] = providerState;
-  await saveRiskState(state);
-  return decision;
 }
 
 export async function recordRiskAttemptStart(params: {
@@ -305,21 +566,75 @@ export async function recordRiskAttemptStart(params: {
   prompt: string;
 }): Promise<void> {
   const { provider, mode, prompt } = params;
-  const nowMs = Date.now();
-  const policy = getPolicy(provider);
-  const state = await loadRiskState();
-  const providerState = state.providers[provider] ?? defaultProviderState();
-  pruneState(providerState, nowMs, policy);
+  await updateProviderState(provider, await loadPolicy(provider), (providerState, nowMs) =>
+    recordAttempt(providerState, nowMs, mode, prompt),
+  );
+}
 
+function recordAttempt(
+  providerState: ProviderRiskState,
+  nowMs: number,
+  mode: ChatRunMode,
+  prompt: string,
+): void {
   providerState.lastAttemptAt = isoNow(nowMs);
   providerState.attempts.push({
     at: isoNow(nowMs),
     mode,
     promptHash: hashPrompt(prompt),
   });
+}
 
-  state.providers[provider] = providerState;
-  await saveRiskState(state);
+export interface RiskSlotRequest {
+  provider: ProviderName;
+  mode: ChatRunMode;
+  prompt: string;
+  /** Wait up to this long for a denied request to be allowed; by default a denial is final. */
+  maxWaitMs?: number;
+  /** Sleep through a denial; defaults to a plain timer. */
+  wait?: (decision: GuardDecision & { waitMs: number }) => Promise<void>;
+}
+
+/**
+ * Check the risk guard and record the attempt in one step, so requests to the
+ * same provider queue up instead of all passing the check before any is
+ * recorded. With `maxWaitMs`, a denial is slept through and checked again,
+ * which spaces queued requests by the provider's minimum interval.
+ */
+export function acquireRiskSlot(request: RiskSlotRequest): Promise<GuardDecision> {
+  const {
+    provider,
+    mode,
+    prompt,
+    maxWaitMs = 0,
+    wait = (denial) => sleep(denial.waitMs),
+  } = request;
+  return slotQueue.run(provider, async () => {
+    const deadline = Date.now() + maxWaitMs;
+    for (;;) {
+      const policy = await loadPolicy(provider);
+      // Checked and recorded under one lock, so another process can't take the slot in between
+      const decision = await updateProviderState(provider, policy, (providerState, nowMs) => {
+        const verdict = enforceRateLimits(
+          provider,
+          providerState,
+          policy,
+          nowMs,
+          mode,
+          hashPrompt(prompt),
+        );
+        if (verdict.allowed) recordAttempt(providerState, nowMs, mode, prompt);
+        return verdict;
+      });
+      if (decision.allowed) return decision;
+      // Sending the same prompt again later is the pattern the rule is there to stop
+      const { waitMs } = decision;
+      if (!waitMs || decision.rule === 'same_prompt' || Date.now() + waitMs > deadline) {
+        return decision;
+      }
+      await wait({ ...decision, waitMs });
+    }
+  });
 }
 
 export async function recordRiskOutcome(params: {
@@ -328,47 +643,160 @@ export async function recordRiskOutcome(params: {
   message?: string;
 }): Promise<void> {
   const { provider, kind, message = '' } = params;
-  const nowMs = Date.now();
-  const policy = getPolicy(provider);
-  const state = await loadRiskState();
-  const providerState = state.providers[provider] ?? defaultProviderState();
-  pruneState(providerState, nowMs, policy);
+  const policy = await loadPolicy(provider);
+  await updateProviderState(provider, policy, (providerState, nowMs) => {
+    if (kind === 'success') {
+      providerState.consecutiveRiskEvents = 0;
+      return;
+    }
 
-  if (kind === 'success') {
-    providerState.consecutiveRiskEvents = 0;
-    state.providers[provider] = providerState;
-    await saveRiskState(state);
-    return;
-  }
+    providerState.riskEvents.push({
+      at: isoNow(nowMs),
+      kind,
+      message: message.slice(0, 500),
+    });
+
+    if (isRiskOutcome(kind)) {
+      providerState.consecutiveRiskEvents += 1;
+      const cooldownMs = policy.cooldownByOutcomeMs[kind] ?? policy.cooldownOnRateLimitMs;
+      const candidateCooldownUntilMs = nowMs + cooldownMs;
+      const currentCooldownUntilMs = parseIsoOrZero(providerState.cooldownUntil);
+      if (candidateCooldownUntilMs > currentCooldownUntilMs) {
+        providerState.cooldownUntil = isoNow(candidateCooldownUntilMs);
+      }
+    } else {
+      providerState.consecutiveRiskEvents = 0;
+    }
 
-  providerState.riskEvents.push({
-    at: isoNow(nowMs),
-    kind,
-    message: message.slice(0, 500),
+    if (providerState.consecutiveRiskEvents >= policy.breakerConsecutiveRiskThreshold) {
+      const candidateBreakerUntilMs = nowMs + policy.breakerDurationMs;
+      const currentBreakerUntilMs = parseIsoOrZero(providerState.breakerUntil);
+      if (candidateBreakerUntilMs > currentBreakerUntilMs) {
+        providerState.breakerUntil = isoNow(candidateBreakerUntilMs);
+      }
+    }
   });
+}
 
-  if (isRiskOutcome(kind)) {
-    providerState.consecutiveRiskEvents += 1;
-    const cooldownMs = policy.cooldownByOutcomeMs[kind] ?? policy.cooldownOnRateLimitMs;
-    const candidateCooldownUntilMs = nowMs + cooldownMs;
-    const currentCooldownUntilMs = parseIsoOrZero(providerState.cooldownUntil);
-    if (candidateCooldownUntilMs > currentCooldownUntilMs) {
-      providerState.cooldownUntil = isoNow(candidateCooldownUntilMs);
-    }
-  } else {
-    providerState.consecutiveRiskEvents = 0;
-  }
+/** Cooldown, breaker and window usage for one provider, or every provider with recorded state. */
+export async function getRiskStatus(provider?: ProviderName): Promise<ProviderRiskStatus[]> {
+  const nowMs = Date.now();
+  const state = await loadRiskState();
+  const { riskPolicy } = await loadConfig();
+  const providers = provider ? [provider] : (Object.keys(state.providers).sort() as ProviderName[]);
+  return providers.map((name) =>
+    describeProviderState(
+      name,
+      state.providers[name] ?? defaultProviderState(),
+      resolvePolicy(name, riskPolicy),
+      nowMs,
+    ),
+  );
+}
 
-  if (providerState.consecutiveRiskEvents >= policy.breakerConsecutiveRiskThreshold) {
-    const candidateBreakerUntilMs = nowMs + policy.breakerDurationMs;
-    const currentBreakerUntilMs = parseIsoOrZero(providerState.breakerUntil);
-    if (candidateBreakerUntilMs > currentBreakerUntilMs) {
-      providerState.breakerUntil = isoNow(candidateBreakerUntilMs);
-    }
-  }
+function describeProviderState(
+  provider: ProviderName,
+  providerState: ProviderRiskState,
+  policy: ProviderRiskPolicy,
+  nowMs: number,
+): ProviderRiskStatus {
+  pruneState(providerState, nowMs, policy);
+  const sinceLastMs = nowMs - parseIsoOrZero(providerState.lastAttemptAt);
+  const nextAttemptMs = (mode: ChatRunMode) =>
+    providerState.lastAttemptAt ? Math.max(0, minIntervalFor(policy, mode) - sinceLastMs) : 0;
+
+  return {
+    provider,
+    policy,
+    lastAttemptAt: providerState.lastAttemptAt,
+    cooldownMs: remainingMs(providerState.cooldownUntil, nowMs),
+    breakerMs: remainingMs(providerState.breakerUntil, nowMs),
+    consecutiveRiskEvents: providerState.consecutiveRiskEvents,
+    attempts: {
+      used: attemptsInWindow(providerState, policy.attemptsWindowMs, nowMs),
+      limit: policy.attemptsLimit,
+      windowMs: policy.attemptsWindowMs,
+    },
+    headlessAttempts: {
+      used: attemptsInWindow(
+        providerState,
+        policy.headlessAttemptsWindowMs,
+        nowMs,
+        (attempt) => attempt.mode === 'headless',
+      ),
+      limit: policy.headlessAttemptsLimit,
+      windowMs: policy.headlessAttemptsWindowMs,
+    },
+    nextAttemptMs: { headed: nextAttemptMs('headed'), headless: nextAttemptMs('headless') },
+    riskEvents: [...providerState.riskEvents].reverse(),
+  };
+}
 
-  state.providers[provider] = providerState;
-  await saveRiskState(state);
+/**
+ * Dry-run the risk guard for a prompt: report every rule's standing and the
+ * decision a real request would get, without recording anything.
+ */
+export async function explainRiskGuard(params: {
+  provider: ProviderName;
+  mode: ChatRunMode;
+  prompt: string;
+}): Promise<RiskExplanation> {
+  const { provider, mode, prompt } = params;
+  const nowMs = Date.now();
+  const state = await loadRiskState();
+  const providerState = state.providers[provider] ?? defaultProviderState();
+  const policy = await loadPolicy(provider);
+  const status = describeProviderState(provider, providerState, policy, nowMs);
+  const promptHash = hashPrompt(prompt);
+
+  const samePrompt: RiskUsage = {
+    used: attemptsInWindow(
+      providerState,
+      policy.samePromptWindowMs,
+      nowMs,
+      (attempt) => attempt.promptHash === promptHash,
+    ),
+    limit: policy.samePromptLimit,
+    windowMs: policy.samePromptWindowMs,
+  };
+  const rateLimit = (rule: RiskRule, usage: RiskUsage): RiskCheck => {
+    const passed = usage.used < usage.limit;
+    return { rule, passed, waitMs: passed ? undefined : policy.cooldownOnRateLimitMs, usage };
+  };
+  const checks: RiskCheck[] = [
+    {
+      rule: 'breaker',
+      passed: status.breakerMs === 0,
+      waitMs: status.breakerMs || undefined,
+      usage: {
+        used: status.consecutiveRiskEvents,
+        limit: policy.breakerConsecutiveRiskThreshold,
+        windowMs: policy.breakerDurationMs,
+      },
+    },
+    { rule: 'cooldown', passed: status.cooldownMs === 0, waitMs: status.cooldownMs || undefined },
+    {
+      rule: 'min_interval',
+      passed: status.nextAttemptMs[mode] === 0,
+      waitMs: status.nextAttemptMs[mode] || undefined,
+    },
+    rateLimit('attempts', status.attempts),
+    ...(mode === 'headless' ? [rateLimit('headless_attempts', status.headlessAttempts)] : []),
+    rateLimit('same_prompt', samePrompt),
+  ];
+
+  // enforceRateLimits starts a cooldown when a window trips; the state isn't saved here
+  const decision = enforceRateLimits(provider, providerState, policy, nowMs, mode, promptHash);
+  return { provider, mode, decision, checks };
+}
+
+/** Forget a provider's attempts, risk events, cooldown and breaker; false if it had none. */
+export async function resetRiskState(provider: ProviderName): Promise<boolean> {
+  return updateRiskState((state) => {
+    if (!state.providers[provider]) return false;
+    delete state.providers[provider];
+    return true;
+  });
 }
 
 export function detectRiskOutcomeFromError(error: unknown): RiskOutcomeKind {
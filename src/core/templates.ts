@@ -0,0 +1,149 @@
+import { access, readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getTemplatesDir } from '../paths.js';
+import { isValidProvider } from '../providers/index.js';
+import type { PromptTemplate, ProviderName } from '../types.js';
+
+/** Project templates live here, in the working directory or any parent. */
+const PROJECT_TEMPLATES_DIR = path.join('.douzhi', 'templates');
+const TEMPLATE_EXT = '.md';
+const TEMPLATE_VARIABLES = ['prompt', 'files', 'diff', 'selection', 'stdin'] as const;
+const LIST_SETTINGS = new Set(['files', 'attach']);
+const SETTINGS = new Set(['description', 'provider', 'model', 'files', 'attach']);
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateValues = Record<TemplateVariable, string>;
+
+/**
+ * Find a template by name: the nearest project `.douzhi/templates/<name>.md`
+ * first, then `~/.douzhi-chat/templates/<name>.md`.
+ */
+export async function loadTemplate(name: string, cwd = process.cwd()): Promise<PromptTemplate> {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid template name: ${name}`);
+  }
+  const dirs = await templateDirs(cwd);
+  for (const dir of dirs) {
+    const filePath = path.join(dir, `${name}${TEMPLATE_EXT}`);
+    const content = await readFile(filePath, 'utf-8').catch(() => null);
+    if (content !== null) return parseTemplate(name, filePath, content);
+  }
+  throw new Error(`Template not found: ${name} (looked in ${dirs.join(', ')})`);
+}
+
+/** Every available template; project templates shadow user ones of the same name. */
+export async function listTemplates(cwd = process.cwd()): Promise<PromptTemplate[]> {
+  const templates = new Map<string, PromptTemplate>();
+  for (const dir of await templateDirs(cwd)) {
+    const entries = await readdir(dir).catch(() => []);
+    for (const entry of entries.sort()) {
+      const name = entry.slice(0, -TEMPLATE_EXT.length);
+      if (!entry.endsWith(TEMPLATE_EXT) || templates.has(name)) continue;
+      const filePath = path.join(dir, entry);
+      templates.set(name, parseTemplate(name, filePath, await readFile(filePath, 'utf-8')));
+    }
+  }
+  return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function templateDirs(cwd: string): Promise<string[]> {
+  let dir = path.resolve(cwd);
+  while (true) {
+    const candidate = path.join(dir, PROJECT_TEMPLATES_DIR);
+    try {
+      await access(candidate);
+      return [candidate, getTemplatesDir()];
+    } catch {
+      const parent = path.dirname(dir);
+      if (parent === dir) return [getTemplatesDir()];
+      dir = parent;
+    }
+  }
+}
+
+/**
+ * Parse a template file: markdown, optionally preceded by front matter
+ * between `---` lines. Settings are `key: value` lines; `files` and `attach`
+ * take `[a, b]` or one `- item` line per entry.
+ */
+export function parseTemplate(name: string, filePath: string, content: string): PromptTemplate {
+  const template: PromptTemplate = { name, path: filePath, body: content };
+  const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!frontMatter) return template;
+
+  template.body = content.slice(frontMatter[0].length);
+  let listKey: 'files' | 'attach' | undefined;
+  for (const line of frontMatter[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      template[listKey] = [...(template[listKey] ?? []), unquote(item[1])];
+      continue;
+    }
+
+    const setting = line.match(/^(\w+)\s*:\s*(.*)$/);
+    if (!setting || !SETTINGS.has(setting[1])) {
+      throw new Error(`Invalid template setting in ${filePath}: ${line.trim()}`);
+    }
+    const [, key, value] = setting;
+    listKey = undefined;
+    if (LIST_SETTINGS.has(key)) {
+      const list = key as 'files' | 'attach';
+      if (value.startsWith('[')) {
+        template[list] = value
+          .replace(/^\[|\]$/g, '')
+          .split(',')
+          .map(unquote)
+          .filter(Boolean);
+      } else if (value) {
+        template[list] = [unquote(value)];
+      } else {
+        listKey = list;
+      }
+    } else if (key === 'provider') {
+      const provider = unquote(value);
+      if (!isValidProvider(provider)) {
+        throw new Error(`Unknown provider in template ${name}: ${provider}`);
+      }
+      template.provider = provider;
+    } else {
+      template[key as 'description' | 'model'] = unquote(value);
+    }
+  }
+  return template;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Substitute `{{variable}}` placeholders. Returns the text and the variables
+ * it referenced, so the caller can place the others itself.
+ */
+export function renderTemplate(
+  template: PromptTemplate,
+  values: TemplateValues,
+): { text: string; used: Set<TemplateVariable> } {
+  const used = new Set<TemplateVariable>();
+  const text = template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown variable {{${name}}} in template ${template.name} (available: ${TEMPLATE_VARIABLES.join(', ')})`,
+      );
+    }
+    used.add(name as TemplateVariable);
+    return values[name as TemplateVariable];
+  });
+  return { text, used };
+}
+
+/** A template's model applies only to the provider it was written for. */
+export function templateModel(
+  template: PromptTemplate | undefined,
+  providerName: ProviderName,
+): string | undefined {
+  if (!template?.model) return undefined;
+  return !template.provider || template.provider === providerName ? template.model : undefined;
+}
@@ -0,0 +1,140 @@
+import net from 'node:net';
+import { chromium } from 'playwright';
+import type { BrowserSession, LaunchOptions } from '../browser/index.js';
+import { getDaemonSocketPath } from '../paths.js';
+import {
+  createLineDecoder,
+  type DaemonLease,
+  type DaemonRequest,
+  type DaemonResponse,
+} from './protocol.js';
+
+export interface DaemonClient {
+  request: <T>(method: DaemonRequest['method'], params?: DaemonRequest['params']) => Promise<T>;
+  /**
+   * Drop-in replacement for `launchBrowser`: leases the daemon's context for
+   * the provider and attaches to it over CDP. Closing the session detaches and
+   * hands the context back; the daemon keeps Chromium and the profile lock.
+   */
+  launch: (opts: LaunchOptions) => Promise<BrowserSession>;
+  /** Disconnect; the daemon releases any lease still held by this client. */
+  close: () => void;
+}
+
+/**
+ * Connect to a running browser daemon. Resolves to null when none is
+ * listening, so callers can fall back to launching Chromium themselves.
+ */
+export async function connectDaemon(
+  socketPath = getDaemonSocketPath(),
+  timeoutMs = 1_000,
+): Promise<DaemonClient | null> {
+  const socket = await new Promise<net.Socket | null>((resolve) => {
+    const candidate = net.createConnection(socketPath);
+    const timer = setTimeout(() => {
+      candidate.destroy();
+      resolve(null);
+    }, timeoutMs);
+    candidate.once('connect', () => {
+      clearTimeout(timer);
+      resolve(candidate);
+    });
+    candidate.once('error', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+  if (!socket) return null;
+
+  let nextId = 1;
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  socket.on(
+    'data',
+    createLineDecoder((message) => {
+      const response = message as DaemonResponse;
+      const waiter = pending.get(response.id);
+      if (!waiter) return;
+      pending.delete(response.id);
+      if (response.error !== undefined) {
+        waiter.reject(new Error(response.error));
+      } else {
+        waiter.resolve(response.result);
+      }
+    }),
+  );
+  socket.on('error', () => {});
+  socket.on('close', () => {
+    for (const waiter of pending.values()) {
+      waiter.reject(new Error('Connection to the browser daemon was closed.'));
+    }
+    pending.clear();
+  });
+  // An idle client connection must not keep the CLI process alive
+  socket.unref();
+
+  const request = <T>(
+    method: DaemonRequest['method'],
+    params?: DaemonRequest['params'],
+  ): Promise<T> => {
+    if (socket.destroyed) {
+      return Promise.reject(new Error('Connection to the browser daemon was closed.'));
+    }
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      socket.ref();
+      socket.write(`${JSON.stringify({ id, method, params } satisfies DaemonRequest)}\n`);
+    }).finally(() => {
+      if (pending.size === 0) socket.unref();
+    });
+  };
+
+  const launch = async (opts: LaunchOptions): Promise<BrowserSession> => {
+    const { provider, headless = true, url } = opts;
+    const lease = await request<DaemonLease>('acquire', { provider, headless });
+    const release = () => request('release', { provider }).catch(() => {});
+
+    try {
+      const browser = await chromium.connectOverCDP(lease.cdpEndpoint);
+      const context = browser.contexts()[0];
+      if (!context) {
+        await browser.close();
+        throw new Error(`The daemon's ${provider} browser has no open context.`);
+      }
+      const page =
+        context.pages().find((candidate) => !candidate.isClosed()) ?? (await context.newPage());
+      if (url) {
+        await page.goto(url, { waitUntil: 'domcontentloaded' });
+      }
+
+      return {
+        context,
+        page,
+        // The daemon owns the lock; this process only borrows it for the lease.
+        lock: { lockPath: lease.lockPath, lockId: lease.lockId, release: async () => {} },
+        cdpEndpoint: lease.cdpEndpoint,
+        close: async () => {
+          try {
+            // Disconnects from a CDP-attached browser without closing it
+            await browser.close();
+          } finally {
+            await release();
+          }
+        },
+      };
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  };
+
+  return {
+    request,
+    launch,
+    close: () => socket.destroy(),
+  };
+}
@@ -0,0 +1,3 @@
+export { connectDaemon, type DaemonClient } from './client.js';
+export type { DaemonLease, DaemonStatus } from './protocol.js';
+export { type DaemonServer, type DaemonServerOptions, startDaemonServer } from './server.js';
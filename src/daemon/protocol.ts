@@ -0,0 +1,58 @@
+import type { PooledContextInfo } from '../browser/index.js';
+import type { ProviderName } from '../types.js';
+
+/**
+ * Wire format between CLI invocations and the browser daemon: one JSON
+ * object per line over the control socket, requests answered by `id`.
+ */
+
+export interface DaemonRequest {
+  id: number;
+  method: 'acquire' | 'release' | 'status' | 'stop';
+  params?: { provider?: ProviderName; headless?: boolean };
+}
+
+export interface DaemonResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/** Result of `acquire`: where to attach, and the lock the daemon holds for you. */
+export interface DaemonLease {
+  provider: ProviderName;
+  cdpEndpoint: string;
+  lockPath: string;
+  lockId: string;
+}
+
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+  idleTtlMs: number;
+  socketPath: string;
+  contexts: PooledContextInfo[];
+  /** Leases handed out or waiting, per provider. */
+  pending: Partial<Record<ProviderName, number>>;
+}
+
+/** Split a socket stream into JSON lines, calling `onMessage` per parsed line. */
+export function createLineDecoder(onMessage: (message: unknown) => void): (chunk: Buffer) => void {
+  let buffer = '';
+  return (chunk) => {
+    buffer += chunk.toString('utf-8');
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) {
+        try {
+          onMessage(JSON.parse(line));
+        } catch {
+          // Ignore malformed lines; the peer gets no answer for them
+        }
+      }
+      newline = buffer.indexOf('\n');
+    }
+  };
+}
@@ -0,0 +1,197 @@
+import { rm } from 'node:fs/promises';
+import net from 'node:net';
+import { type BrowserPool, createBrowserPool } from '../browser/index.js';
+import { createKeyedQueue } from '../core/queue.js';
+import { getDaemonSocketPath } from '../paths.js';
+import { isValidProvider, listProviders } from '../providers/index.js';
+import type { ProviderName } from '../types.js';
+import { connectDaemon } from './client.js';
+import {
+  createLineDecoder,
+  type DaemonLease,
+  type DaemonRequest,
+  type DaemonResponse,
+  type DaemonStatus,
+} from './protocol.js';
+
+export interface DaemonServerOptions {
+  /** Close provider contexts left unused for this long. */
+  idleTtlMs: number;
+  /** Defaults to `getDaemonSocketPath()`. */
+  socketPath?: string;
+  /** Overrides the browser pool (tests). Defaults to a CDP-enabled pool reaping after `idleTtlMs`. */
+  pool?: BrowserPool;
+}
+
+export interface DaemonServer {
+  socketPath: string;
+  /** Resolves once the daemon has shut down, whether via `close` or a `stop` request. */
+  closed: Promise<void>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Own one persistent context (and its profile lock) per provider and lend it
+ * to CLI processes over a local socket. A lease is exclusive per provider and
+ * ends on `release` or when the client's connection drops.
+ */
+export async function startDaemonServer(opts: DaemonServerOptions): Promise<DaemonServer> {
+  const socketPath = opts.socketPath ?? getDaemonSocketPath();
+  const existing = await connectDaemon(socketPath);
+  if (existing) {
+    existing.close();
+    throw new Error(`A browser daemon is already running on ${socketPath}.`);
+  }
+  if (process.platform !== 'win32') {
+    // Left behind by a daemon that didn't shut down cleanly
+    await rm(socketPath, { force: true });
+  }
+
+  const pool = opts.pool ?? createBrowserPool({ idleTtlMs: opts.idleTtlMs, remoteDebugging: true });
+  const queue = createKeyedQueue();
+  const connections = new Set<net.Socket>();
+  const startedAt = new Date().toISOString();
+
+  let resolveClosed: () => void = () => {};
+  const closed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const server = net.createServer((socket) => {
+    connections.add(socket);
+    const leases = new Map<ProviderName, () => void>();
+    let disconnected = false;
+
+    const reply = (response: DaemonResponse) => {
+      if (!socket.destroyed) socket.write(`${JSON.stringify(response)}\n`);
+    };
+
+    const acquire = async (request: DaemonRequest): Promise<void> => {
+      const provider = request.params?.provider;
+      if (!provider || !isValidProvider(provider)) {
+        reply({ id: request.id, error: `Unknown provider: ${provider}` });
+        return;
+      }
+      if (leases.has(provider)) {
+        reply({ id: request.id, error: `This client already holds the ${provider} browser.` });
+        return;
+      }
+
+      await queue.run(provider, async () => {
+        if (disconnected) return;
+        const session = await pool.launch({
+          provider,
+          headless: request.params?.headless ?? true,
+        });
+        const released = new Promise<void>((resolve) => {
+          leases.set(provider, resolve);
+        });
+
+        if (!session.cdpEndpoint) {
+          leases.delete(provider);
+          await session.close();
+          throw new Error(`Browser for ${provider} was launched without a CDP endpoint.`);
+        }
+        const lease: DaemonLease = {
+          provider,
+          cdpEndpoint: session.cdpEndpoint,
+          lockPath: session.lock.lockPath,
+          lockId: session.lock.lockId,
+        };
+        reply({ id: request.id, result: lease });
+        if (disconnected) leases.get(provider)?.();
+
+        await released;
+        leases.delete(provider);
+        await session.close();
+      });
+    };
+
+    const handle = (message: unknown) => {
+      const request = message as DaemonRequest;
+      switch (request.method) {
+        case 'acquire':
+          acquire(request).catch((error) => {
+            reply({
+              id: request.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+          return;
+        case 'release': {
+          const provider = request.params?.provider;
+          const release = provider ? leases.get(provider) : undefined;
+          release?.();
+          reply({ id: request.id, result: { released: release !== undefined } });
+          return;
+        }
+        case 'status':
+          reply({ id: request.id, result: status() });
+          return;
+        case 'stop':
+          reply({ id: request.id, result: { stopping: true } });
+          void close();
+          return;
+        default:
+          reply({ id: request.id, error: `Unknown method: ${String(request.method)}` });
+      }
+    };
+
+    socket.on('data', createLineDecoder(handle));
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      disconnected = true;
+      connections.delete(socket);
+      for (const release of leases.values()) release();
+    });
+  });
+
+  const status = (): DaemonStatus => {
+    const pending: DaemonStatus['pending'] = {};
+    for (const provider of listProviders()) {
+      const count = queue.pending(provider);
+      if (count > 0) pending[provider] = count;
+    }
+    return {
+      pid: process.pid,
+      startedAt,
+      idleTtlMs: opts.idleTtlMs,
+      socketPath,
+      contexts:
+        pool.describe?.() ??
+        pool.warmProviders().map((provider) => ({
+          provider,
+          headless: true,
+          inUse: queue.pending(provider) > 0,
+          idleMs: 0,
+        })),
+      pending,
+    };
+  };
+
+  let closing: Promise<void> | undefined;
+  const close = (): Promise<void> => {
+    closing ??= (async () => {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        for (const socket of connections) socket.destroy();
+      });
+      await pool.closeAll();
+      if (process.platform !== 'win32') {
+        await rm(socketPath, { force: true });
+      }
+      resolveClosed();
+    })();
+    return closing;
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return { socketPath, closed, close };
+}
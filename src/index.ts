@@ -1,11 +1,24 @@
 export { type BrowserSession, launchBrowser } from './browser/index.js';
 export { loadConfig, saveConfig } from './config.js';
-export { buildBundle, type ChatResult, runChat } from './core/index.js';
+export {
+  buildBundle,
+  type ChatResult,
+  type FanOutResult,
+  RiskGuardError,
+  runChat,
+  runChatFanOut,
+} from './core/index.js';
 export { getProvider, isValidProvider, listProviders } from './providers/index.js';
 export {
   createSession,
+  exportSessions,
   getSession,
+  importSessions,
   listSessions,
+  readBundle,
+  type SearchFilters,
+  type SearchHit,
+  searchSessions,
 } from './session/index.js';
 export type { ErrorEvent, ErrorModule, StoredErrorEvent } from './telemetry/errors.js';
 export { classifyErrorType, listErrorEvents, recordErrorEvent } from './telemetry/errors.js';
@@ -13,10 +26,25 @@ export type {
   AppConfig,
   CapturedResponse,
   ChatOptions,
+  Citation,
+  ContextBudget,
+  FallbackReason,
+  GitSelector,
+  OverflowStrategy,
+  PromptTemplate,
   Provider,
   ProviderActions,
   ProviderConfig,
   ProviderName,
+  ProviderRiskPolicy,
+  ResponseAsset,
+  RiskPolicyConfig,
+  RiskPolicyOverride,
+  SecretPattern,
   SessionMeta,
+  SessionRepository,
   SessionResult,
+  SessionTurn,
+  SessionTurnResult,
+  SkippedProvider,
 } from './types.js';
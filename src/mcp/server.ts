@@ -0,0 +1,186 @@
+import { createInterface } from 'node:readline';
+import { recordErrorEvent } from '../telemetry/errors.js';
+import type { McpTool } from './tools.js';
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+}
+
+export interface McpServer {
+  /**
+   * Handle one decoded JSON-RPC message; resolves to the reply, or null for
+   * notifications and for responses, which this server never asked for.
+   */
+  handleMessage: (message: unknown) => Promise<JsonRpcResponse | null>;
+}
+
+/**
+ * Minimal Model Context Protocol server: initialize, ping, tools/list and
+ * tools/call. Transport is left to the caller (see `serveMcpStdio`).
+ */
+export function createMcpServer(info: McpServerInfo, tools: McpTool[]): McpServer {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  const handleMessage = async (raw: unknown): Promise<JsonRpcResponse | null> => {
+    if (!isRecord(raw)) return invalidRequest(null);
+    // Without a method it's a response, and this server never sends requests
+    if (raw.method === undefined) return null;
+    if (!isJsonRpcRequest(raw)) {
+      // Notifications get no reply, not even an error
+      return raw.id === undefined ? null : invalidRequest(requestId(raw));
+    }
+    const message = raw;
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+
+    const reply = (result: unknown): JsonRpcResponse | null =>
+      isNotification ? null : { jsonrpc: '2.0', id, result };
+    const fail = (code: number, errorMessage: string): JsonRpcResponse | null =>
+      isNotification ? null : { jsonrpc: '2.0', id, error: { code, message: errorMessage } };
+
+    switch (message.method) {
+      case 'initialize': {
+        const requested = message.params?.protocolVersion;
+        const protocolVersion =
+          typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0];
+        return reply({
+          protocolVersion,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: info,
+        });
+      }
+
+      case 'ping':
+        return reply({});
+
+      case 'tools/list':
+        return reply({
+          tools: tools.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        });
+
+      case 'tools/call': {
+        const name = message.params?.name;
+        const tool = typeof name === 'string' ? byName.get(name) : undefined;
+        if (!tool) {
+          return fail(-32602, `Unknown tool: ${String(name)}`);
+        }
+
+        const args = (message.params?.arguments ?? {}) as Record<string, unknown>;
+        try {
+          const output = await tool.run(args);
+          const text = typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+          return reply({ content: [{ type: 'text', text }] });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await recordErrorEvent(
+            { module: 'cli', stage: `mcp_tool:${tool.name}`, message: errorMessage },
+            error,
+          );
+          // Tool failures are results the agent should see, not protocol errors.
+          return reply({ content: [{ type: 'text', text: errorMessage }], isError: true });
+        }
+      }
+
+      default:
+        if (message.method.startsWith('notifications/')) return null;
+        return fail(-32601, `Method not found: ${message.method}`);
+    }
+  };
+
+  return { handleMessage };
+}
+
+function invalidRequest(id: JsonRpcResponse['id']): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isJsonRpcRequest(
+  value: Record<string, unknown>,
+): value is Record<string, unknown> & JsonRpcRequest {
+  return (
+    typeof value.method === 'string' &&
+    (value.id === undefined || isRequestId(value.id)) &&
+    (value.params === undefined || isRecord(value.params))
+  );
+}
+
+function isRequestId(value: unknown): value is JsonRpcResponse['id'] {
+  return typeof value === 'string' || typeof value === 'number' || value === null;
+}
+
+/** The ID to answer a message with, or null when it has no usable one. */
+function requestId(message: unknown): JsonRpcResponse['id'] {
+  return isRecord(message) && isRequestId(message.id) ? message.id : null;
+}
+
+/**
+ * Serve MCP over stdio: one JSON-RPC message per line on stdin, replies on
+ * stdout. Anything else that wants to print must use stderr.
+ */
+export async function serveMcpStdio(server: McpServer): Promise<void> {
+  const write = (response: JsonRpcResponse) => {
+    process.stdout.write(`${JSON.stringify(response)}\n`);
+  };
+
+  const rl = createInterface({ input: process.stdin, terminal: false });
+  const inFlight = new Set<Promise<void>>();
+
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      continue;
+    }
+
+    // Calls run concurrently so a long chat doesn't block pings or list calls.
+    // A bug in one handler answers that request; it must not end the server.
+    const task = server
+      .handleMessage(message)
+      .then((response) => {
+        if (response) write(response);
+      })
+      .catch((error) => {
+        const reason = error instanceof Error ? error.message : String(error);
+        write({
+          jsonrpc: '2.0',
+          id: requestId(message),
+          error: { code: -32603, message: `Internal error: ${reason}` },
+        });
+      });
+    inFlight.add(task);
+    task.finally(() => inFlight.delete(task));
+  }
+
+  await Promise.allSettled([...inFlight]);
+}
@@ -0,0 +1,311 @@
+import { type BrowserPool, createBrowserPool } from '../browser/index.js';
+import { crawlSources, type SourceCrawlOptions } from '../core/index.js';
+import {
+  type ChatResult,
+  type ChatRuntime,
+  resolveChatProvider,
+  runChat,
+} from '../core/orchestrator.js';
+import { createKeyedQueue } from '../core/queue.js';
+import { NotebookLMClient } from '../notebooklm/client.js';
+import { getProvider, isValidProvider, listProviders } from '../providers/index.js';
+import { getSessionContents, listSessions } from '../session/index.js';
+import type { ChatOptions } from '../types.js';
+
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  run: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+export interface McpToolDeps {
+  runChat?: (options: ChatOptions, runtime: ChatRuntime) => Promise<ChatResult>;
+  pool?: BrowserPool;
+  withNotebookLM?: <T>(fn: (client: NotebookLMClient) => Promise<T>) => Promise<T>;
+}
+
+/**
+ * `ChatOptions` fields exposed by `ask_provider`. Keyed by `keyof ChatOptions`
+ * so renaming an option breaks the build here instead of silently drifting.
+ */
+type AskProviderField = Extract<
+  keyof ChatOptions,
+  'prompt' | 'provider' | 'model' | 'file' | 'attach' | 'headed' | 'timeoutMs' | 'continueSessionId'
+>;
+
+function askProviderSchema(): JsonSchema {
+  const providers = listProviders();
+  const modelHints = providers
+    .map((name) => {
+      const { models } = getProvider(name).config;
+      return models && models.length > 0 ? `${name}: ${models.join(', ')}` : null;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+  const properties: Record<AskProviderField, JsonSchema> = {
+    prompt: { type: 'string', description: 'The prompt to send' },
+    provider: {
+      type: 'string',
+      enum: providers,
+      description: 'Provider to use (defaults to the configured provider)',
+    },
+    model: {
+      type: 'string',
+      description: modelHints ? `Model to select. Known models — ${modelHints}` : 'Model to select',
+    },
+    file: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Files/globs to include as context in the prompt bundle',
+    },
+    attach: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Images/files to upload as attachments',
+    },
+    headed: { type: 'boolean', description: 'Show the browser window during the chat' },
+    timeoutMs: { type: 'integer', description: 'Response timeout in milliseconds' },
+    continueSessionId: {
+      type: 'string',
+      description: "Send a follow-up turn in an existing session's conversation",
+    },
+  };
+
+  return { type: 'object', properties, required: ['prompt'] };
+}
+
+function toChatOptions(args: Record<string, unknown>): ChatOptions {
+  if (typeof args.prompt !== 'string' || args.prompt.trim().length === 0) {
+    throw new Error("'prompt' is required.");
+  }
+  if (args.provider !== undefined && !isValidProvider(String(args.provider))) {
+    throw new Error(
+      `Unknown provider: ${String(args.provider)}. Available: ${listProviders().join(', ')}`,
+    );
+  }
+
+  return {
+    prompt: args.prompt,
+    provider: args.provider as ChatOptions['provider'],
+    model: optionalString(args.model),
+    file: optionalStringList(args.file, 'file'),
+    attach: optionalStringList(args.attach, 'attach'),
+    headed: args.headed === true,
+    timeoutMs: typeof args.timeoutMs === 'number' ? args.timeoutMs : undefined,
+    continueSessionId: optionalString(args.continueSessionId),
+  };
+}
+
+/** Build the tool set served by `douzhi-chat mcp`. */
+export function createMcpTools(deps: McpToolDeps = {}): McpTool[] {
+  const chat = deps.runChat ?? runChat;
+  const pool = deps.pool ?? createBrowserPool();
+  const queue = createKeyedQueue();
+  const withNotebookLM =
+    deps.withNotebookLM ??
+    (async <T>(fn: (client: NotebookLMClient) => Promise<T>): Promise<T> =>
+      (await NotebookLMClient.fromStorage()).withClient(fn));
+
+  const notebookId: JsonSchema = { type: 'string', description: 'NotebookLM notebook ID' };
+  const wait: JsonSchema = { type: 'boolean', description: 'Wait for the source to be processed' };
+
+  return [
+    {
+      name: 'ask_provider',
+      description:
+        'Send a prompt (optionally with files bundled as context) to a web AI provider through the logged-in browser and return its response. The session is saved and can be continued later.',
+      inputSchema: askProviderSchema(),
+      run: async (args) => {
+        const options = toChatOptions(args);
+        const provider = await resolveChatProvider(options);
+        // Stdout carries the protocol, so streamed chunks are dropped. No fallback:
+        // another provider's browser would be outside this provider's queue.
+        return queue.run(provider, () =>
+          chat(
+            { ...options, provider, fallback: [], onChunk: () => {} },
+            { launchBrowser: pool.launch },
+          ),
+        );
+      },
+    },
+    {
+      name: 'list_sessions',
+      description: 'List recent chat sessions.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          hours: {
+            type: 'number',
+            description: 'Only sessions from the last N hours (default 24)',
+          },
+        },
+      },
+      run: async (args) =>
+        listSessions({ hours: typeof args.hours === 'number' ? args.hours : 24 }),
+    },
+    {
+      name: 'get_session',
+      description: 'Get a session with the bundle and response of every turn.',
+      inputSchema: {
+        type: 'object',
+        properties: { sessionId: { type: 'string', description: 'Session ID' } },
+        required: ['sessionId'],
+      },
+      run: async (args) => getSessionContents(requireString(args.sessionId, 'sessionId')),
+    },
+    {
+      name: 'crawl_sources',
+      description: 'Fetch URLs and extract their readable article content.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          urls: { type: 'array', items: { type: 'string' }, description: 'URLs to crawl' },
+          concurrency: { type: 'integer', description: 'Parallel fetches (default 3)' },
+          timeoutMs: { type: 'integer', description: 'Per-URL timeout in milliseconds' },
+          maxChars: { type: 'integer', description: 'Max extracted characters per URL' },
+        } satisfies Record<'urls' | keyof SourceCrawlOptions, JsonSchema>,
+        required: ['urls'],
+      },
+      run: async (args) => {
+        const urls = optionalStringList(args.urls, 'urls') ?? [];
+        if (urls.length === 0) throw new Error("'urls' must contain at least one URL.");
+        return crawlSources(urls, {
+          concurrency: optionalNumber(args.concurrency),
+          timeoutMs: optionalNumber(args.timeoutMs),
+          maxChars: optionalNumber(args.maxChars),
+        });
+      },
+    },
+    {
+      name: 'notebooklm_list_notebooks',
+      description: 'List NotebookLM notebooks.',
+      inputSchema: { type: 'object', properties: {} },
+      run: async () => withNotebookLM((client) => client.notebooks.list()),
+    },
+    {
+      name: 'notebooklm_create_notebook',
+      description: 'Create a NotebookLM notebook.',
+      inputSchema: {
+        type: 'object',
+        properties: { title: { type: 'string', description: 'Notebook title' } },
+        required: ['title'],
+      },
+      run: async (args) =>
+        withNotebookLM((client) => client.notebooks.create(requireString(args.title, 'title'))),
+    },
+    {
+      name: 'notebooklm_list_sources',
+      description: 'List the sources in a NotebookLM notebook.',
+      inputSchema: { type: 'object', properties: { notebookId }, required: ['notebookId'] },
+      run: async (args) =>
+        withNotebookLM((client) =>
+          client.sources.list(requireString(args.notebookId, 'notebookId')),
+        ),
+    },
+    {
+      name: 'notebooklm_add_url',
+      description: 'Add a URL source to a NotebookLM notebook.',
+      inputSchema: {
+        type: 'object',
+        properties: { notebookId, url: { type: 'string', description: 'Source URL' }, wait },
+        required: ['notebookId', 'url'],
+      },
+      run: async (args) =>
+        withNotebookLM((client) =>
+          client.sources.addUrl(
+            requireString(args.notebookId, 'notebookId'),
+            requireString(args.url, 'url'),
+            args.wait === true,
+          ),
+        ),
+    },
+    {
+      name: 'notebooklm_add_file',
+      description: 'Upload a local file (PDF, DOCX, TXT, ...) as a NotebookLM source.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          notebookId,
+          filePath: { type: 'string', description: 'Path of the file to upload' },
+          wait,
+        },
+        required: ['notebookId', 'filePath'],
+      },
+      run: async (args) =>
+        withNotebookLM((client) =>
+          client.sources.addFile(
+            requireString(args.notebookId, 'notebookId'),
+            requireString(args.filePath, 'filePath'),
+            undefined,
+            args.wait === true,
+          ),
+        ),
+    },
+    {
+      name: 'notebooklm_add_text',
+      description: 'Add pasted text as a NotebookLM source.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          notebookId,
+          title: { type: 'string', description: 'Source title' },
+          content: { type: 'string', description: 'Source text' },
+          wait,
+        },
+        required: ['notebookId', 'title', 'content'],
+      },
+      run: async (args) =>
+        withNotebookLM((client) =>
+          client.sources.addText(
+            requireString(args.notebookId, 'notebookId'),
+            requireString(args.title, 'title'),
+            requireString(args.content, 'content'),
+            args.wait === true,
+          ),
+        ),
+    },
+    {
+      name: 'notebooklm_summarize',
+      description: 'Get the AI summary and suggested topics of a NotebookLM notebook.',
+      inputSchema: { type: 'object', properties: { notebookId }, required: ['notebookId'] },
+      run: async (args) =>
+        withNotebookLM((client) =>
+          client.notebooks.getDescription(requireString(args.notebookId, 'notebookId')),
+        ),
+    },
+  ];
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`'${field}' is required.`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`'${field}' must be an array of strings.`);
+  }
+  return value as string[];
+}
@@ -23,11 +23,36 @@ export function getSessionDir(sessionId: string): string {
   return path.join(getSessionsDir(), sessionId);
 }
 
+/** Turn directory within a session: ~/.douzhi-chat/sessions/<id>/turns/<nnn> */
+export function getSessionTurnDir(sessionId: string, turn: number): string {
+  return path.join(getSessionDir(sessionId), 'turns', String(turn).padStart(3, '0'));
+}
+
+/** Downloaded response assets: ~/.douzhi-chat/sessions/<id>/assets */
+export function getSessionAssetsDir(sessionId: string): string {
+  return path.join(getSessionDir(sessionId), 'assets');
+}
+
+/** Bundled file bodies shared between sessions, by content hash: ~/.douzhi-chat/blobs */
+export function getBlobsDir(): string {
+  return path.join(getAppDir(), 'blobs');
+}
+
+/** Full-text index over session bundles and responses: ~/.douzhi-chat/search-index.json */
+export function getSearchIndexPath(): string {
+  return path.join(getAppDir(), 'search-index.json');
+}
+
 /** Config file path: ~/.douzhi-chat/config.json */
 export function getConfigPath(): string {
   return path.join(getAppDir(), 'config.json');
 }
 
+/** User prompt templates: ~/.douzhi-chat/templates */
+export function getTemplatesDir(): string {
+  return path.join(getAppDir(), 'templates');
+}
+
 /** Error telemetry directory: ~/.douzhi-chat/errors */
 export function getErrorsDir(): string {
   return path.join(getAppDir(), 'errors');
@@ -47,3 +72,22 @@ export function getRiskDir(): string {
 export function getRiskStatePath(): string {
   return path.join(getRiskDir(), 'state.json');
 }
+
+/** Lock serializing risk state updates across processes: ~/.douzhi-chat/risk/state.lock */
+export function getRiskLockPath(): string {
+  return path.join(getRiskDir(), 'state.lock');
+}
+
+/** Browser daemon control socket: ~/.douzhi-chat/daemon.sock (a named pipe on Windows) */
+export function getDaemonSocketPath(): string {
+  if (process.platform === 'win32') {
+    const id = Buffer.from(getAppDir()).toString('hex').slice(-32);
+    return `\\\\.\\pipe\\douzhi-chat-daemon-${id}`;
+  }
+  return path.join(getAppDir(), 'daemon.sock');
+}
+
+/** Browser daemon log file: ~/.douzhi-chat/daemon.log */
+export function getDaemonLogPath(): string {
+  return path.join(getAppDir(), 'daemon.log');
+}
@@ -0,0 +1,81 @@
+import { JSDOM } from 'jsdom';
+import type { ResponseAsset } from '../types.js';
+
+/** Icons, avatars and favicons are rendered at or below this size. */
+const MIN_IMAGE_SIZE = 64;
+const FILE_EXTENSIONS =
+  /\.(?:csv|docx?|gif|jpe?g|json|md|mp3|mp4|pdf|png|pptx?|svg|tsv|txt|wav|webp|xlsx?|xml|zip)$/i;
+
+/**
+ * Generated images and downloadable files in an answer's HTML.
+ *
+ * Images count when they have a fetchable source and aren't icon-sized;
+ * links count when they carry a `download` attribute or point at a file
+ * extension. Relative URLs are resolved against the page URL.
+ */
+export function collectAnswerAssets(html: string, pageUrl: string): ResponseAsset[] {
+  if (!html.trim()) return [];
+
+  const { document } = new JSDOM(`<body>${html}</body>`).window;
+  const assets = new Map<string, ResponseAsset>();
+
+  for (const img of Array.from(document.querySelectorAll('img'))) {
+    if (img.closest('[aria-hidden="true"], button')) continue;
+    const url = resolveUrl(img.getAttribute('src'), pageUrl);
+    if (!url || !isFetchable(url) || /favicon|avatar/i.test(url)) continue;
+    if (isIconSized(img)) continue;
+
+    const alt = img.getAttribute('alt')?.trim() || undefined;
+    assets.set(url, { kind: 'image', url, alt, name: nameFromUrl(url) });
+  }
+
+  for (const link of Array.from(document.querySelectorAll('a[href]'))) {
+    const url = resolveUrl(link.getAttribute('href'), pageUrl);
+    if (!url || !isFetchable(url) || assets.has(url)) continue;
+
+    const download = link.getAttribute('download');
+    const pathname = url.startsWith('data:') ? '' : new URL(url).pathname;
+    if (download === null && !FILE_EXTENSIONS.test(pathname)) continue;
+
+    const text = link.textContent?.replace(/\s+/g, ' ').trim();
+    assets.set(url, {
+      kind: 'file',
+      url,
+      name: download || (text && FILE_EXTENSIONS.test(text) ? text : nameFromUrl(url)),
+    });
+  }
+
+  return [...assets.values()];
+}
+
+function resolveUrl(raw: string | null, base: string): string | undefined {
+  if (!raw) return undefined;
+  try {
+    return new URL(raw, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function isFetchable(url: string): boolean {
+  return /^(?:https?:|blob:|data:)/i.test(url);
+}
+
+function isIconSized(img: Element): boolean {
+  const width = Number.parseInt(img.getAttribute('width') ?? '', 10);
+  const height = Number.parseInt(img.getAttribute('height') ?? '', 10);
+  return (
+    (Number.isFinite(width) && width <= MIN_IMAGE_SIZE) ||
+    (Number.isFinite(height) && height <= MIN_IMAGE_SIZE)
+  );
+}
+
+function nameFromUrl(url: string): string | undefined {
+  if (!/^https?:/i.test(url)) return undefined;
+  const base = new URL(url).pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(base) || undefined;
+  } catch {
+    return base || undefined;
+  }
+}
@@ -1,5 +1,8 @@
 import type { Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { collectAnswerAssets } from './assets.js';
+import { matchModel, readPickerModel, selectFromPicker } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const CHATGPT_CONFIG: ProviderConfig = {
   name: 'chatgpt',
@@ -9,6 +12,8 @@ export const CHATGPT_CONFIG: ProviderConfig = {
   models: ['GPT-4o', 'GPT-4o mini', 'GPT-4.5', 'o1', 'o3-mini'],
   defaultModel: 'GPT-4o',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 100_000, unit: 'tokens' },
+  conversationUrlPattern: /^https:\/\/chatgpt\.com\/(?:g\/[^/]+\/)?c\/[\w-]+/,
 };
 
 const SELECTORS = {
@@ -20,6 +25,8 @@ const SELECTORS = {
   assistantTurn: '[data-message-author-role="assistant"]',
   loginPage: 'button:has-text("Log in"), button:has-text("Sign up")',
   /** Hidden file input — exclude the dedicated photo/camera inputs */
+  modelPicker:
+    '[data-testid="model-switcher-dropdown-button"], button[aria-label*="Model selector"]',
   fileInput: 'input[type="file"]:not(#upload-photos):not(#upload-camera)',
 } as const;
 
@@ -51,6 +58,16 @@ export const chatgptActions: ProviderActions = {
     await page.waitForTimeout(2000);
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    await selectFromPicker(page, CHATGPT_CONFIG, matchModel(CHATGPT_CONFIG, model), [
+      SELECTORS.modelPicker,
+    ]);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    return readPickerModel(page, CHATGPT_CONFIG, [SELECTORS.modelPicker]);
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await page.waitForSelector(SELECTORS.composer, { timeout: 15_000 });
     if (!composer) {
@@ -152,14 +169,14 @@ export const chatgptActions: ProviderActions = {
 
     // Extract the final HTML content
     const lastTurn = page.locator(SELECTORS.assistantTurn).last();
-    const markdown = (await lastTurn.innerHTML()) ?? '';
+    const html = (await lastTurn.innerHTML()) ?? '';
 
     const elapsed = Date.now() - startTime;
     const truncated = elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD;
 
     return {
-      text: lastText,
-      markdown,
+      ...renderCapturedAnswer({ text: lastText, html }),
+      assets: collectAnswerAssets(html, page.url()),
       truncated,
       thinkingTime: Math.round(elapsed / 1000),
     };
@@ -1,5 +1,7 @@
 import type { Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { matchModel, readPickerModel, selectFromPicker } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const CLAUDE_CONFIG: ProviderConfig = {
   name: 'claude',
@@ -9,6 +11,8 @@ export const CLAUDE_CONFIG: ProviderConfig = {
   models: ['Claude 4 Sonnet', 'Claude 4 Opus'],
   defaultModel: 'Claude 4 Sonnet',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 150_000, unit: 'tokens' },
+  conversationUrlPattern: /^https:\/\/claude\.ai\/chat\/[\w-]+/,
 };
 
 const SELECTORS = {
@@ -16,6 +20,7 @@ const SELECTORS = {
   sendButton:
     'button[aria-label="Send message"], button[aria-label="Send Message"], button[data-testid="send-message"]',
   responseTurn: '[data-is-streaming], .font-claude-message, [data-testid="assistant-message"]',
+  modelPicker: '[data-testid="model-selector-dropdown"], button[aria-label*="model" i]',
   fileInput: '[data-testid="file-upload"], #chat-input-file-upload-onpage',
 } as const;
 
@@ -36,6 +41,16 @@ export const claudeActions: ProviderActions = {
     await page.waitForTimeout(2000);
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    await selectFromPicker(page, CLAUDE_CONFIG, matchModel(CLAUDE_CONFIG, model), [
+      SELECTORS.modelPicker,
+    ]);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    return readPickerModel(page, CLAUDE_CONFIG, [SELECTORS.modelPicker]);
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await page.waitForSelector(SELECTORS.composer, { timeout: 15_000 });
     if (!composer) {
@@ -105,12 +120,11 @@ export const claudeActions: ProviderActions = {
     }
 
     const lastTurn = page.locator(SELECTORS.responseTurn).last();
-    const markdown = (await lastTurn.innerHTML()) ?? '';
+    const html = (await lastTurn.innerHTML()) ?? '';
 
     const elapsed = Date.now() - startTime;
     return {
-      text: lastText,
-      markdown,
+      ...renderCapturedAnswer({ text: lastText, html }),
       truncated: elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD,
       thinkingTime: Math.round(elapsed / 1000),
     };
@@ -1,5 +1,7 @@
 import type { Locator, Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { findToggleButton, isToggleSelected, matchModel, setToggleState } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const DEEPSEEK_CONFIG: ProviderConfig = {
   name: 'deepseek',
@@ -7,7 +9,12 @@ export const DEEPSEEK_CONFIG: ProviderConfig = {
   url: 'https://chat.deepseek.com/',
   loginUrl: 'https://chat.deepseek.com/',
   autoHeadedLoginFallback: true,
+  /** The model picker is the DeepThink toggle: on = R1, off = V3. */
+  models: ['DeepSeek-V3', 'DeepSeek-R1'],
+  defaultModel: 'DeepSeek-V3',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 60_000, unit: 'tokens' },
+  conversationUrlPattern: /^https:\/\/chat\.deepseek\.com\/a\/chat\/s\/[\w-]+/,
 };
 
 const COMPOSER_SELECTORS = [
@@ -45,9 +52,13 @@ const DEEPTHINK_NAME_PATTERNS = [/^DeepThink$/i, /^深度思考$/];
 const SEARCH_NAME_PATTERNS = [/^Search$/i, /^搜索$/, /^联网搜索$/];
 
 const lastSubmittedPrompt = new WeakMap<Page, string>();
+/** DeepThink state chosen by selectModel; submitPrompt re-applies it after search setup. */
+const deepThinkPreference = new WeakMap<Page, boolean>();
 
 interface DeepseekTurnSnapshot {
   answerText: string;
+  /** innerHTML of the answer's markdown container, for the markdown renderer. */
+  answerHtml: string;
   sourceCount: number;
   citationIds: string[];
   sourceLinks: Array<{
@@ -66,79 +77,6 @@ function deepseekTurnSignature(turn: DeepseekTurnSnapshot): string {
   );
 }
 
-function getDomain(url: string): string {
-  try {
-    return new URL(url).hostname.replace(/^www\./i, '');
-  } catch {
-    return url;
-  }
-}
-
-function formatStructuredResponse(turn: DeepseekTurnSnapshot): { text: string; markdown: string } {
-  const lines: string[] = [];
-  lines.push('## AI Answer');
-  lines.push(turn.answerText || '(empty)');
-  lines.push('');
-  lines.push('## AI Thinking');
-  lines.push('(not available)');
-  lines.push('');
-  lines.push('## Sources');
-
-  const dedupSources = new Map<
-    string,
-    {
-      href: string;
-      domain: string;
-      citations: Set<string>;
-    }
-  >();
-
-  for (const source of turn.sourceLinks) {
-    const key = source.href;
-    if (!dedupSources.has(key)) {
-      dedupSources.set(key, {
-        href: source.href,
-        domain: getDomain(source.href),
-        citations: new Set(),
-      });
-    }
-    if (source.citationId) {
-      dedupSources.get(key)?.citations.add(source.citationId);
-    }
-  }
-
-  const sources = Array.from(dedupSources.values());
-  const displayedSources = sources.slice(0, 20);
-  const totalSourceCount = turn.sourceCount > 0 ? turn.sourceCount : sources.length;
-
-  if (totalSourceCount > 0) {
-    lines.push(`Web pages referenced: ${totalSourceCount}`);
-    for (let i = 0; i < displayedSources.length; i++) {
-      const source = displayedSources[i];
-      const citationTag =
-        source.citations.size > 0
-          ? `[${Array.from(source.citations)
-              .sort((a, b) => Number(a) - Number(b))
-              .join(',')}] `
-          : '';
-      lines.push(`${i + 1}. ${citationTag}${source.domain}`);
-      lines.push(`   ${source.href}`);
-    }
-    if (sources.length > displayedSources.length) {
-      lines.push(`... and ${sources.length - displayedSources.length} more sources`);
-    }
-  } else {
-    lines.push('(none)');
-  }
-
-  if (turn.citationIds.length > 0) {
-    lines.push(`Inline citations: ${turn.citationIds.join(', ')}`);
-  }
-
-  const text = lines.join('\n').trim();
-  return { text, markdown: text };
-}
-
 async function findFirstVisible(
   page: Page,
   selectors: readonly string[],
@@ -174,58 +112,11 @@ function normalizeText(text: string): string {
     .trim();
 }
 
-async function findToggleButton(
-  page: Page,
-  patterns: RegExp[],
-  timeoutMs = 3_000,
-): Promise<Locator | null> {
-  const deadline = Date.now() + timeoutMs;
-  while (Date.now() < deadline) {
-    for (const pattern of patterns) {
-      const roleButton = page.getByRole('button', { name: pattern }).last();
-      if ((await roleButton.count()) > 0 && (await roleButton.isVisible().catch(() => false))) {
-        return roleButton;
-      }
-
-      const divButton = page.locator('div[role="button"]', { hasText: pattern }).last();
-      if ((await divButton.count()) > 0 && (await divButton.isVisible().catch(() => false))) {
-        return divButton;
-      }
-    }
-    await page.waitForTimeout(120);
-  }
-  return null;
-}
-
-async function isToggleSelected(toggle: Locator): Promise<boolean> {
-  try {
-    return await toggle.evaluate((el) => {
-      const className = (el as HTMLElement).className ?? '';
-      const ariaPressed = el.getAttribute('aria-pressed') ?? '';
-      const dataState = el.getAttribute('data-state') ?? '';
-      return /selected|active|checked|ds-toggle-button--selected/i.test(
-        `${className} ${ariaPressed} ${dataState}`,
-      );
-    });
-  } catch {
-    return false;
-  }
-}
-
-async function setToggleState(toggle: Locator, expectedOn: boolean): Promise<void> {
-  const isOn = await isToggleSelected(toggle);
-  if (isOn === expectedOn) return;
-
-  await toggle.click({ timeout: 3_000 }).catch(async () => {
-    await toggle.click({ timeout: 2_000, force: true }).catch(() => {});
-  });
-  await toggle.page().waitForTimeout(150);
-}
-
-async function ensureSearchEnabledDeepThinkDisabled(page: Page): Promise<void> {
+async function ensureSearchEnabled(page: Page): Promise<void> {
+  // DeepThink stays off unless selectModel asked for DeepSeek-R1.
   const deepThink = await findToggleButton(page, DEEPTHINK_NAME_PATTERNS, 5_000);
   if (deepThink) {
-    await setToggleState(deepThink, false);
+    await setToggleState(deepThink, deepThinkPreference.get(page) ?? false);
   }
 
   const search = await findToggleButton(page, SEARCH_NAME_PATTERNS, 5_000);
@@ -389,8 +280,15 @@ async function extractCurrentTurnSnapshot(
         .replace(/\n{3,}/g, '\n\n')
         .trim();
 
+      // The rendered answer lives in the last `.ds-markdown` outside the DeepThink panel
+      const markdownNodes = Array.from(document.querySelectorAll('.ds-markdown')).filter(
+        (node) => !node.parentElement?.closest('[class*="think"]'),
+      );
+      const answerHtml = markdownNodes[markdownNodes.length - 1]?.innerHTML ?? '';
+
       return {
         answerText: answer,
+        answerHtml,
         sourceCount: Number.isFinite(sourceCount) ? sourceCount : 0,
         citationIds: Array.from(citationIdSet).sort((a, b) => Number(a) - Number(b)),
         sourceLinks,
@@ -424,6 +322,23 @@ export const deepseekActions: ProviderActions = {
     }
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    const enabled = matchModel(DEEPSEEK_CONFIG, model) === 'DeepSeek-R1';
+    deepThinkPreference.set(page, enabled);
+
+    const deepThink = await findToggleButton(page, DEEPTHINK_NAME_PATTERNS, 8_000);
+    if (!deepThink) {
+      throw new Error('DeepSeek DeepThink toggle not found. The UI may have changed.');
+    }
+    await setToggleState(deepThink, enabled);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    const deepThink = await findToggleButton(page, DEEPTHINK_NAME_PATTERNS, 2_000);
+    if (!deepThink) return undefined;
+    return (await isToggleSelected(deepThink)) ? 'DeepSeek-R1' : 'DeepSeek-V3';
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await findFirstVisible(page, COMPOSER_SELECTORS, 15_000);
     if (!composer) {
@@ -433,7 +348,7 @@ export const deepseekActions: ProviderActions = {
     }
 
     await composer.click();
-    await ensureSearchEnabledDeepThinkDisabled(page);
+    await ensureSearchEnabled(page);
 
     const tagName = await composer.evaluate((el) => el.tagName.toLowerCase()).catch(() => 'div');
     if (tagName === 'textarea' || tagName === 'input') {
@@ -542,20 +457,20 @@ export const deepseekActions: ProviderActions = {
     const elapsed = Date.now() - startTime;
     lastSubmittedPrompt.delete(page);
 
-    const formatted = sawNewTurn
-      ? formatStructuredResponse({
-          ...lastSnapshot,
-          answerText: normalizeText(lastSnapshot.answerText),
+    const rendered = sawNewTurn
+      ? renderCapturedAnswer({
+          text: normalizeText(lastSnapshot.answerText),
+          html: lastSnapshot.answerHtml,
+          citations: lastSnapshot.sourceLinks.map((source) => ({
+            url: source.href,
+            index: source.citationId || undefined,
+          })),
+          sourceCount: lastSnapshot.sourceCount,
         })
-      : {
-          text: '## AI Answer\n(empty)\n\n## AI Thinking\n(not available)\n\n## Sources\n(none)',
-          markdown:
-            '## AI Answer\n(empty)\n\n## AI Thinking\n(not available)\n\n## Sources\n(none)',
-        };
+      : renderCapturedAnswer({ text: normalizeText(lastStreamedAnswer) });
 
     return {
-      text: formatted.text,
-      markdown: formatted.markdown,
+      ...rendered,
       truncated: elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD,
       thinkingTime: Math.round(elapsed / 1000),
     };
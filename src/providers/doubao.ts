@@ -1,5 +1,7 @@
 import type { Locator, Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { findToggleButton, isToggleSelected, matchModel, setToggleState } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const DOUBAO_CONFIG: ProviderConfig = {
   name: 'doubao',
@@ -7,7 +9,12 @@ export const DOUBAO_CONFIG: ProviderConfig = {
   url: 'https://www.doubao.com/chat/?from_login=1',
   loginUrl: 'https://www.doubao.com/chat/?from_login=1',
   autoHeadedLoginFallback: true,
+  /** The model picker is the deep-thinking toggle. */
+  models: ['Doubao', 'Doubao-DeepThink'],
+  defaultModel: 'Doubao',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 100_000, unit: 'chars' },
+  conversationUrlPattern: /^https:\/\/www\.doubao\.com\/chat\/\d+/,
 };
 
 const COMPOSER_SELECTORS = [
@@ -41,6 +48,8 @@ const LOGIN_INDICATOR_SELECTOR = [
   'text=受区域限制，请先登录再使用豆包',
 ].join(', ');
 
+const DEEPTHINK_NAME_PATTERNS = [/^深度思考$/, /^Deep ?Think(ing)?$/i];
+
 const lastSubmittedPrompt = new WeakMap<Page, string>();
 
 interface DoubaoSourceLink {
@@ -56,6 +65,8 @@ interface DoubaoSourceLink {
 
 interface DoubaoTurnSnapshot {
   answerText: string;
+  /** innerHTML of the chosen answer node (suggestions removed), for the markdown renderer. */
+  answerHtml: string;
   messageBlockCount: number;
   sourceLinks: DoubaoSourceLink[];
 }
@@ -82,58 +93,12 @@ function getDomain(url: string): string {
   }
 }
 
-function formatStructuredResponse(turn: DoubaoTurnSnapshot): { text: string; markdown: string } {
-  const lines: string[] = [];
-  lines.push('## AI Answer');
-  lines.push(turn.answerText || '(empty)');
-  lines.push('');
-  lines.push('## AI Thinking');
-  lines.push('(not available)');
-  lines.push('');
-  lines.push('## Sources');
-
-  const sources = mergeSources(turn.sourceLinks).slice(0, 20);
-  if (sources.length === 0) {
-    lines.push('(none)');
-  } else {
-    for (let i = 0; i < sources.length; i++) {
-      const source = sources[i];
-      const label = compactSourceLabel(source.text, source.href);
-      lines.push(`${i + 1}. ${label}`);
-      lines.push(`   ${source.href}`);
-      if (source.sourceName) {
-        lines.push(`   Source: ${source.sourceName}`);
-      } else if (source.domain) {
-        lines.push(`   Source: ${source.domain}`);
-      }
-      if (source.citationIndex) {
-        lines.push(`   Citation: ${source.citationIndex}`);
-      }
-      if (source.detectedDate) {
-        lines.push(`   Date: ${source.detectedDate}`);
-      }
-      if (source.summary) {
-        lines.push(`   Summary: ${compactSummary(source.summary)}`);
-      }
-    }
-  }
-
-  const text = lines.join('\n').trim();
-  return { text, markdown: text };
-}
-
 function compactSourceLabel(text: string, href: string): string {
   const normalized = normalizeText(text);
   if (!normalized) return getDomain(href);
   return normalized.length > 120 ? `${normalized.slice(0, 117)}...` : normalized;
 }
 
-function compactSummary(text: string): string {
-  const normalized = normalizeText(text);
-  if (normalized.length <= 180) return normalized;
-  return `${normalized.slice(0, 177)}...`;
-}
-
 function isInterimAnswer(text: string): boolean {
   const normalized = normalizeText(text).toLowerCase();
   if (!normalized) return true;
@@ -643,6 +608,7 @@ async function extractCurrentTurnSnapshot(page: Page, prompt: string): Promise<D
       const uniqueNodes = Array.from(new Set(nodes));
 
       let answerText = '';
+      let answerHtml = '';
       let selectedNode: Element | null = null;
       let bestScore = Number.NEGATIVE_INFINITY;
 
@@ -717,6 +683,7 @@ async function extractCurrentTurnSnapshot(page: Page, prompt: string): Promise<D
         if (score >= bestScore) {
           bestScore = score;
           answerText = text;
+          answerHtml = clone.innerHTML;
           selectedNode = node;
         }
       }
@@ -748,6 +715,7 @@ async function extractCurrentTurnSnapshot(page: Page, prompt: string): Promise<D
 
       return {
         answerText,
+        answerHtml,
         messageBlockCount: primary.length,
         sourceLinks: Array.from(dedup.values()),
       };
@@ -781,6 +749,21 @@ export const doubaoActions: ProviderActions = {
     }
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    const enabled = matchModel(DOUBAO_CONFIG, model) === 'Doubao-DeepThink';
+    const toggle = await findToggleButton(page, DEEPTHINK_NAME_PATTERNS, 8_000);
+    if (!toggle) {
+      throw new Error('Doubao deep-thinking toggle not found. The UI may have changed.');
+    }
+    await setToggleState(toggle, enabled);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    const toggle = await findToggleButton(page, DEEPTHINK_NAME_PATTERNS, 2_000);
+    if (!toggle) return undefined;
+    return (await isToggleSelected(toggle)) ? 'Doubao-DeepThink' : 'Doubao';
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await findFirstVisible(page, COMPOSER_SELECTORS, 15_000);
     if (!composer) {
@@ -892,20 +875,23 @@ export const doubaoActions: ProviderActions = {
       }
     }
 
-    const formatted = sawNewTurn
-      ? formatStructuredResponse({
-          ...lastSnapshot,
-          answerText: normalizeText(lastSnapshot.answerText),
+    const rendered = sawNewTurn
+      ? renderCapturedAnswer({
+          text: normalizeText(lastSnapshot.answerText),
+          html: lastSnapshot.answerHtml,
+          citations: mergeSources(lastSnapshot.sourceLinks).map((source) => ({
+            url: source.href,
+            index: source.citationIndex,
+            title: compactSourceLabel(source.text, source.href),
+            source: source.sourceName || source.domain,
+            summary: source.summary,
+            date: source.detectedDate,
+          })),
         })
-      : {
-          text: '## AI Answer\n(empty)\n\n## AI Thinking\n(not available)\n\n## Sources\n(none)',
-          markdown:
-            '## AI Answer\n(empty)\n\n## AI Thinking\n(not available)\n\n## Sources\n(none)',
-        };
+      : renderCapturedAnswer({ text: normalizeText(lastStreamedAnswer) });
 
     return {
-      text: formatted.text,
-      markdown: formatted.markdown,
+      ...rendered,
       truncated: elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD,
       thinkingTime: Math.round(elapsed / 1000),
     };
@@ -1,5 +1,8 @@
 import type { Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { collectAnswerAssets } from './assets.js';
+import { matchModel, readPickerModel, selectFromPicker } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const GEMINI_CONFIG: ProviderConfig = {
   name: 'gemini',
@@ -9,12 +12,16 @@ export const GEMINI_CONFIG: ProviderConfig = {
   models: ['Gemini 2.5 Pro', 'Gemini 2.5 Flash'],
   defaultModel: 'Gemini 2.5 Pro',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 500_000, unit: 'tokens' },
+  conversationUrlPattern: /^https:\/\/gemini\.google\.com\/app\/[\w-]+/,
 };
 
 const SELECTORS = {
   composer: '.ql-editor[contenteditable="true"], div[role="textbox"][aria-label*="prompt"]',
   sendButton: 'button.send-button, button[aria-label="Send message"]',
   /** model-response is the Angular custom element wrapping each AI turn */
+  modelPicker:
+    '[data-test-id="bard-mode-menu-button"], button.gds-mode-switch-button, bard-mode-switcher button',
   responseTurn: 'model-response .model-response-text, model-response message-content',
 } as const;
 
@@ -104,6 +111,16 @@ export const geminiActions: ProviderActions = {
     await page.waitForTimeout(3000);
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    await selectFromPicker(page, GEMINI_CONFIG, matchModel(GEMINI_CONFIG, model), [
+      SELECTORS.modelPicker,
+    ]);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    return readPickerModel(page, GEMINI_CONFIG, [SELECTORS.modelPicker]);
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await page.waitForSelector(SELECTORS.composer, { timeout: 15_000 });
     if (!composer) {
@@ -173,12 +190,12 @@ export const geminiActions: ProviderActions = {
     }
 
     const lastTurn = page.locator(SELECTORS.responseTurn).last();
-    const markdown = (await lastTurn.innerHTML()) ?? '';
+    const html = (await lastTurn.innerHTML()) ?? '';
 
     const elapsed = Date.now() - startTime;
     return {
-      text: lastText,
-      markdown,
+      ...renderCapturedAnswer({ text: lastText, html }),
+      assets: collectAnswerAssets(html, page.url()),
       truncated: elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD,
       thinkingTime: Math.round(elapsed / 1000),
     };
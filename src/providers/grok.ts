@@ -1,5 +1,8 @@
 import type { Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { collectAnswerAssets } from './assets.js';
+import { matchModel, readPickerModel, selectFromPicker } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const GROK_CONFIG: ProviderConfig = {
   name: 'grok',
@@ -9,6 +12,8 @@ export const GROK_CONFIG: ProviderConfig = {
   models: ['grok-3', 'grok-3-mini', 'grok-2'],
   defaultModel: 'grok-3',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 100_000, unit: 'tokens' },
+  conversationUrlPattern: /^https:\/\/grok\.com\/(?:c|chat)\/[\w-]+/,
 };
 
 const SELECTORS = {
@@ -19,7 +24,7 @@ const SELECTORS = {
   assistantTurn: '.items-start .message-bubble',
   /** Login page indicators */
   loginPage: 'a[href*="accounts.x.com"], button:has-text("Sign in"), a:has-text("Sign in")',
-  modelSelector: '#model-select-trigger',
+  modelSelector: '#model-select-trigger, button[aria-label="Model select"]',
   fileInput: 'input[type="file"][name="files"]',
 } as const;
 
@@ -49,6 +54,16 @@ export const grokActions: ProviderActions = {
     await page.waitForTimeout(2000);
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    await selectFromPicker(page, GROK_CONFIG, matchModel(GROK_CONFIG, model), [
+      SELECTORS.modelSelector,
+    ]);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    return readPickerModel(page, GROK_CONFIG, [SELECTORS.modelSelector]);
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     const composer = await page.waitForSelector(SELECTORS.composer, { timeout: 15_000 });
     if (!composer) {
@@ -133,14 +148,14 @@ export const grokActions: ProviderActions = {
     // Extract the final HTML content
     const lastTurn = page.locator(SELECTORS.assistantTurn).last();
     const remainingMs = Math.max(timeoutMs - (Date.now() - startTime), 5_000);
-    const markdown = (await lastTurn.innerHTML({ timeout: remainingMs })) ?? '';
+    const html = (await lastTurn.innerHTML({ timeout: remainingMs })) ?? '';
 
     const elapsed = Date.now() - startTime;
     const truncated = elapsed >= timeoutMs && stableCount < STABLE_THRESHOLD;
 
     return {
-      text: lastText,
-      markdown,
+      ...renderCapturedAnswer({ text: lastText, html }),
+      assets: collectAnswerAssets(html, page.url()),
       truncated,
       thinkingTime: Math.round(elapsed / 1000),
     };
@@ -0,0 +1,330 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * HTML → Markdown for captured assistant turns: headings, emphasis, links,
+ * nested lists, blockquotes, GFM tables, fenced code with its language, and
+ * KaTeX/MathJax math restored to its TeX source.
+ */
+
+export interface MarkdownLink {
+  url: string;
+  text: string;
+}
+
+export interface MarkdownConversion {
+  markdown: string;
+  /** External (http/https) links in document order, for citation lists. */
+  links: MarkdownLink[];
+}
+
+const SKIPPED_TAGS = new Set([
+  'BUTTON',
+  'CANVAS',
+  'IFRAME',
+  'INPUT',
+  'NOSCRIPT',
+  'SCRIPT',
+  'SELECT',
+  'STYLE',
+  'SVG',
+  'TEMPLATE',
+  'TEXTAREA',
+]);
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'DETAILS',
+  'DIV',
+  'DL',
+  'FIELDSET',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'HEADER',
+  'MAIN',
+  'NAV',
+  'P',
+  'SECTION',
+  'SUMMARY',
+]);
+
+// Private-use markers survive whitespace cleanup: INDENT becomes a space at the
+// end, and CODE tokens stand in for fenced blocks so their blank lines are kept.
+const INDENT = '\u0001';
+const CODE_OPEN = '\u0002';
+const CODE_CLOSE = '\u0003';
+const LINE_PREFIX = new RegExp(`^([${INDENT}>]*)(.*)$`, 's');
+
+interface RenderContext {
+  links: MarkdownLink[];
+  codeBlocks: string[];
+}
+
+export function htmlToMarkdown(html: string): string {
+  return convertHtmlToMarkdown(html).markdown;
+}
+
+export function convertHtmlToMarkdown(html: string): MarkdownConversion {
+  if (!html.trim()) return { markdown: '', links: [] };
+
+  const { document } = new JSDOM(`<body>${html}</body>`).window;
+  const ctx: RenderContext = { links: [], codeBlocks: [] };
+  const raw = renderChildren(document.body, ctx);
+  return { markdown: finalize(raw, ctx.codeBlocks), links: ctx.links };
+}
+
+function renderChildren(node: Node, ctx: RenderContext): string {
+  let out = '';
+  for (const child of Array.from(node.childNodes)) {
+    out += renderNode(child, ctx);
+  }
+  return out;
+}
+
+function renderNode(node: Node, ctx: RenderContext): string {
+  if (node.nodeType === 3) {
+    return (node.textContent ?? '').replace(/[\s\u00a0]+/g, ' ');
+  }
+  if (node.nodeType !== 1) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toUpperCase();
+
+  const math = renderMath(el);
+  if (math !== undefined) return math;
+  if (SKIPPED_TAGS.has(tag) || el.getAttribute('aria-hidden') === 'true') return '';
+
+  switch (tag) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = inline(renderChildren(el, ctx));
+      return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+    }
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return block('---');
+    case 'STRONG':
+    case 'B':
+      return wrap(renderChildren(el, ctx), '**');
+    case 'EM':
+    case 'I':
+      return wrap(renderChildren(el, ctx), '*');
+    case 'DEL':
+    case 'S':
+    case 'STRIKE':
+      return wrap(renderChildren(el, ctx), '~~');
+    case 'SUP': {
+      // Numbered superscripts are almost always citation markers
+      const text = inline(renderChildren(el, ctx));
+      return /^\d+$/.test(text) ? `[${text}]` : text;
+    }
+    case 'CODE':
+      return inlineCode(el.textContent ?? '');
+    case 'PRE':
+      return renderCodeBlock(el, ctx);
+    case 'A':
+      return renderLink(el, ctx);
+    case 'IMG': {
+      const src = el.getAttribute('src') ?? '';
+      if (!/^https?:\/\//i.test(src)) return '';
+      return `![${(el.getAttribute('alt') ?? '').trim()}](${src})`;
+    }
+    case 'UL':
+    case 'OL':
+      return renderList(el, ctx);
+    case 'BLOCKQUOTE': {
+      const content = renderChildren(el, ctx).trim();
+      if (!content) return '';
+      return block(prefixLines(normalizeLines(content), `>${INDENT}`));
+    }
+    case 'TABLE':
+      return renderTable(el, ctx);
+    case 'LI':
+      // Stray list item outside a list
+      return block(`-${INDENT}${renderChildren(el, ctx).trim()}`);
+    default:
+      if (BLOCK_TAGS.has(tag)) {
+        const content = renderChildren(el, ctx);
+        return content.trim() ? block(content) : '';
+      }
+      return renderChildren(el, ctx);
+  }
+}
+
+function block(content: string): string {
+  return `\n\n${content.trim()}\n\n`;
+}
+
+function inline(content: string): string {
+  return content.replace(/\s+/g, ' ').trim();
+}
+
+function wrap(content: string, marker: string): string {
+  const text = content.trim();
+  if (!text) return content;
+  // Keep surrounding spaces outside the markers so `**bold**` stays valid
+  const leading = content.startsWith(' ') ? ' ' : '';
+  const trailing = content.endsWith(' ') ? ' ' : '';
+  return `${leading}${marker}${text}${marker}${trailing}`;
+}
+
+function inlineCode(text: string): string {
+  const code = text.replace(/\n/g, ' ');
+  if (!code.trim()) return '';
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+function renderCodeBlock(el: Element, ctx: RenderContext): string {
+  const code = el.querySelector('code');
+  const text = (code ?? el).textContent?.replace(/\n$/, '') ?? '';
+  const language = codeLanguage(code) ?? codeLanguage(el) ?? '';
+  const longestRun = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+  ctx.codeBlocks.push(`${fence}${language}\n${text}\n${fence}`);
+  return block(`${CODE_OPEN}${ctx.codeBlocks.length - 1}${CODE_CLOSE}`);
+}
+
+function codeLanguage(el: Element | null): string | undefined {
+  if (!el) return undefined;
+  const fromClass = (el.getAttribute('class') ?? '').match(/(?:^|\s)(?:language|lang)-([\w#+.-]+)/);
+  if (fromClass) return fromClass[1];
+  const fromData = el.getAttribute('data-language') ?? el.getAttribute('data-lang');
+  return fromData?.trim() || undefined;
+}
+
+function renderLink(el: Element, ctx: RenderContext): string {
+  const href = el.getAttribute('href') ?? '';
+  const text = inline(renderChildren(el, ctx));
+  if (!/^https?:\/\//i.test(href)) return text;
+
+  ctx.links.push({ url: href, text });
+  if (!text) return `<${href}>`;
+  if (text === href) return `<${href}>`;
+  return `[${text.replace(/([[\]])/g, '\\$1')}](${href.replace(/[()]/g, encodeURIComponent)})`;
+}
+
+function renderList(el: Element, ctx: RenderContext): string {
+  const ordered = el.tagName.toUpperCase() === 'OL';
+  const start = Number.parseInt(el.getAttribute('start') ?? '1', 10) || 1;
+  const items = Array.from(el.children).filter((child) => child.tagName.toUpperCase() === 'LI');
+
+  const rendered = items.map((item, index) => {
+    const marker = ordered ? `${start + index}.` : '-';
+    let content = normalizeLines(renderChildren(item, ctx).trim());
+    // Keep tight lists tight: only paragraphs and code warrant blank lines inside an item
+    if (
+      !Array.from(item.children).some((child) => /^(P|PRE|BLOCKQUOTE|TABLE)$/i.test(child.tagName))
+    ) {
+      content = content.replace(/\n{2,}/g, '\n');
+    }
+    const indent = INDENT.repeat(marker.length + 1);
+    const [first = '', ...rest] = content.split('\n');
+    return [`${marker}${INDENT}${first}`, ...rest.map((line) => `${indent}${line}`)].join('\n');
+  });
+
+  return rendered.length > 0 ? block(rendered.join('\n')) : '';
+}
+
+function renderTable(el: Element, ctx: RenderContext): string {
+  const rows = Array.from(el.querySelectorAll('tr')).filter((row) => row.closest('table') === el);
+  const cells = rows.map((row) =>
+    Array.from(row.children)
+      .filter((cell) => /^T[HD]$/i.test(cell.tagName))
+      .map((cell) => inline(renderChildren(cell, ctx)).replace(/\|/g, '\\|')),
+  );
+  const width = Math.max(0, ...cells.map((row) => row.length));
+  if (width === 0) return '';
+
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = cells;
+  return block(
+    [line(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(line)].join('\n'),
+  );
+}
+
+/**
+ * KaTeX and MathJax render math as nested spans plus a hidden TeX source.
+ * Returns undefined for elements that aren't math.
+ */
+function renderMath(el: Element): string | undefined {
+  const tag = el.tagName.toUpperCase();
+  const className = el.getAttribute('class') ?? '';
+
+  if (tag === 'SCRIPT' && /^math\/tex/i.test(el.getAttribute('type') ?? '')) {
+    const tex = (el.textContent ?? '').trim();
+    return /mode=display/i.test(el.getAttribute('type') ?? '')
+      ? block(`$$\n${tex}\n$$`)
+      : `$${tex}$`;
+  }
+
+  const isKatexDisplay = /(?:^|\s)katex-display(?:\s|$)/.test(className);
+  const isKatex = isKatexDisplay || /(?:^|\s)katex(?:\s|$)/.test(className);
+  const isMathJax =
+    tag === 'MJX-CONTAINER' || /(?:^|\s)MathJax(?:_Display)?(?:\s|$)/.test(className);
+  if (!isKatex && !isMathJax && tag !== 'MATH') return undefined;
+
+  const annotation = el.querySelector('annotation[encoding="application/x-tex"]');
+  const tex = (annotation?.textContent ?? el.getAttribute('alttext') ?? '').trim();
+  if (!tex) return tag === 'MATH' ? (el.textContent ?? '') : undefined;
+
+  const display =
+    isKatexDisplay ||
+    el.getAttribute('display') === 'block' ||
+    el.getAttribute('display') === 'true' ||
+    el.querySelector('math[display="block"]') !== null;
+  return display ? block(`$$\n${tex}\n$$`) : `$${tex}$`;
+}
+
+/** Trim spaces around each line (keeping INDENT prefixes) and collapse blank runs. */
+function normalizeLines(text: string): string {
+  const lines = text.split('\n').map((line) => {
+    const [, prefix = '', rest = ''] = line.match(LINE_PREFIX) ?? [];
+    return `${prefix}${rest.trim()}`;
+  });
+
+  const out: string[] = [];
+  for (const line of lines) {
+    const blank = line.replace(new RegExp(INDENT, 'g'), '') === '';
+    if (blank) {
+      if (out.length > 0 && out[out.length - 1] !== '') out.push('');
+      continue;
+    }
+    out.push(line);
+  }
+  while (out[out.length - 1] === '') out.pop();
+  return out.join('\n');
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+function finalize(raw: string, codeBlocks: string[]): string {
+  const codePattern = new RegExp(`^([${INDENT}>]*)${CODE_OPEN}(\\d+)${CODE_CLOSE}$`);
+  return normalizeLines(raw)
+    .split('\n')
+    .flatMap((line) => {
+      const code = line.match(codePattern);
+      if (!code) return [line];
+      return prefixLines(codeBlocks[Number(code[2])], code[1]).split('\n');
+    })
+    .map((line) => line.replace(new RegExp(INDENT, 'g'), ' ').replace(/[ \t]+$/, ''))
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,176 @@
+import type { Locator, Page } from 'playwright';
+import type { ProviderConfig } from '../types.js';
+
+/**
+ * Map a requested model name onto the provider's `models` list
+ * (case-insensitive). Throws with the available names when it doesn't match.
+ */
+export function matchModel(config: ProviderConfig, requested: string): string {
+  const models = config.models ?? [];
+  if (models.length === 0) {
+    throw new Error(`${config.displayName} does not support model selection.`);
+  }
+
+  const wanted = requested.trim().toLowerCase();
+  const match = models.find((model) => model.toLowerCase() === wanted);
+  if (!match) {
+    throw new Error(
+      `Unknown model "${requested}" for ${config.displayName}. Available: ${models.join(', ')}`,
+    );
+  }
+  return match;
+}
+
+/**
+ * Map free UI text (e.g. a picker button label "ChatGPT 4o mini") onto the
+ * longest model name it contains, so "GPT-4o mini" wins over "GPT-4o".
+ */
+export function modelFromLabel(models: readonly string[], label: string): string | undefined {
+  const normalize = (text: string) => text.toLowerCase().replace(/[\s-]+/g, '');
+  const haystack = normalize(label);
+  return [...models]
+    .sort((a, b) => b.length - a.length)
+    .find((model) => haystack.includes(normalize(model)));
+}
+
+export async function findFirstVisibleLocator(
+  page: Page,
+  selectors: readonly string[],
+  timeoutMs: number,
+): Promise<Locator | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    for (const selector of selectors) {
+      const locator = page.locator(selector).first();
+      if ((await locator.count()) === 0) continue;
+      if (await locator.isVisible().catch(() => false)) return locator;
+    }
+    await page.waitForTimeout(200);
+  }
+  return null;
+}
+
+/** Read a picker trigger's label and map it to a known model. */
+export async function readPickerModel(
+  page: Page,
+  config: ProviderConfig,
+  triggerSelectors: readonly string[],
+): Promise<string | undefined> {
+  const trigger = await findFirstVisibleLocator(page, triggerSelectors, 3_000);
+  if (!trigger) return undefined;
+  const label = ((await trigger.textContent().catch(() => null)) ?? '').trim();
+  if (!label) return undefined;
+  return modelFromLabel(config.models ?? [], label) ?? label;
+}
+
+/**
+ * Open a dropdown model picker and click the entry for `model`, then confirm
+ * the trigger label changed. Used by providers whose picker is a menu.
+ */
+export async function selectFromPicker(
+  page: Page,
+  config: ProviderConfig,
+  model: string,
+  triggerSelectors: readonly string[],
+): Promise<void> {
+  const current = await readPickerModel(page, config, triggerSelectors);
+  if (current === model) return;
+
+  const trigger = await findFirstVisibleLocator(page, triggerSelectors, 10_000);
+  if (!trigger) {
+    throw new Error(
+      `${config.displayName} model picker not found. The UI may have changed. Try running with --headed to debug.`,
+    );
+  }
+  await trigger.click();
+
+  const namePattern = looseNamePattern(model);
+  const candidates = [
+    page.getByRole('menuitemradio', { name: namePattern }),
+    page.getByRole('menuitem', { name: namePattern }),
+    page.getByRole('option', { name: namePattern }),
+    page.locator('[role="menu"], [role="listbox"]').getByText(namePattern),
+  ];
+
+  let clicked = false;
+  for (const candidate of candidates) {
+    const option = candidate.first();
+    if ((await option.count()) === 0) continue;
+    if (!(await option.isVisible().catch(() => false))) continue;
+    await option.click();
+    clicked = true;
+    break;
+  }
+
+  if (!clicked) {
+    await page.keyboard.press('Escape').catch(() => {});
+    throw new Error(
+      `Model "${model}" is not offered by the ${config.displayName} picker. The UI may have changed.`,
+    );
+  }
+
+  await page.waitForTimeout(500);
+  const selected = await readPickerModel(page, config, triggerSelectors);
+  const known = config.models ?? [];
+  if (selected !== undefined && selected !== model && known.includes(selected)) {
+    throw new Error(
+      `${config.displayName} picker still shows "${selected}" after selecting "${model}". The UI may have changed.`,
+    );
+  }
+}
+
+/** Case-insensitive pattern that tolerates spaces/dashes differing from the model name. */
+export function looseNamePattern(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]*');
+  return new RegExp(escaped, 'i');
+}
+
+/** Find a visible toggle button (`button` role or clickable div) by accessible name. */
+export async function findToggleButton(
+  page: Page,
+  patterns: RegExp[],
+  timeoutMs = 3_000,
+): Promise<Locator | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    for (const pattern of patterns) {
+      const roleButton = page.getByRole('button', { name: pattern }).last();
+      if ((await roleButton.count()) > 0 && (await roleButton.isVisible().catch(() => false))) {
+        return roleButton;
+      }
+
+      const divButton = page.locator('div[role="button"]', { hasText: pattern }).last();
+      if ((await divButton.count()) > 0 && (await divButton.isVisible().catch(() => false))) {
+        return divButton;
+      }
+    }
+    await page.waitForTimeout(120);
+  }
+  return null;
+}
+
+export async function isToggleSelected(toggle: Locator): Promise<boolean> {
+  try {
+    return await toggle.evaluate((el) => {
+      const className = (el as HTMLElement).className ?? '';
+      const ariaPressed = el.getAttribute('aria-pressed') ?? '';
+      const ariaChecked = el.getAttribute('aria-checked') ?? '';
+      const dataState = el.getAttribute('data-state') ?? '';
+      return /selected|active|checked|true|\bon\b/i.test(
+        `${className} ${ariaPressed} ${ariaChecked} ${dataState}`,
+      );
+    });
+  } catch {
+    return false;
+  }
+}
+
+export async function setToggleState(toggle: Locator, expectedOn: boolean): Promise<void> {
+  const isOn = await isToggleSelected(toggle);
+  if (isOn === expectedOn) return;
+
+  await toggle.click({ timeout: 3_000 }).catch(async () => {
+    await toggle.click({ timeout: 2_000, force: true }).catch(() => {});
+  });
+  await toggle.page().waitForTimeout(150);
+}
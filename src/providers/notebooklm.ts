@@ -8,6 +8,7 @@ export const NOTEBOOKLM_CONFIG: ProviderConfig = {
   url: 'https://notebooklm.google.com/',
   loginUrl: 'https://notebooklm.google.com/',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 10_000, unit: 'chars' },
 };
 
 /**
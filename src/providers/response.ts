@@ -0,0 +1,134 @@
+import type { CapturedResponse, Citation } from '../types.js';
+import { convertHtmlToMarkdown } from './markdown.js';
+
+/** Sources listed in the rendered markdown; the rest stay in `citations`. */
+const MAX_LISTED_SOURCES = 20;
+const MAX_SUMMARY_CHARS = 240;
+
+export interface AnswerCapture {
+  /** Answer as plain text (what was streamed). */
+  text: string;
+  /** Answer container HTML; converted to markdown when present. */
+  html?: string;
+  citations?: Citation[];
+  /** Sources the UI says it consulted, when it reports more than it lists. */
+  sourceCount?: number;
+}
+
+/**
+ * Shared renderer for captured answers: converts the answer HTML to markdown,
+ * merges citations (including links found in the answer) and appends a
+ * numbered `## Sources` section to both the markdown and text forms.
+ */
+export function renderCapturedAnswer(
+  answer: AnswerCapture,
+): Pick<CapturedResponse, 'text' | 'markdown' | 'citations'> {
+  const converted = answer.html ? convertHtmlToMarkdown(answer.html) : undefined;
+  const body = converted?.markdown || answer.text.trim();
+  const citations = normalizeCitations([
+    ...(answer.citations ?? []),
+    // Numbered pills like "[3]" link to a source; their text is the marker, not a title
+    ...(converted?.links ?? []).map((link) =>
+      /^\[?\d+\]?$/.test(link.text)
+        ? { url: link.url, index: link.text.replace(/\D/g, '') }
+        : { url: link.url, title: link.text || undefined },
+    ),
+  ]);
+
+  if (citations.length === 0) {
+    return { text: answer.text.trim(), markdown: body, citations };
+  }
+
+  const listed = citations.slice(0, MAX_LISTED_SOURCES);
+  const markdownSources = listed.map((citation, i) => {
+    const label = citation.title || getDomain(citation.url);
+    const meta = [citation.source, citation.date].filter(Boolean).join(' · ');
+    const lines = [
+      `${citation.index ?? i + 1}. [${label}](${citation.url})${meta ? ` — ${meta}` : ''}`,
+    ];
+    if (citation.summary) lines.push(`   ${truncate(citation.summary, MAX_SUMMARY_CHARS)}`);
+    return lines.join('\n');
+  });
+  const textSources = listed.map(
+    (citation, i) =>
+      `[${citation.index ?? i + 1}] ${citation.title || getDomain(citation.url)} — ${citation.url}`,
+  );
+
+  const total = Math.max(citations.length, answer.sourceCount ?? 0);
+  const more = total > listed.length ? [`… and ${total - listed.length} more sources`] : [];
+
+  return {
+    text: [answer.text.trim(), '', 'Sources:', ...textSources, ...more].join('\n').trim(),
+    markdown: [body, '', '## Sources', '', ...markdownSources, ...more].join('\n').trim(),
+    citations,
+  };
+}
+
+/**
+ * Drop non-http entries, merge duplicates by URL (first non-empty field wins)
+ * and order numbered citations by their marker, unnumbered ones after.
+ */
+export function normalizeCitations(citations: Citation[]): Citation[] {
+  const byUrl = new Map<string, Citation>();
+  for (const citation of citations) {
+    const url = citation.url?.trim();
+    if (!url || !/^https?:\/\//i.test(url)) continue;
+
+    const cleaned: Citation = {
+      url,
+      index: clean(citation.index),
+      title: clean(citation.title),
+      source: clean(citation.source),
+      summary: clean(citation.summary),
+      date: clean(citation.date),
+    };
+    const existing = byUrl.get(url);
+    byUrl.set(url, existing ? mergeCitation(existing, cleaned) : cleaned);
+  }
+
+  const rank = (citation: Citation) =>
+    citation.index && /^\d+$/.test(citation.index)
+      ? Number(citation.index)
+      : Number.POSITIVE_INFINITY;
+  return [...byUrl.values()]
+    .map((citation) => dropEmpty(citation))
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+function mergeCitation(base: Citation, incoming: Citation): Citation {
+  return {
+    url: base.url,
+    index: base.index ?? incoming.index,
+    title: base.title ?? incoming.title,
+    source: base.source ?? incoming.source,
+    summary: base.summary ?? incoming.summary,
+    date: base.date ?? incoming.date,
+  };
+}
+
+function dropEmpty(citation: Citation): Citation {
+  const result: Citation = { url: citation.url };
+  if (citation.index) result.index = citation.index;
+  if (citation.title) result.title = citation.title;
+  if (citation.source) result.source = citation.source;
+  if (citation.summary) result.summary = citation.summary;
+  if (citation.date) result.date = citation.date;
+  return result;
+}
+
+function clean(value?: string): string | undefined {
+  const normalized = value?.replace(/\s+/g, ' ').trim();
+  return normalized || undefined;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./i, '');
+  } catch {
+    return url;
+  }
+}
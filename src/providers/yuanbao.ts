@@ -1,5 +1,7 @@
-import type { Page } from 'playwright';
+import type { Locator, Page } from 'playwright';
 import type { CapturedResponse, ProviderActions, ProviderConfig } from '../types.js';
+import { matchModel } from './model-picker.js';
+import { renderCapturedAnswer } from './response.js';
 
 export const YUANBAO_CONFIG: ProviderConfig = {
   name: 'yuanbao',
@@ -7,13 +9,20 @@ export const YUANBAO_CONFIG: ProviderConfig = {
   url: 'https://yuanbao.tencent.com/',
   loginUrl: 'https://yuanbao.tencent.com/',
   autoHeadedLoginFallback: true,
+  /** Model family picker plus the DeepThink toggle (T1 / R1 = deep thinking on). */
+  models: ['Hunyuan', 'Hunyuan-T1', 'DeepSeek-V3', 'DeepSeek-R1'],
+  defaultModel: 'Hunyuan',
   defaultTimeoutMs: 5 * 60 * 1000,
+  contextBudget: { limit: 30_000, unit: 'chars' },
+  conversationUrlPattern: /^https:\/\/yuanbao\.tencent\.com\/chat\/[\w-]+\/[\w-]+/,
 };
 
 const SELECTORS = {
   composer: '.ql-editor[contenteditable="true"]',
   sendButton: 'a[class*="send-btn"]',
   deepThinkingToggle: '[class*="ThinkSelector_iconDeepThinkAll"]',
+  modelFamilyTrigger:
+    '[class*="ModelSelector"], [class*="model-select"], .yb-switch-model-btn, [dt-button-id="model_switch"]',
   internetSearchToggle: '.yb-switch-internet-search-btn, .yb-internet-search-btn',
   internetSearchModeTrigger:
     '.yb-switch-internet-search-btn__right, .yb-internet-search-btn-switch-icon, [class*="selectArrowButtonWrapper"], [class*="selectArrow"]',
@@ -28,8 +37,13 @@ const SELECTORS = {
   notLoggedInText: 'text=Not logged in, text=未登录',
 } as const;
 
+/** DeepThink state chosen by selectModel; submitPrompt re-applies it after search setup. */
+const deepThinkingPreference = new WeakMap<Page, boolean>();
+
 interface YuanbaoTurnSnapshot {
   answerText: string;
+  /** innerHTML of the answer's markdown container, for the markdown renderer. */
+  answerHtml: string;
   hasSourcesButton: boolean;
   citationIds: string[];
 }
@@ -57,37 +71,6 @@ function turnSignature(turn: YuanbaoTurnSnapshot): string {
   );
 }
 
-function formatStructuredResponse(
-  turn: YuanbaoTurnSnapshot,
-  sources: YuanbaoSourceEntry[],
-): { text: string; markdown: string } {
-  const lines: string[] = [];
-
-  lines.push('## AI Answer');
-  lines.push(turn.answerText || '(empty)');
-  lines.push('');
-  lines.push('## Sources');
-
-  if (sources.length > 0) {
-    for (const source of sources) {
-      const label = source.index || '?';
-      const title = [source.source, source.title].filter(Boolean).join(' - ') || 'Unknown source';
-      const summary =
-        source.summary.length > 240 ? `${source.summary.slice(0, 240)}...` : source.summary;
-      lines.push(`${label}. ${title}`);
-      if (source.url) lines.push(`   ${source.url}`);
-      if (summary) lines.push(`   ${summary}`);
-    }
-  } else if (turn.citationIds.length > 0) {
-    lines.push(`Inline citations: ${turn.citationIds.join(', ')}`);
-  } else {
-    lines.push('(none)');
-  }
-
-  const text = lines.join('\n').trim();
-  return { text, markdown: text };
-}
-
 async function isYuanbaoSessionAuthenticated(page: Page): Promise<boolean> {
   try {
     const result = await page.evaluate(async () => {
@@ -126,39 +109,44 @@ async function dismissBlockingOverlays(page: Page): Promise<void> {
   await page.waitForTimeout(120);
 }
 
-async function ensureDeepThinkingDisabled(page: Page): Promise<void> {
-  await dismissBlockingOverlays(page);
-
+async function findDeepThinkingToggle(page: Page): Promise<Locator | null> {
   const candidates = [
     page.locator(SELECTORS.deepThinkingToggle).first(),
     page.getByText(/^(DeepThink|Deep Thinking|DeepThinking|深度思考)$/).last(),
   ];
 
-  let toggle = candidates[0];
-  let found = false;
-
   for (const candidate of candidates) {
     if ((await candidate.count()) === 0) continue;
     try {
       await candidate.waitFor({ state: 'visible', timeout: 2_500 });
-      toggle = candidate;
-      found = true;
-      break;
+      return candidate;
     } catch {
       // Try the next selector variant.
     }
   }
+  return null;
+}
 
-  if (!found) return;
-
-  let isSelected = false;
+async function isDeepThinkingEnabled(toggle: Locator): Promise<boolean> {
   try {
-    isSelected = await toggle.evaluate((el) => /selected|checked|active/i.test(el.className));
+    return await toggle.evaluate((el) => /selected|checked|active/i.test(el.className));
   } catch {
-    isSelected = false;
+    return false;
+  }
+}
+
+async function setDeepThinking(page: Page, enabled: boolean): Promise<void> {
+  await dismissBlockingOverlays(page);
+
+  const toggle = await findDeepThinkingToggle(page);
+  if (!toggle) {
+    if (enabled) {
+      throw new Error('Yuanbao DeepThink toggle not found. The UI may have changed.');
+    }
+    return;
   }
 
-  if (isSelected) {
+  if ((await isDeepThinkingEnabled(toggle)) !== enabled) {
     await dismissBlockingOverlays(page);
     await toggle.click({ timeout: 3_000 }).catch(async () => {
       await toggle.click({ timeout: 2_000, force: true }).catch(() => {});
@@ -167,6 +155,39 @@ async function ensureDeepThinkingDisabled(page: Page): Promise<void> {
   }
 }
 
+async function readModelFamily(page: Page): Promise<'Hunyuan' | 'DeepSeek' | undefined> {
+  const trigger = page.locator(SELECTORS.modelFamilyTrigger).first();
+  if ((await trigger.count()) === 0) return undefined;
+  const label = (await trigger.textContent().catch(() => null)) ?? '';
+  if (/deepseek/i.test(label)) return 'DeepSeek';
+  if (/hunyuan|混元/i.test(label)) return 'Hunyuan';
+  return undefined;
+}
+
+async function selectModelFamily(page: Page, family: 'Hunyuan' | 'DeepSeek'): Promise<void> {
+  if ((await readModelFamily(page)) === family) return;
+
+  await dismissBlockingOverlays(page);
+  const trigger = page.locator(SELECTORS.modelFamilyTrigger).first();
+  try {
+    await trigger.waitFor({ state: 'visible', timeout: 8_000 });
+  } catch {
+    throw new Error(
+      'Yuanbao model picker not found. The UI may have changed. Try running with --headed to debug.',
+    );
+  }
+  await trigger.click();
+
+  const option = page.getByText(family === 'DeepSeek' ? /DeepSeek/i : /Hunyuan|混元/i).last();
+  await option.waitFor({ state: 'visible', timeout: 3_000 }).catch(() => {});
+  if ((await option.count()) === 0) {
+    await page.keyboard.press('Escape').catch(() => {});
+    throw new Error(`Yuanbao model picker does not offer ${family}. The UI may have changed.`);
+  }
+  await option.click();
+  await page.waitForTimeout(300);
+}
+
 async function extractLatestTurnSnapshot(page: Page): Promise<YuanbaoTurnSnapshot> {
   return page.evaluate(() => {
     const bubbles = Array.from(document.querySelectorAll('.agent-chat__bubble--ai'));
@@ -174,6 +195,7 @@ async function extractLatestTurnSnapshot(page: Page): Promise<YuanbaoTurnSnapsho
     if (!latestBubble) {
       return {
         answerText: '',
+        answerHtml: '',
         hasSourcesButton: false,
         citationIds: [],
       };
@@ -219,6 +241,7 @@ async function extractLatestTurnSnapshot(page: Page): Promise<YuanbaoTurnSnapsho
 
     return {
       answerText,
+      answerHtml: answerNode?.innerHTML ?? '',
       hasSourcesButton,
       citationIds: Array.from(new Set(citationIds)),
     };
@@ -931,9 +954,27 @@ export const yuanbaoActions: ProviderActions = {
     }
   },
 
+  async selectModel(page: Page, model: string): Promise<void> {
+    const match = matchModel(YUANBAO_CONFIG, model);
+    const deepThinking = match === 'Hunyuan-T1' || match === 'DeepSeek-R1';
+    deepThinkingPreference.set(page, deepThinking);
+
+    await selectModelFamily(page, match.startsWith('DeepSeek') ? 'DeepSeek' : 'Hunyuan');
+    await setDeepThinking(page, deepThinking);
+  },
+
+  async readModel(page: Page): Promise<string | undefined> {
+    const family = await readModelFamily(page);
+    if (!family) return undefined;
+    const toggle = await findDeepThinkingToggle(page);
+    const deepThinking = toggle ? await isDeepThinkingEnabled(toggle) : false;
+    if (family === 'DeepSeek') return deepThinking ? 'DeepSeek-R1' : 'DeepSeek-V3';
+    return deepThinking ? 'Hunyuan-T1' : 'Hunyuan';
+  },
+
   async submitPrompt(page: Page, prompt: string): Promise<void> {
     await ensureInternetSearchManualAndEnabled(page);
-    await ensureDeepThinkingDisabled(page);
+    await setDeepThinking(page, deepThinkingPreference.get(page) ?? false);
 
     const composer = await page.waitForSelector(SELECTORS.composer, { timeout: 15_000 });
     if (!composer) {
@@ -1090,19 +1131,22 @@ export const yuanbaoActions: ProviderActions = {
       }
     }
 
-    const formatted = sawNewTurn
-      ? formatStructuredResponse(
-          {
-            ...lastSnapshot,
-            answerText: normalizeBlockText(lastSnapshot.answerText),
-          },
-          sources,
-        )
-      : { text: '', markdown: '' };
+    const rendered = sawNewTurn
+      ? renderCapturedAnswer({
+          text: normalizeBlockText(lastSnapshot.answerText),
+          html: lastSnapshot.answerHtml,
+          citations: sources.map((source) => ({
+            url: source.url,
+            index: source.index,
+            title: source.title,
+            source: source.source,
+            summary: source.summary,
+          })),
+        })
+      : renderCapturedAnswer({ text: '' });
 
     return {
-      text: formatted.text,
-      markdown: formatted.markdown,
+      ...rendered,
       truncated,
       thinkingTime: Math.round(elapsed / 1000),
     };
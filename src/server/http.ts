@@ -0,0 +1,459 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { type BrowserPool, createBrowserPool } from '../browser/index.js';
+import {
+  type ChatResult,
+  type ChatRuntime,
+  resolveChatProvider,
+  runChat,
+} from '../core/orchestrator.js';
+import { createKeyedQueue, type KeyedQueue } from '../core/queue.js';
+import { RiskGuardError } from '../core/risk-guard.js';
+import { isValidProvider, listProviders } from '../providers/index.js';
+import { getSessionContents, listSessions } from '../session/index.js';
+import { type ErrorModule, listErrorEvents, recordErrorEvent } from '../telemetry/errors.js';
+import type { ChatOptions } from '../types.js';
+import {
+  completionChunk,
+  completionResponse,
+  errorBody,
+  flattenMessages,
+  listModelIds,
+  OpenAIRequestError,
+  parseChatCompletionRequest,
+  resolveModel,
+} from './openai.js';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const ERROR_MODULES: ErrorModule[] = [
+  'chat',
+  'provider',
+  'sources',
+  'login',
+  'status',
+  'cli',
+  'unknown',
+];
+
+export interface ApiServerOptions {
+  host?: string;
+  port?: number;
+  /** Overrides the chat runner (tests). Defaults to `runChat` on a warm browser pool. */
+  runChat?: (options: ChatOptions, runtime: ChatRuntime) => Promise<ChatResult>;
+  pool?: BrowserPool;
+}
+
+export interface ApiServer {
+  server: Server;
+  url: string;
+  close: () => Promise<void>;
+}
+
+interface ApiContext {
+  runChat: (options: ChatOptions, runtime: ChatRuntime) => Promise<ChatResult>;
+  pool: BrowserPool;
+  queue: KeyedQueue;
+  /** Host header names the server answers to. */
+  allowedHosts: string[];
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Start the local HTTP API.
+ *
+ * Routes:
+ *   GET  /health             warm providers and queue depth
+ *   POST /chat               run a chat; JSON, or SSE when `stream: true`
+ *   GET  /sessions           listSessions (`?hours=`)
+ *   GET  /sessions/:id       getSession with bundle/response bodies
+ *   GET  /errors             listErrorEvents (same filters as `errors`)
+ *   POST /v1/chat/completions  OpenAI Chat Completions shim (see `openai.ts`)
+ *   GET  /v1/models          model IDs accepted by the shim
+ */
+export async function startApiServer(opts: ApiServerOptions = {}): Promise<ApiServer> {
+  const { host = '127.0.0.1', port = 8765 } = opts;
+  const ctx: ApiContext = {
+    runChat: opts.runChat ?? runChat,
+    pool: opts.pool ?? createBrowserPool(),
+    queue: createKeyedQueue(),
+    allowedHosts: allowedHostsFor(host),
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(ctx, req, res).catch(async (error) => {
+      const status = errorStatus(error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (status >= 500) {
+        await recordErrorEvent(
+          {
+            module: 'cli',
+            stage: 'serve_request',
+            message,
+            metadata: { method: req.method, url: req.url },
+          },
+          error,
+        );
+      }
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      const headers: Record<string, string> = {};
+      if (error instanceof RiskGuardError && error.waitMs) {
+        headers['Retry-After'] = String(Math.ceil(error.waitMs / 1000));
+      }
+      const body = req.url?.startsWith('/v1/')
+        ? openAIErrorBody(error, status, message)
+        : { error: message };
+      sendJson(res, status, body, headers);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await ctx.pool.closeAll();
+    },
+  };
+}
+
+async function handleRequest(
+  ctx: ApiContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  // A web page can reach this port too; DNS rebinding shows up as a foreign Host
+  if (!ctx.allowedHosts.includes(hostName(req.headers.host))) {
+    throw new HttpError(403, `Host not allowed: ${req.headers.host ?? '(none)'}`);
+  }
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, {
+      ok: true,
+      warmProviders: ctx.pool.warmProviders(),
+      queued: Object.fromEntries(
+        listProviders()
+          .map((provider) => [provider, ctx.queue.pending(provider)] as const)
+          .filter(([, count]) => count > 0),
+      ),
+    });
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/chat') {
+    await handleChat(ctx, req, res);
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/v1/chat/completions') {
+    await handleChatCompletions(ctx, req, res);
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/v1/models') {
+    const created = Math.floor(Date.now() / 1000);
+    sendJson(res, 200, {
+      object: 'list',
+      data: listModelIds().map((id) => ({ id, object: 'model', created, owned_by: 'douzhi-chat' })),
+    });
+    return;
+  }
+
+  if (method === 'GET' && segments[0] === 'sessions' && segments.length === 1) {
+    const hours = parsePositiveNumber(url.searchParams.get('hours')) ?? 24;
+    sendJson(res, 200, { sessions: await listSessions({ hours }) });
+    return;
+  }
+
+  if (method === 'GET' && segments[0] === 'sessions' && segments.length === 2) {
+    const sessionId = segments[1];
+    const contents = await getSessionContents(sessionId).catch(() => {
+      throw new HttpError(404, `Session not found: ${sessionId}`);
+    });
+    sendJson(res, 200, contents);
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/errors') {
+    const params = url.searchParams;
+    const events = await listErrorEvents({
+      last: parsePositiveNumber(params.get('last')) ?? 20,
+      module: parseModule(params.get('module')),
+      provider: params.get('provider') ?? undefined,
+      errorType: params.get('errorType') ?? undefined,
+      stageIncludes: params.get('stage') ?? undefined,
+      sinceHours: parsePositiveNumber(params.get('sinceHours')),
+    });
+    sendJson(res, 200, { events });
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+}
+
+async function handleChat(
+  ctx: ApiContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const body = await readJsonBody(req);
+  const parsed = parseChatRequest(body);
+  const stream = parsed.stream;
+  // Resolve the provider up front so requests for the same profile share one queue.
+  // Requests don't fall back: another provider's browser is outside that queue.
+  const provider = await resolveChatProvider(parsed.options).catch((error: Error) => {
+    throw new HttpError(400, error.message);
+  });
+  const options: ChatOptions = { ...parsed.options, provider, fallback: [] };
+  const queueKey = provider;
+
+  if (!stream) {
+    const result = await ctx.queue.run(queueKey, () =>
+      ctx.runChat({ ...options, onChunk: () => {} }, { launchBrowser: ctx.pool.launch }),
+    );
+    sendJson(res, 200, result);
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  writeEvent(res, 'queued', { position: ctx.queue.pending(queueKey) });
+
+  try {
+    const result = await ctx.queue.run(queueKey, () => {
+      writeEvent(res, 'started', { provider: options.provider });
+      return ctx.runChat(
+        { ...options, onChunk: (chunk) => writeEvent(res, 'chunk', { text: chunk }) },
+        { launchBrowser: ctx.pool.launch },
+      );
+    });
+    writeEvent(res, 'done', result);
+  } catch (error) {
+    writeEvent(res, 'error', { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    res.end();
+  }
+}
+
+async function handleChatCompletions(
+  ctx: ApiContext,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const request = parseChatCompletionRequest(await readJsonBody(req));
+  const { provider, model } = resolveModel(request.model);
+  const prompt = flattenMessages(request.messages);
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  if (!request.stream) {
+    const result = await ctx.queue.run(provider, () =>
+      ctx.runChat(
+        { prompt, provider, model, fallback: [], onChunk: () => {} },
+        { launchBrowser: ctx.pool.launch },
+      ),
+    );
+    sendJson(
+      res,
+      200,
+      completionResponse({
+        id,
+        created,
+        model: request.model,
+        content: result.response,
+        truncated: result.truncated,
+      }),
+    );
+    return;
+  }
+
+  // Headers are sent with the first chunk so a guard denial before capture
+  // can still be answered with a real 429.
+  const send = (
+    delta: { role?: 'assistant'; content?: string },
+    finishReason?: 'stop' | 'length',
+  ) => {
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write(
+        `data: ${JSON.stringify(completionChunk({ id, created, model: request.model, delta: { role: 'assistant' } }))}\n\n`,
+      );
+    }
+    if (delta.content === undefined && !finishReason) return;
+    const chunk = completionChunk({ id, created, model: request.model, delta, finishReason });
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+
+  try {
+    const result = await ctx.queue.run(provider, () =>
+      ctx.runChat(
+        { prompt, provider, model, fallback: [], onChunk: (text) => send({ content: text }) },
+        { launchBrowser: ctx.pool.launch },
+      ),
+    );
+    send({}, result.truncated ? 'length' : 'stop');
+    res.end('data: [DONE]\n\n');
+  } catch (error) {
+    if (!res.headersSent) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    res.write(`data: ${JSON.stringify(openAIErrorBody(error, errorStatus(error), message))}\n\n`);
+    res.end('data: [DONE]\n\n');
+  }
+}
+
+function parseChatRequest(body: unknown): { options: ChatOptions; stream: boolean } {
+  if (!body || typeof body !== 'object') {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+  const input = body as Record<string, unknown>;
+
+  if (typeof input.prompt !== 'string' || input.prompt.trim().length === 0) {
+    throw new HttpError(400, "'prompt' is required.");
+  }
+  if (input.provider !== undefined) {
+    if (typeof input.provider !== 'string' || !isValidProvider(input.provider)) {
+      throw new HttpError(400, `Unknown provider: ${String(input.provider)}`);
+    }
+  }
+
+  const stringList = (value: unknown, field: string): string[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      throw new HttpError(400, `'${field}' must be an array of strings.`);
+    }
+    return value as string[];
+  };
+
+  return {
+    stream: input.stream === true,
+    options: {
+      prompt: input.prompt,
+      provider: input.provider as ChatOptions['provider'],
+      model: typeof input.model === 'string' ? input.model : undefined,
+      file: stringList(input.file, 'file'),
+      attach: stringList(input.attach, 'attach'),
+      headed: input.headed === true,
+      timeoutMs: typeof input.timeoutMs === 'number' ? input.timeoutMs : undefined,
+      continueSessionId:
+        typeof input.continueSessionId === 'string' ? input.continueSessionId : undefined,
+    },
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  // Browsers send cross-origin text/plain and form posts without a preflight; JSON needs one
+  const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (contentType !== 'application/json') {
+    throw new HttpError(415, 'Content-Type must be application/json.');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large.');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+}
+
+/** Loopback names, plus the address the server was bound to unless it's a wildcard. */
+function allowedHostsFor(host: string): string[] {
+  const bound = host.includes(':') ? `[${host}]` : host;
+  return ['0.0.0.0', '[::]'].includes(bound) ? LOOPBACK_HOSTS : [...LOOPBACK_HOSTS, bound];
+}
+
+/** The name part of a Host header, e.g. `127.0.0.1` or `[::1]`. */
+function hostName(header: string | undefined): string {
+  if (!header) return '';
+  try {
+    return new URL(`http://${header}`).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+function parseModule(value: string | null): ErrorModule | undefined {
+  if (!value) return undefined;
+  if (!ERROR_MODULES.includes(value as ErrorModule)) {
+    throw new HttpError(400, `Invalid module '${value}'. Available: ${ERROR_MODULES.join(', ')}`);
+  }
+  return value as ErrorModule;
+}
+
+function parsePositiveNumber(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function errorStatus(error: unknown): number {
+  if (error instanceof HttpError || error instanceof OpenAIRequestError) return error.status;
+  if (error instanceof RiskGuardError) return 429;
+  return 500;
+}
+
+function openAIErrorBody(error: unknown, status: number, message: string) {
+  if (error instanceof OpenAIRequestError) {
+    return errorBody(message, 'invalid_request_error', error.code, error.param);
+  }
+  if (status === 429) return errorBody(message, 'rate_limit_error', 'rate_limit_exceeded');
+  if (status < 500) return errorBody(message, 'invalid_request_error', 'invalid_request');
+  return errorBody(message, 'server_error', 'internal_error');
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(`${JSON.stringify(body)}\n`);
+}
+
+function writeEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
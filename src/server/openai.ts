@@ -0,0 +1,272 @@
+import { getProvider, isValidProvider, listProviders } from '../providers/index.js';
+import type { ProviderName } from '../types.js';
+
+/**
+ * OpenAI Chat Completions compatibility: request parsing, `model` mapping and
+ * response/chunk shapes. Routing and transport live in `http.ts`.
+ */
+
+const MESSAGE_ROLES = ['system', 'developer', 'user', 'assistant', 'tool'] as const;
+
+export interface OpenAIChatMessage {
+  role: (typeof MESSAGE_ROLES)[number];
+  content: string | Array<{ type: string; text?: string }> | null;
+}
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  stream?: boolean;
+}
+
+export interface ResolvedModel {
+  provider: ProviderName;
+  /** UI model to select; undefined keeps the provider's current model. */
+  model?: string;
+}
+
+export class OpenAIRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code: string,
+    public readonly param?: string,
+  ) {
+    super(message);
+    this.name = 'OpenAIRequestError';
+  }
+}
+
+/** Model IDs advertised by `GET /v1/models`: each provider plus `provider/<UI model>`. */
+export function listModelIds(): string[] {
+  return listProviders().flatMap((provider) => [
+    provider,
+    ...(getProvider(provider).config.models ?? []).map((model) => `${provider}/${model}`),
+  ]);
+}
+
+/**
+ * Map an OpenAI `model` to a provider and UI model. Accepted forms:
+ * `claude`, `claude/Claude 4 Opus`, or a bare UI model name such as `GPT-4o`.
+ */
+export function resolveModel(model: string): ResolvedModel {
+  const trimmed = model.trim();
+  const notFound = () =>
+    new OpenAIRequestError(
+      404,
+      `The model '${model}' does not exist. Available: ${listModelIds().join(', ')}`,
+      'model_not_found',
+      'model',
+    );
+
+  if (isValidProvider(trimmed)) {
+    return { provider: trimmed };
+  }
+
+  const slash = trimmed.indexOf('/');
+  if (slash > 0) {
+    const provider = trimmed.slice(0, slash);
+    const uiModel = trimmed.slice(slash + 1);
+    if (!isValidProvider(provider)) throw notFound();
+
+    const { models = [] } = getProvider(provider).config;
+    const match = models.find((candidate) => candidate.toLowerCase() === uiModel.toLowerCase());
+    if (!match) throw notFound();
+    return { provider, model: match };
+  }
+
+  const matches = listProviders().flatMap((provider) => {
+    const match = getProvider(provider).config.models?.find(
+      (candidate) => candidate.toLowerCase() === trimmed.toLowerCase(),
+    );
+    return match ? [{ provider, model: match }] : [];
+  });
+  if (matches.length === 0) throw notFound();
+
+  // A model offered by several providers (e.g. Yuanbao also hosts DeepSeek-R1)
+  // goes to the provider it is named after.
+  return (
+    matches.find(({ provider, model: match }) => match.toLowerCase().startsWith(provider)) ??
+    matches[0]
+  );
+}
+
+export function parseChatCompletionRequest(body: unknown): OpenAIChatRequest {
+  if (!body || typeof body !== 'object') {
+    throw new OpenAIRequestError(400, 'Request body must be a JSON object.', 'invalid_request');
+  }
+  const input = body as Record<string, unknown>;
+
+  if (typeof input.model !== 'string' || !input.model.trim()) {
+    throw new OpenAIRequestError(400, "'model' is required.", 'invalid_request', 'model');
+  }
+  if (!Array.isArray(input.messages) || input.messages.length === 0) {
+    throw new OpenAIRequestError(
+      400,
+      "'messages' must be a non-empty array.",
+      'invalid_request',
+      'messages',
+    );
+  }
+
+  return {
+    model: input.model,
+    messages: input.messages.map(parseMessage),
+    stream: input.stream === true,
+  };
+}
+
+function parseMessage(value: unknown, index: number): OpenAIChatMessage {
+  const param = `messages[${index}]`;
+  const invalid = (message: string, at = param) =>
+    new OpenAIRequestError(400, message, 'invalid_request', at);
+
+  if (!isObject(value)) {
+    throw invalid(`${param} must be an object with a role and content.`);
+  }
+  const { role, content } = value;
+  if (!MESSAGE_ROLES.includes(role as OpenAIChatMessage['role'])) {
+    throw invalid(`${param}.role must be one of: ${MESSAGE_ROLES.join(', ')}.`, `${param}.role`);
+  }
+  if (content === undefined || content === null || typeof content === 'string') {
+    return { role: role as OpenAIChatMessage['role'], content: content ?? null };
+  }
+  if (!Array.isArray(content)) {
+    throw invalid(`${param}.content must be a string or an array of parts.`, `${param}.content`);
+  }
+
+  const parts = content.map((part, partIndex) => {
+    const at = `${param}.content[${partIndex}]`;
+    if (!isObject(part) || typeof part.type !== 'string') {
+      throw invalid(`${at} must be an object with a string type.`, at);
+    }
+    if (part.text !== undefined && typeof part.text !== 'string') {
+      throw invalid(`${at}.text must be a string.`, `${at}.text`);
+    }
+    return { type: part.type, text: part.text };
+  });
+  return { role: role as OpenAIChatMessage['role'], content: parts };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten a messages array into one prompt. Web chat UIs take a single
+ * message, so system instructions and earlier turns become sections ahead of
+ * the final user message; `runChat` then bundles it like any other prompt.
+ */
+export function flattenMessages(messages: OpenAIChatMessage[]): string {
+  const rendered = messages.map((message, index) => ({
+    role: message.role,
+    text: messageText(message, index),
+  }));
+
+  const lastUserIndex = rendered.map((message) => message.role).lastIndexOf('user');
+  if (lastUserIndex === -1) {
+    throw new OpenAIRequestError(
+      400,
+      "'messages' must include a user message.",
+      'invalid_request',
+      'messages',
+    );
+  }
+
+  const instructions = rendered
+    .filter((message) => message.role === 'system' || message.role === 'developer')
+    .map((message) => message.text);
+  const history = rendered
+    .slice(0, lastUserIndex)
+    .filter((message) => message.role !== 'system' && message.role !== 'developer');
+  const trailing = rendered
+    .slice(lastUserIndex + 1)
+    .filter((message) => message.role !== 'system' && message.role !== 'developer');
+
+  const parts: string[] = [];
+  if (instructions.length > 0) {
+    parts.push('# Instructions\n', instructions.join('\n\n'), '');
+  }
+  if (history.length > 0) {
+    parts.push('# Conversation so far\n');
+    for (const message of history) {
+      parts.push(`**${message.role}:**\n${message.text}\n`);
+    }
+    parts.push('# Current message\n');
+  }
+  parts.push(rendered[lastUserIndex].text);
+  for (const message of trailing) {
+    parts.push('', `**${message.role}:**\n${message.text}`);
+  }
+
+  return parts.join('\n').trim();
+}
+
+function messageText(message: OpenAIChatMessage, index: number): string {
+  if (typeof message.content === 'string') return message.content;
+  if (message.content === null || message.content === undefined) return '';
+  if (!Array.isArray(message.content)) {
+    throw new OpenAIRequestError(
+      400,
+      `messages[${index}].content must be a string or an array of parts.`,
+      'invalid_request',
+      `messages[${index}].content`,
+    );
+  }
+
+  return message.content
+    .map((part) => {
+      if (part.type !== 'text') {
+        throw new OpenAIRequestError(
+          400,
+          `Content part type '${part.type}' is not supported; only text parts can be forwarded.`,
+          'invalid_request',
+          `messages[${index}].content`,
+        );
+      }
+      return part.text ?? '';
+    })
+    .join('\n');
+}
+
+export function completionResponse(params: {
+  id: string;
+  model: string;
+  created: number;
+  content: string;
+  truncated: boolean;
+}) {
+  return {
+    id: params.id,
+    object: 'chat.completion',
+    created: params.created,
+    model: params.model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: params.content },
+        finish_reason: params.truncated ? 'length' : 'stop',
+      },
+    ],
+  };
+}
+
+export function completionChunk(params: {
+  id: string;
+  model: string;
+  created: number;
+  delta: { role?: 'assistant'; content?: string };
+  finishReason?: 'stop' | 'length' | null;
+}) {
+  return {
+    id: params.id,
+    object: 'chat.completion.chunk',
+    created: params.created,
+    model: params.model,
+    choices: [{ index: 0, delta: params.delta, finish_reason: params.finishReason ?? null }],
+  };
+}
+
+export function errorBody(message: string, type: string, code: string, param?: string) {
+  return { error: { message, type, code, param: param ?? null } };
+}
@@ -0,0 +1,174 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getBlobsDir, getSessionsDir } from '../paths.js';
+
+/** Smaller file bodies aren't worth a file of their own. */
+const MIN_BLOB_SIZE = 1024;
+/** Unreferenced blobs younger than this may belong to a bundle being saved right now. */
+const BLOB_GRACE_MS = 60 * 60 * 1000;
+const BLOB_MARKER = /^<!-- douzhi-blob:([0-9a-f]{64}) -->$/;
+const CONTEXT_HEADING = /^# Context Files \(\d+\)/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+/**
+ * Move the file bodies of a bundle's Context Files section into the shared
+ * blob store and return the bundle with each body replaced by a marker line.
+ * The same file bundled by many sessions is stored once.
+ */
+export async function storeBundle(bundle: string): Promise<string> {
+  const lines = bundle.split('\n');
+  const stored: string[] = [];
+  let inContext = false;
+  let fence: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence) {
+      stored.push(line);
+      if (isClosingFence(line, fence)) fence = undefined;
+      continue;
+    }
+    if (line.startsWith('# ')) inContext = CONTEXT_HEADING.test(line);
+
+    const opening = line.match(FENCE);
+    if (!opening) {
+      stored.push(line);
+      continue;
+    }
+    const end = lines.findIndex((candidate, j) => j > i && isClosingFence(candidate, opening[1]));
+    const isFileBody = inContext && isFileBodyStart(lines, i);
+    const body = end === -1 ? '' : lines.slice(i, end + 1).join('\n');
+    if (!isFileBody || body.length < MIN_BLOB_SIZE) {
+      stored.push(line);
+      fence = opening[1];
+      continue;
+    }
+    stored.push(`<!-- douzhi-blob:${await writeBlob(body)} -->`);
+    i = end;
+  }
+  return stored.join('\n');
+}
+
+/**
+ * Restore the file bodies `storeBundle` moved out; bundles without markers
+ * pass through, as do marker-like lines in the prompt or anywhere else
+ * `storeBundle` would not have put one.
+ */
+export async function expandBundle(stored: string): Promise<string> {
+  const lines = stored.split('\n');
+  for (const [index, hash] of findBlobMarkers(lines)) {
+    // A missing blob leaves its marker in place rather than failing the whole bundle
+    const body = await readFile(blobPath(hash), 'utf-8').catch(() => null);
+    if (body !== null) lines[index] = body;
+  }
+  return lines.join('\n');
+}
+
+/** Read a saved `bundle.md` with its file bodies restored. */
+export async function readBundle(filePath: string): Promise<string> {
+  return expandBundle(await readFile(filePath, 'utf-8'));
+}
+
+/** Hashes of the blobs a stored bundle refers to. */
+export function bundleBlobs(stored: string): string[] {
+  return [...findBlobMarkers(stored.split('\n')).values()];
+}
+
+/** Size of every stored blob, by hash. */
+export async function listBlobs(): Promise<Map<string, number>> {
+  const blobs = new Map<string, number>();
+  const shards = await readdir(getBlobsDir()).catch(() => [] as string[]);
+  for (const shard of shards) {
+    for (const hash of await readdir(path.join(getBlobsDir(), shard)).catch(() => [])) {
+      if (!/^[0-9a-f]{64}$/.test(hash)) continue;
+      const blobStat = await stat(blobPath(hash)).catch(() => null);
+      if (blobStat) blobs.set(hash, blobStat.size);
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Delete blobs no saved bundle refers to any more; returns the bytes freed.
+ * Recently written blobs are kept, since their bundle may not be saved yet.
+ */
+export async function collectBlobGarbage(): Promise<number> {
+  const referenced = new Set<string>();
+  for (const bundlePath of await listBundlePaths()) {
+    const stored = await readFile(bundlePath, 'utf-8').catch(() => '');
+    for (const hash of bundleBlobs(stored)) referenced.add(hash);
+  }
+
+  let freed = 0;
+  for (const [hash, size] of await listBlobs()) {
+    if (referenced.has(hash)) continue;
+    const blobStat = await stat(blobPath(hash)).catch(() => null);
+    if (!blobStat || Date.now() - blobStat.mtimeMs < BLOB_GRACE_MS) continue;
+    await rm(blobPath(hash), { force: true });
+    freed += size;
+  }
+  return freed;
+}
+
+async function listBundlePaths(): Promise<string[]> {
+  const paths: string[] = [];
+  for (const sessionId of await readdir(getSessionsDir()).catch(() => [] as string[])) {
+    const sessionDir = path.join(getSessionsDir(), sessionId);
+    paths.push(path.join(sessionDir, 'bundle.md'));
+    for (const turn of await readdir(path.join(sessionDir, 'turns')).catch(() => [])) {
+      paths.push(path.join(sessionDir, 'turns', turn, 'bundle.md'));
+    }
+  }
+  return paths;
+}
+
+async function writeBlob(content: string): Promise<string> {
+  const hash = createHash('sha256').update(content).digest('hex');
+  const filePath = blobPath(hash);
+  try {
+    // Touch an existing blob so garbage collection sees it as in use
+    const now = new Date();
+    await utimes(filePath, now, now);
+  } catch {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename, so a session bundling the same file never reads half a blob
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await writeFile(temporary, content, 'utf-8');
+    await rename(temporary, filePath);
+  }
+  return hash;
+}
+
+function blobPath(hash: string): string {
+  return path.join(getBlobsDir(), hash.slice(0, 2), hash);
+}
+
+/** Markers standing in for file bodies, by line index. */
+function findBlobMarkers(lines: string[]): Map<number, string> {
+  const markers = new Map<number, string>();
+  let inContext = false;
+  let fence: string | undefined;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence) {
+      if (isClosingFence(line, fence)) fence = undefined;
+      continue;
+    }
+    if (line.startsWith('# ')) inContext = CONTEXT_HEADING.test(line);
+    fence = line.match(FENCE)?.[1];
+    const marker = line.match(BLOB_MARKER);
+    if (marker && inContext && isFileBodyStart(lines, i)) markers.set(i, marker[1]);
+  }
+  return markers;
+}
+
+/** Only a body right under its `## path` heading, as `planBundle` writes it. */
+function isFileBodyStart(lines: string[], index: number): boolean {
+  return lines[index - 1] === '' && (lines[index - 2]?.startsWith('## ') ?? false);
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length && trimmed === fence[0].repeat(trimmed.length);
+}
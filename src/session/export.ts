@@ -0,0 +1,383 @@
+import { access, mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { listBundledFiles } from '../core/extract.js';
+import { getSessionDir, getSessionTurnDir } from '../paths.js';
+import type { Citation, SessionContents, SessionMeta, SessionTurn } from '../types.js';
+import { checkName, getSessionContents, saveBundle } from './store.js';
+
+export const EXPORT_FORMATS = ['md', 'html', 'jsonl'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const RECORD_FORMAT = 'douzhi-chat-session';
+const RECORD_VERSION = 1;
+/** Marks the machine-readable copy embedded in Markdown and HTML exports. */
+const EMBED_MARKER = 'douzhi-chat-export';
+/** Section headings `planBundle` puts after the prompt. */
+const BUNDLE_SECTION = /^# (?:Stdin$|Selection \(|Diff \(|Context Files \()/;
+
+/**
+ * One turn of an exported session. Every line of a JSONL export is one
+ * record, so the file doubles as an eval dataset (prompt → response); the
+ * full session metadata rides along on each line for `importSessions`.
+ */
+export interface SessionExportRecord {
+  format: typeof RECORD_FORMAT;
+  version: number;
+  session: SessionMeta;
+  turn: SessionTurn;
+  prompt: string;
+  files: string[];
+  bundle: string | null;
+  response: string | null;
+  citations: Citation[];
+}
+
+export interface ImportedSession {
+  id: string;
+  turns: number;
+  /** False when the session already existed and `overwrite` wasn't set. */
+  imported: boolean;
+}
+
+/** Export sessions as one Markdown or HTML transcript, or as JSONL records. */
+export async function exportSessions(ids: string[], format: ExportFormat): Promise<string> {
+  const sessions: SessionContents[] = [];
+  for (const id of ids) {
+    const contents = await getSessionContents(id).catch(() => null);
+    if (!contents) throw new Error(`Session not found: ${id}`);
+    sessions.push(contents);
+  }
+
+  const records = sessions.map(toRecords);
+  const jsonl = records
+    .flat()
+    .map((record) => JSON.stringify(record))
+    .join('\n');
+  if (format === 'jsonl') return `${jsonl}\n`;
+  if (format === 'md') {
+    // Inside a JSON string `-->` can only appear escaped, so the comment stays closed
+    const transcripts = records.map(markdownTranscript).join('\n---\n\n');
+    return `${transcripts}\n<!-- ${EMBED_MARKER}\n${jsonl.replace(/-->/g, '--\\u003e')}\n-->\n`;
+  }
+  return htmlDocument(records, jsonl.replace(/</g, '\\u003c'));
+}
+
+function toRecords({ meta, turns }: SessionContents): SessionExportRecord[] {
+  return turns.map(({ bundle, response, citations, ...turn }) => ({
+    format: RECORD_FORMAT,
+    version: RECORD_VERSION,
+    session: meta,
+    turn,
+    prompt: bundle ? bundlePrompt(bundle) : turn.promptPreview,
+    files: bundle ? listBundledFiles(bundle) : [],
+    bundle,
+    response,
+    citations,
+  }));
+}
+
+/** The prompt is whatever precedes the first stdin, selection, diff or files section. */
+function bundlePrompt(bundle: string): string {
+  const lines = bundle.split('\n');
+  const end = lines.findIndex((line) => BUNDLE_SECTION.test(line));
+  return (end === -1 ? lines : lines.slice(0, end)).join('\n').trim();
+}
+
+function metadataRows(meta: SessionMeta): Array<[string, string]> {
+  const rows: Array<[string, string | undefined]> = [
+    ['Session', meta.id],
+    ['Name', meta.name],
+    ['Tags', meta.tags?.length ? meta.tags.join(', ') : undefined],
+    ['Provider', meta.provider],
+    ['Model', meta.model],
+    ['Status', meta.status],
+    ['Created', meta.createdAt],
+    ['Duration', meta.durationMs ? `${Math.round(meta.durationMs / 1000)}s` : undefined],
+    ['Thread', meta.conversationUrl],
+    [
+      'Repository',
+      meta.repository &&
+        `${meta.repository.root}${meta.repository.branch ? ` (${meta.repository.branch})` : ''}`,
+    ],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== undefined);
+}
+
+function transcriptTitle(meta: SessionMeta): string {
+  const preview = meta.promptPreview.split('\n')[0].trim();
+  return preview.length > 80 ? `${preview.slice(0, 80)}…` : preview || meta.id;
+}
+
+function markdownTranscript(records: SessionExportRecord[]): string {
+  const meta = records[0].session;
+  const lines = [`# ${transcriptTitle(meta)}`, '', '| | |', '| --- | --- |'];
+  for (const [label, value] of metadataRows(meta)) {
+    lines.push(`| ${label} | ${value.replace(/\|/g, '\\|')} |`);
+  }
+
+  for (const record of records) {
+    lines.push('', `## Turn ${record.turn.index} · ${record.turn.status}`, '', '### Prompt', '');
+    lines.push(...record.prompt.split('\n').map((line) => (line ? `> ${line}` : '>')));
+    if (record.files.length > 0) {
+      lines.push('', `### Files (${record.files.length})`, '');
+      lines.push(...record.files.map((file) => `- \`${file}\``));
+    }
+    lines.push('', '### Response', '', record.response?.trim() || '_No response captured._');
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function htmlDocument(records: SessionExportRecord[][], payload: string): string {
+  const title = records.length === 1 ? transcriptTitle(records[0][0].session) : 'Sessions';
+  const body = records.map((session) => {
+    const meta = session[0].session;
+    const rows = metadataRows(meta)
+      .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`)
+      .join('');
+    const turns = session.map((record) => {
+      const files = record.files.length
+        ? `<h3>Files (${record.files.length})</h3><ul>${record.files
+            .map((file) => `<li><code>${escapeHtml(file)}</code></li>`)
+            .join('')}</ul>`
+        : '';
+      const response = record.response?.trim()
+        ? renderMarkdown(record.response)
+        : '<p><em>No response captured.</em></p>';
+      return (
+        `<h2>Turn ${record.turn.index} · ${record.turn.status}</h2>` +
+        `<h3>Prompt</h3><blockquote>${renderMarkdown(record.prompt)}</blockquote>` +
+        `${files}<h3>Response</h3><div class="response">${response}</div>`
+      );
+    });
+    return `<article><h1>${escapeHtml(transcriptTitle(meta))}</h1><table>${rows}</table>${turns.join('')}</article>`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    body.join('<hr>'),
+    `<script type="application/x-ndjson" id="${EMBED_MARKER}">\n${payload}\n</script>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+const HTML_STYLE = [
+  'body{font:15px/1.6 system-ui,sans-serif;max-width:860px;margin:2rem auto;padding:0 1rem;color:#1f2328}',
+  'table{border-collapse:collapse;margin-bottom:1rem}th,td{text-align:left;padding:2px 12px 2px 0}',
+  'th{color:#59636e;font-weight:500}blockquote{margin:0;padding:0 1rem;border-left:3px solid #d1d9e0}',
+  'pre{background:#f6f8fa;padding:12px;overflow:auto;border-radius:6px}',
+  'code{font:13px ui-monospace,monospace}hr{margin:3rem 0}',
+].join('');
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Just enough markdown for responses: fences, headings, lists, quotes and inline marks. */
+function renderMarkdown(markdown: string): string {
+  const html: string[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+
+  const flush = () => {
+    if (paragraph.length) html.push(`<p>${inline(paragraph.join(' '))}</p>`);
+    if (list) {
+      const items = list.items.map((item) => `<li>${inline(item)}</li>`).join('');
+      html.push(`<${list.tag}>${items}</${list.tag}>`);
+    }
+    paragraph = [];
+    list = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i]);
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const item = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      flush();
+      // Keep response headings below the transcript's own h1–h3
+      const level = Math.min(6, heading[1].length + 3);
+      html.push(`<h${level}>${inline(heading[2])}</h${level}>`);
+    } else if (item) {
+      const tag = item[1] ? 'ul' : 'ol';
+      if (paragraph.length || list?.tag !== tag) flush();
+      list ??= { tag, items: [] };
+      list.items.push(item[2]);
+    } else if (line.startsWith('>')) {
+      flush();
+      html.push(`<blockquote>${inline(line.replace(/^>\s?/, ''))}</blockquote>`);
+    } else if (!line.trim()) {
+      flush();
+    } else if (list && /^\s/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return html.join('\n');
+}
+
+function inline(text: string): string {
+  return escapeHtml(text)
+    .split(/(`[^`]+`)/)
+    .map((part) =>
+      part.startsWith('`') && part.endsWith('`') && part.length > 1
+        ? `<code>${part.slice(1, -1)}</code>`
+        : part
+            .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+            .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+            .replace(
+              /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g,
+              (_, label: string, url: string) => `<a href="${url}">${label}</a>`,
+            ),
+    )
+    .join('');
+}
+
+/**
+ * Restore sessions from an export in any format: JSONL as is, Markdown and
+ * HTML through the copy embedded at their end. Existing sessions are kept
+ * unless `overwrite` is set. The whole file is checked before anything is
+ * written, so a bad record never leaves a session half imported.
+ */
+export async function importSessions(
+  content: string,
+  opts: { overwrite?: boolean } = {},
+): Promise<ImportedSession[]> {
+  const grouped = new Map<string, SessionExportRecord[]>();
+  for (const record of parseExport(content)) {
+    grouped.set(record.session.id, [...(grouped.get(record.session.id) ?? []), record]);
+  }
+
+  const plans: Array<{
+    id: string;
+    records: SessionExportRecord[];
+    write: boolean;
+    name?: string;
+  }> = [];
+  const names = new Set<string>();
+  for (const [id, records] of grouped) {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid session ID in export: ${id}`);
+    const indexes = new Set(records.map(({ turn }) => turn.index));
+    if (indexes.size < records.length) {
+      throw new Error(`Session ${id} repeats a turn index in the export`);
+    }
+    const exists = await access(path.join(getSessionDir(id), 'meta.json')).then(
+      () => true,
+      () => false,
+    );
+    const write = !exists || opts.overwrite === true;
+    let { name } = records[0].session;
+    if (write && name !== undefined) {
+      // Names must stay unique across the store and within this import
+      name = await checkName(name, id);
+      if (names.has(name)) throw new Error(`Session name already in use: ${name}`);
+      names.add(name);
+    }
+    plans.push({ id, records, write, name });
+  }
+
+  const imported: ImportedSession[] = [];
+  for (const { id, records, write, name } of plans) {
+    if (!write) {
+      imported.push({ id, turns: records.length, imported: false });
+      continue;
+    }
+
+    records.sort((a, b) => a.turn.index - b.turn.index);
+    // Legacy single-turn sessions come back in the per-turn layout
+    const meta: SessionMeta = {
+      ...records[0].session,
+      name,
+      turns: records.map(({ turn }) => turn),
+    };
+    // Turns the export doesn't have must not outlive an overwrite
+    await rm(path.join(getSessionDir(id), 'turns'), { recursive: true, force: true });
+    for (const record of records) {
+      const dir = getSessionTurnDir(id, record.turn.index);
+      await mkdir(dir, { recursive: true });
+      if (record.bundle !== null) await saveBundle(id, record.bundle, record.turn.index);
+      if (record.response === null) continue;
+      await writeFile(path.join(dir, 'response.md'), record.response);
+      if (record.citations.length > 0) {
+        const response = { text: record.response, markdown: record.response };
+        await writeFile(
+          path.join(dir, 'response.json'),
+          JSON.stringify({ ...response, citations: record.citations }, null, 2),
+        );
+      }
+    }
+    await writeFile(path.join(getSessionDir(id), 'meta.json'), JSON.stringify(meta, null, 2));
+    imported.push({ id, turns: records.length, imported: true });
+  }
+  return imported;
+}
+
+function parseExport(content: string): SessionExportRecord[] {
+  const embedded =
+    content.match(new RegExp(`<!-- ${EMBED_MARKER}\\n([\\s\\S]*?)\\n-->`)) ??
+    content.match(new RegExp(`<script[^>]*id="${EMBED_MARKER}"[^>]*>([\\s\\S]*?)</script>`));
+  const lines = (embedded ? embedded[1] : content).split('\n').filter((line) => line.trim());
+
+  return lines.map((line, i) => {
+    let record: SessionExportRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Not a session export: line ${i + 1} is not JSON`);
+    }
+    if (record?.format !== RECORD_FORMAT || typeof record.session?.id !== 'string') {
+      throw new Error(`Not a session export: line ${i + 1} is not a ${RECORD_FORMAT} record`);
+    }
+    if (record.version > RECORD_VERSION) {
+      throw new Error(`Unsupported export version ${record.version}; upgrade douzhi-chat`);
+    }
+    const problem = recordProblem(record);
+    if (problem) throw new Error(`Invalid session export: line ${i + 1} ${problem}`);
+    return record;
+  });
+}
+
+/** What's wrong with a record's fields, if anything. */
+function recordProblem(record: SessionExportRecord): string | undefined {
+  if (record.session.name !== undefined && typeof record.session.name !== 'string') {
+    return 'has a session name that is not text';
+  }
+  const index = record.turn?.index;
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 1) {
+    return 'has no positive integer turn.index';
+  }
+  if (record.bundle !== null && typeof record.bundle !== 'string') {
+    return 'has a bundle that is neither text nor null';
+  }
+  if (record.response !== null && typeof record.response !== 'string') {
+    return 'has a response that is neither text nor null';
+  }
+  if (!Array.isArray(record.citations)) return 'has no citations list';
+  return undefined;
+}
@@ -1,8 +1,40 @@
+export { expandBundle, readBundle } from './blobs.js';
 export {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportSessions,
+  type ImportedSession,
+  importSessions,
+  type SessionExportRecord,
+} from './export.js';
+export {
+  applyRetentionPolicy,
+  getStorageUsage,
+  type PruneOptions,
+  type PruneResult,
+  pruneSessions,
+  type StorageUsage,
+} from './retention.js';
+export {
+  indexSessionTurn,
+  type SearchedFile,
+  type SearchFilters,
+  type SearchHit,
+  type SearchSnippet,
+  searchSessions,
+  syncSearchIndex,
+} from './search.js';
+export {
+  addSessionTurn,
   createSession,
   getSession,
+  getSessionContents,
   listSessions,
+  resolveSessionId,
+  type SessionDetails,
+  type SessionFilters,
   saveBundle,
   saveResponse,
+  sessionProject,
   updateSession,
 } from './store.js';
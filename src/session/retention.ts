@@ -0,0 +1,182 @@
+import { readdir, readFile, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { getSessionDir, getSessionsDir } from '../paths.js';
+import type { RetentionPolicy, SessionMeta, SessionStatus } from '../types.js';
+import { bundleBlobs, collectBlobGarbage, listBlobs } from './blobs.js';
+import { listSessions } from './store.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+/** Sessions that may still be written to are never pruned by the retention policy. */
+const ACTIVE_STATUSES: SessionStatus[] = ['pending', 'running'];
+
+export interface PruneOptions {
+  /** Only sessions not updated for this long. */
+  olderThanMs?: number;
+  /** Only sessions with one of these statuses. */
+  statuses?: SessionStatus[];
+  /** Sessions that are never removed. */
+  keep?: string[];
+  /** Report what would be removed without deleting anything. */
+  dryRun?: boolean;
+}
+
+export interface PruneResult {
+  /** Removed sessions, oldest first. */
+  removed: SessionMeta[];
+  /** Disk space of the removed sessions, including file bodies no other session shares. */
+  freedBytes: number;
+}
+
+export interface StorageUsage {
+  sessions: number;
+  sessionBytes: number;
+  /** Bundled file bodies shared between sessions. */
+  blobBytes: number;
+  totalBytes: number;
+}
+
+interface StoredSession {
+  meta: SessionMeta;
+  bytes: number;
+  blobs: string[];
+}
+
+/** Delete sessions matching every given criterion. */
+export async function pruneSessions(opts: PruneOptions = {}): Promise<PruneResult> {
+  const cutoff = opts.olderThanMs === undefined ? undefined : Date.now() - opts.olderThanMs;
+  const plan = await planRemoval(opts.keep);
+  for (const session of plan.oldestFirst) {
+    const updated = new Date(session.meta.updatedAt).getTime();
+    if (cutoff !== undefined && updated >= cutoff) continue;
+    if (opts.statuses?.length && !opts.statuses.includes(session.meta.status)) continue;
+    plan.remove(session);
+  }
+  return plan.commit(opts.dryRun);
+}
+
+/**
+ * Enforce the configured retention policy: drop sessions past the age limit,
+ * then the oldest finished sessions until the count and size limits hold.
+ */
+export async function applyRetentionPolicy(
+  policy: RetentionPolicy | undefined,
+  opts: Pick<PruneOptions, 'keep' | 'dryRun'> = {},
+): Promise<PruneResult> {
+  if (!policy || (!policy.maxAgeDays && !policy.maxSessions && !policy.maxTotalMb)) {
+    return { removed: [], freedBytes: 0 };
+  }
+
+  const plan = await planRemoval(opts.keep);
+  if (policy.maxAgeDays) {
+    const cutoff = Date.now() - policy.maxAgeDays * DAY_MS;
+    for (const session of plan.oldestFirst) {
+      if (ACTIVE_STATUSES.includes(session.meta.status)) continue;
+      if (new Date(session.meta.updatedAt).getTime() < cutoff) plan.remove(session);
+    }
+  }
+  for (const session of plan.oldestFirst) {
+    const overCount = policy.maxSessions !== undefined && plan.count() > policy.maxSessions;
+    const overSize = policy.maxTotalMb !== undefined && plan.totalBytes() > policy.maxTotalMb * MB;
+    if (!overCount && !overSize) break;
+    if (!ACTIVE_STATUSES.includes(session.meta.status)) plan.remove(session);
+  }
+  return plan.commit(opts.dryRun);
+}
+
+/** Disk space taken by sessions and the file bodies they share. */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const entries = await readdir(getSessionsDir(), { withFileTypes: true }).catch(() => []);
+  const sessionBytes = await directorySize(getSessionsDir());
+  let blobBytes = 0;
+  for (const size of (await listBlobs()).values()) blobBytes += size;
+  return {
+    sessions: entries.filter((entry) => entry.isDirectory()).length,
+    sessionBytes,
+    blobBytes,
+    totalBytes: sessionBytes + blobBytes,
+  };
+}
+
+/**
+ * Track which sessions are marked for removal, and what the store would
+ * weigh afterwards: a shared file body only goes once nothing refers to it.
+ */
+async function planRemoval(keep: string[] = []) {
+  const sessions: StoredSession[] = [];
+  for (const meta of await listSessions({ hours: Number.POSITIVE_INFINITY })) {
+    sessions.push(await loadStoredSession(meta));
+  }
+  // Oldest activity first, so a continued old session counts as recent
+  sessions.sort(
+    (a, b) => new Date(a.meta.updatedAt).getTime() - new Date(b.meta.updatedAt).getTime(),
+  );
+  const blobSizes = await listBlobs();
+  const references = new Map<string, number>();
+  let totalBytes = 0;
+  for (const session of sessions) {
+    totalBytes += session.bytes;
+    for (const hash of session.blobs) references.set(hash, (references.get(hash) ?? 0) + 1);
+  }
+  for (const [hash, size] of blobSizes) {
+    if (references.has(hash)) totalBytes += size;
+  }
+
+  const removed: StoredSession[] = [];
+  const initialBytes = totalBytes;
+  return {
+    oldestFirst: sessions.filter((session) => !keep.includes(session.meta.id)),
+    count: () => sessions.length - removed.length,
+    totalBytes: () => totalBytes,
+    remove(session: StoredSession) {
+      if (removed.includes(session)) return;
+      removed.push(session);
+      totalBytes -= session.bytes;
+      for (const hash of session.blobs) {
+        const remaining = (references.get(hash) ?? 0) - 1;
+        references.set(hash, remaining);
+        if (remaining === 0) totalBytes -= blobSizes.get(hash) ?? 0;
+      }
+    },
+    async commit(dryRun = false): Promise<PruneResult> {
+      if (!dryRun && removed.length > 0) {
+        for (const session of removed) {
+          await rm(getSessionDir(session.meta.id), { recursive: true, force: true });
+        }
+        await collectBlobGarbage();
+      }
+      return {
+        removed: removed.map((session) => session.meta),
+        freedBytes: initialBytes - totalBytes,
+      };
+    },
+  };
+}
+
+async function loadStoredSession(meta: SessionMeta): Promise<StoredSession> {
+  const dir = getSessionDir(meta.id);
+  const bundles = [path.join(dir, 'bundle.md')];
+  for (const turn of await readdir(path.join(dir, 'turns')).catch(() => [])) {
+    bundles.push(path.join(dir, 'turns', turn, 'bundle.md'));
+  }
+  const blobs = new Set<string>();
+  for (const bundle of bundles) {
+    for (const hash of bundleBlobs(await readFile(bundle, 'utf-8').catch(() => ''))) {
+      blobs.add(hash);
+    }
+  }
+  return { meta, bytes: await directorySize(dir), blobs: [...blobs] };
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await readdir(dir, { withFileTypes: true }).catch(() => [])) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else {
+      total += (await stat(entryPath).catch(() => null))?.size ?? 0;
+    }
+  }
+  return total;
+}
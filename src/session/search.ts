@@ -0,0 +1,365 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getSearchIndexPath, getSessionDir, getSessionsDir, getSessionTurnDir } from '../paths.js';
+import type { ProviderName, SessionMeta, SessionStatus } from '../types.js';
+import { readBundle } from './blobs.js';
+
+const INDEX_VERSION = 1;
+const SEARCHED_FILES = ['response', 'bundle'] as const;
+/** Characters of context kept on each side of a snippet's first match. */
+const SNIPPET_CONTEXT = 80;
+const WORD = /[\p{L}\p{N}_]+/gu;
+const CJK_RANGES = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff';
+const CJK = new RegExp(`[${CJK_RANGES}]+`, 'gu');
+const HAS_CJK = new RegExp(`[${CJK_RANGES}]`, 'u');
+
+export type SearchedFile = (typeof SEARCHED_FILES)[number];
+
+interface IndexedDocument {
+  mtimeMs: number;
+  size: number;
+  /** Distinct terms, so the document can be dropped from postings on re-index. */
+  terms: string[];
+}
+
+/**
+ * Postings are keyed by words from prompts and responses, so every map in
+ * the index has a null prototype: `__proto__` or `constructor` are terms too.
+ */
+interface SearchIndex {
+  version: number;
+  /** Keyed by `<sessionId>/<turn>/<file>`. */
+  docs: Record<string, IndexedDocument>;
+  /** Term → document key → occurrences. */
+  postings: Record<string, Record<string, number>>;
+}
+
+export interface SearchFilters {
+  provider?: ProviderName;
+  /** Case-insensitive substring of the session's model. */
+  model?: string;
+  status?: SessionStatus;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface SearchSnippet {
+  file: SearchedFile;
+  text: string;
+  /** `[start, end)` offsets of query matches within `text`. */
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchHit {
+  session: SessionMeta;
+  turn: number;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Search bundles and responses across every session. All query words must
+ * appear in the turn (`word*` matches by prefix); CJK text matches by
+ * character pairs, so it needs no word breaks. The index catches up with
+ * sessions written outside `saveResponse` before each search.
+ */
+export async function searchSessions(
+  query: string,
+  filters: SearchFilters = {},
+): Promise<SearchHit[]> {
+  const queryTerms = parseQuery(query);
+  if (queryTerms.length === 0) {
+    throw new Error('Search query has no searchable words.');
+  }
+  const index = await syncSearchIndex();
+  const documentCount = Math.max(1, Object.keys(index.docs).length);
+
+  // Score turns (both files together) that contain every query term
+  const turnScores = new Map<string, number>();
+  let candidates: Set<string> | undefined;
+  for (const { term, prefix } of queryTerms) {
+    const matching = prefix
+      ? Object.keys(index.postings).filter((candidate) => candidate.startsWith(term))
+      : [term];
+    const turns = new Map<string, number>();
+    for (const matched of matching) {
+      const postings = Object.hasOwn(index.postings, matched) ? index.postings[matched] : {};
+      const idf = Math.log(1 + documentCount / Object.keys(postings).length);
+      for (const [key, count] of Object.entries(postings)) {
+        const turnKey = key.slice(0, key.lastIndexOf('/'));
+        turns.set(turnKey, (turns.get(turnKey) ?? 0) + Math.log(1 + count) * idf);
+      }
+    }
+    candidates = new Set([...turns.keys()].filter((key) => !candidates || candidates.has(key)));
+    for (const [key, score] of turns) {
+      if (candidates.has(key)) turnScores.set(key, (turnScores.get(key) ?? 0) + score);
+    }
+  }
+
+  const metas = new Map<string, SessionMeta | null>();
+  const hits: SearchHit[] = [];
+  for (const turnKey of candidates ?? []) {
+    const [sessionId, turnText] = turnKey.split('/');
+    if (!metas.has(sessionId)) metas.set(sessionId, await readMeta(sessionId));
+    const session = metas.get(sessionId);
+    if (!session || !matchesFilters(session, filters)) continue;
+
+    const turn = Number(turnText);
+    hits.push({
+      session,
+      turn,
+      score: turnScores.get(turnKey) ?? 0,
+      snippets: await turnSnippets(session, turn, queryTerms),
+    });
+  }
+
+  return hits
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.session.createdAt).getTime() - new Date(a.session.createdAt).getTime(),
+    )
+    .slice(0, filters.limit ?? 20);
+}
+
+function matchesFilters(session: SessionMeta, filters: SearchFilters): boolean {
+  const created = new Date(session.createdAt).getTime();
+  return (
+    (!filters.provider || session.provider === filters.provider) &&
+    (!filters.model || (session.model ?? '').toLowerCase().includes(filters.model.toLowerCase())) &&
+    (!filters.status || session.status === filters.status) &&
+    (!filters.since || created >= filters.since.getTime()) &&
+    (!filters.until || created <= filters.until.getTime())
+  );
+}
+
+/** Add or refresh one turn's bundle and response in the index. */
+export async function indexSessionTurn(sessionId: string, turn: number): Promise<void> {
+  await enqueue(async () => {
+    const index = await readIndex();
+    const meta = await readMeta(sessionId);
+    if (!meta) return;
+    for (const file of SEARCHED_FILES) {
+      await indexFile(index, `${sessionId}/${turn}/${file}`, turnFilePath(meta, turn, file));
+    }
+    await writeIndex(index);
+  });
+}
+
+/**
+ * Bring the index up to date with the sessions directory: index new or
+ * changed files and drop those whose session was deleted.
+ */
+export async function syncSearchIndex(): Promise<SearchIndex> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    const seen = new Set<string>();
+    let changed = false;
+
+    const entries = await readdir(getSessionsDir()).catch(() => [] as string[]);
+    for (const sessionId of entries) {
+      const meta = await readMeta(sessionId);
+      if (!meta) continue;
+      const turns = meta.turns?.length ? meta.turns.map((turn) => turn.index) : [1];
+      for (const turn of turns) {
+        for (const file of SEARCHED_FILES) {
+          const key = `${sessionId}/${turn}/${file}`;
+          seen.add(key);
+          changed = (await indexFile(index, key, turnFilePath(meta, turn, file))) || changed;
+        }
+      }
+    }
+
+    for (const key of Object.keys(index.docs)) {
+      if (!seen.has(key)) {
+        removeDocument(index, key);
+        changed = true;
+      }
+    }
+
+    if (changed) await writeIndex(index);
+    return index;
+  });
+}
+
+/** Index one file if it changed since it was last indexed; returns whether it did. */
+async function indexFile(index: SearchIndex, key: string, filePath: string): Promise<boolean> {
+  const fileStat = await stat(filePath).catch(() => null);
+  const existing = Object.hasOwn(index.docs, key) ? index.docs[key] : undefined;
+  if (!fileStat) {
+    if (!existing) return false;
+    removeDocument(index, key);
+    return true;
+  }
+  if (existing && existing.mtimeMs === fileStat.mtimeMs && existing.size === fileStat.size) {
+    return false;
+  }
+
+  removeDocument(index, key);
+  const counts = new Map<string, number>();
+  const text = key.endsWith('/bundle')
+    ? await readBundle(filePath)
+    : await readFile(filePath, 'utf-8');
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  for (const [term, count] of counts) {
+    if (!Object.hasOwn(index.postings, term)) index.postings[term] = dictionary();
+    index.postings[term][key] = count;
+  }
+  index.docs[key] = { mtimeMs: fileStat.mtimeMs, size: fileStat.size, terms: [...counts.keys()] };
+  return true;
+}
+
+function removeDocument(index: SearchIndex, key: string): void {
+  if (!Object.hasOwn(index.docs, key)) return;
+  for (const term of index.docs[key].terms) {
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const postings = index.postings[term];
+    delete postings[key];
+    if (Object.keys(postings).length === 0) delete index.postings[term];
+  }
+  delete index.docs[key];
+}
+
+/** Lowercased words, plus overlapping character pairs for CJK runs. */
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(WORD)) {
+    let latin = word;
+    for (const [run] of word.matchAll(CJK)) {
+      latin = latin.replace(run, ' ');
+      if (run.length === 1) terms.push(run);
+      for (let i = 0; i < run.length - 1; i++) terms.push(run.slice(i, i + 2));
+    }
+    terms.push(...latin.split(' ').filter(Boolean));
+  }
+  return terms;
+}
+
+interface QueryTerm {
+  term: string;
+  prefix: boolean;
+  /** Text to highlight in snippets. */
+  display: string;
+}
+
+function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  for (const part of query.split(/\s+/).filter(Boolean)) {
+    const prefix = part.endsWith('*');
+    const word = prefix ? part.slice(0, -1) : part;
+    for (const [run] of word.matchAll(CJK)) {
+      const pairs = run.length === 1 ? [run] : tokenize(run);
+      terms.push(...pairs.map((term) => ({ term, prefix: false, display: run })));
+    }
+    for (const latin of tokenize(word.replace(CJK, ' '))) {
+      terms.push({ term: latin, prefix, display: latin });
+    }
+  }
+  return terms;
+}
+
+async function turnSnippets(
+  session: SessionMeta,
+  turn: number,
+  queryTerms: QueryTerm[],
+): Promise<SearchSnippet[]> {
+  const snippets: SearchSnippet[] = [];
+  for (const file of SEARCHED_FILES) {
+    const filePath = turnFilePath(session, turn, file);
+    const text = await (file === 'bundle'
+      ? readBundle(filePath)
+      : readFile(filePath, 'utf-8')
+    ).catch(() => null);
+    const snippet = text ? makeSnippet(file, text, queryTerms) : undefined;
+    if (snippet) snippets.push(snippet);
+  }
+  return snippets;
+}
+
+function makeSnippet(
+  file: SearchedFile,
+  text: string,
+  queryTerms: QueryTerm[],
+): SearchSnippet | undefined {
+  const displays = new Map(queryTerms.map((term) => [term.display, term.prefix]));
+  const pattern = new RegExp(
+    [...displays]
+      .map(([display, prefix]) => {
+        const escaped = display.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (HAS_CJK.test(display)) return escaped;
+        // Latin words match whole words, or word starts for prefix terms
+        return `(?<![\\p{L}\\p{N}_])${escaped}${prefix ? '[\\p{L}\\p{N}_]*' : '(?![\\p{L}\\p{N}_])'}`;
+      })
+      .join('|'),
+    'giu',
+  );
+
+  const first = pattern.exec(text);
+  if (!first) return undefined;
+  const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first.index + first[0].length + SNIPPET_CONTEXT * 2);
+  const raw = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  const excerpt = raw.replace(/\s+/g, ' ');
+
+  const highlights: Array<[number, number]> = [];
+  pattern.lastIndex = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    highlights.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+  }
+  return { file, text: excerpt, highlights };
+}
+
+function turnFilePath(meta: SessionMeta, turn: number, file: SearchedFile): string {
+  // Sessions created before multi-turn support keep a single pair at the root
+  const dir = meta.turns?.length ? getSessionTurnDir(meta.id, turn) : getSessionDir(meta.id);
+  return path.join(dir, `${file}.md`);
+}
+
+async function readMeta(sessionId: string): Promise<SessionMeta | null> {
+  try {
+    const raw = await readFile(path.join(getSessionDir(sessionId), 'meta.json'), 'utf-8');
+    return JSON.parse(raw) as SessionMeta;
+  } catch {
+    return null;
+  }
+}
+
+async function readIndex(): Promise<SearchIndex> {
+  try {
+    const index = JSON.parse(await readFile(getSearchIndexPath(), 'utf-8')) as SearchIndex;
+    if (index.version === INDEX_VERSION) {
+      const postings = dictionary<Record<string, number>>();
+      for (const [term, docs] of Object.entries(index.postings)) postings[term] = dictionary(docs);
+      return { version: INDEX_VERSION, docs: dictionary(index.docs), postings };
+    }
+  } catch {
+    // Missing or unreadable: rebuild from scratch
+  }
+  return { version: INDEX_VERSION, docs: dictionary(), postings: dictionary() };
+}
+
+/** A record with no prototype, so any string is safe as a key. */
+function dictionary<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null) as Record<string, T>, entries);
+}
+
+async function writeIndex(index: SearchIndex): Promise<void> {
+  const indexPath = getSearchIndexPath();
+  await mkdir(path.dirname(indexPath), { recursive: true });
+  // Write then rename, so a concurrent reader never sees half an index
+  const temporary = `${indexPath}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(index), 'utf-8');
+  await rename(temporary, indexPath);
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Run index updates one at a time, so parallel fan-out saves don't drop each other's changes. */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
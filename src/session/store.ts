@@ -1,17 +1,44 @@
 import { randomUUID } from 'node:crypto';
-import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { access, mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import path from 'node:path';
-import { getSessionDir, getSessionsDir } from '../paths.js';
-import type { ProviderName, SessionMeta, SessionResult } from '../types.js';
+import { getSessionDir, getSessionsDir, getSessionTurnDir } from '../paths.js';
+import type {
+  CapturedResponse,
+  Citation,
+  ProviderName,
+  SessionContents,
+  SessionMeta,
+  SessionResult,
+  SessionTurn,
+  SessionTurnResult,
+} from '../types.js';
+import { readBundle, storeBundle } from './blobs.js';
+import { indexSessionTurn } from './search.js';
+
+/** Name, tags, the place a chat was started from and any providers skipped, recorded with its session. */
+export type SessionDetails = Partial<
+  Pick<SessionMeta, 'name' | 'tags' | 'cwd' | 'repository' | 'skippedProviders'>
+>;
+
+/** Filters for `listSessions`; all given filters must match. */
+export interface SessionFilters {
+  hours?: number;
+  provider?: ProviderName;
+  tag?: string;
+  /** Repository or directory name, or a path inside it. */
+  project?: string;
+}
 
 /** Create a new session and return its metadata. */
 export async function createSession(
   provider: ProviderName,
   promptPreview: string,
   model?: string,
+  details: SessionDetails = {},
 ): Promise<SessionMeta> {
   const id = randomUUID();
   const now = new Date().toISOString();
+  const name = details.name === undefined ? undefined : await checkName(details.name);
   const meta: SessionMeta = {
     id,
     provider,
@@ -20,45 +47,109 @@ export async function createSession(
     createdAt: now,
     updatedAt: now,
     status: 'pending',
+    turns: [],
+    name,
+    tags: details.tags?.length ? normalizeTags(details.tags) : undefined,
+    cwd: details.cwd,
+    repository: details.repository,
+    skippedProviders: details.skippedProviders?.length ? details.skippedProviders : undefined,
   };
 
   const dir = getSessionDir(id);
   await mkdir(dir, { recursive: true });
-  await writeFile(path.join(dir, 'meta.json'), JSON.stringify(meta, null, 2));
+  await writeMeta(meta);
   return meta;
 }
 
-/** Update session status and optional duration. */
+/**
+ * Update session status, duration, model, conversation URL, name or tags.
+ * Status and duration are mirrored onto the latest turn.
+ */
 export async function updateSession(
   sessionId: string,
-  update: Partial<Pick<SessionMeta, 'status' | 'durationMs' | 'model'>>,
+  update: Partial<
+    Pick<SessionMeta, 'status' | 'durationMs' | 'model' | 'conversationUrl' | 'name' | 'tags'>
+  >,
 ): Promise<SessionMeta> {
-  const dir = getSessionDir(sessionId);
-  const metaPath = path.join(dir, 'meta.json');
-  const raw = await readFile(metaPath, 'utf-8');
-  const meta: SessionMeta = JSON.parse(raw);
+  const meta = await readMeta(sessionId);
+  if (update.name !== undefined) update.name = await checkName(update.name, sessionId);
+  if (update.tags) update.tags = normalizeTags(update.tags);
 
   Object.assign(meta, update, { updatedAt: new Date().toISOString() });
-  await writeFile(metaPath, JSON.stringify(meta, null, 2));
+
+  const latest = meta.turns?.at(-1);
+  if (latest) {
+    if (update.status) latest.status = update.status;
+    if (update.durationMs !== undefined) latest.durationMs = update.durationMs;
+  }
+
+  await writeMeta(meta);
   return meta;
 }
 
-/** Save the prompt bundle to the session directory. */
-export async function saveBundle(sessionId: string, bundle: string): Promise<string> {
-  const filePath = path.join(getSessionDir(sessionId), 'bundle.md');
-  await writeFile(filePath, bundle, 'utf-8');
+/** Append a new turn to a session and return it. */
+export async function addSessionTurn(sessionId: string, prompt: string): Promise<SessionTurn> {
+  const meta = await readMeta(sessionId);
+  const turns = meta.turns ?? [];
+  const turn: SessionTurn = {
+    index: turns.length + 1,
+    promptPreview: prompt.slice(0, 200),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+
+  meta.turns = [...turns, turn];
+  meta.status = 'pending';
+  meta.updatedAt = turn.createdAt;
+
+  await mkdir(getSessionTurnDir(sessionId, turn.index), { recursive: true });
+  await writeMeta(meta);
+  return turn;
+}
+
+/**
+ * Save the prompt bundle for a turn of the session. Large file bodies go to
+ * the shared blob store; read the bundle back with `readBundle`.
+ */
+export async function saveBundle(sessionId: string, bundle: string, turn = 1): Promise<string> {
+  const dir = getSessionTurnDir(sessionId, turn);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, 'bundle.md');
+  await writeFile(filePath, await storeBundle(bundle), 'utf-8');
   return filePath;
 }
 
-/** Save the assistant response to the session directory. */
-export async function saveResponse(sessionId: string, response: string): Promise<string> {
-  const filePath = path.join(getSessionDir(sessionId), 'response.md');
-  await writeFile(filePath, response, 'utf-8');
+/**
+ * Save the assistant response for a turn of the session. A captured response
+ * writes its markdown to `response.md` and the structured form (text,
+ * markdown, citations, model) to a sibling `response.json`.
+ */
+export async function saveResponse(
+  sessionId: string,
+  response: string | CapturedResponse,
+  turn = 1,
+): Promise<string> {
+  const dir = getSessionTurnDir(sessionId, turn);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, 'response.md');
+  if (typeof response === 'string') {
+    await writeFile(filePath, response, 'utf-8');
+  } else {
+    await writeFile(filePath, response.markdown || response.text, 'utf-8');
+    await writeFile(
+      path.join(dir, 'response.json'),
+      JSON.stringify({ ...response, citations: response.citations ?? [] }, null, 2),
+      'utf-8',
+    );
+  }
+
+  // Search catches up on its own, so a failed index update never fails the save
+  await indexSessionTurn(sessionId, turn).catch(() => undefined);
   return filePath;
 }
 
 /** List recent sessions, sorted by creation time (newest first). */
-export async function listSessions(opts: { hours?: number } = {}): Promise<SessionMeta[]> {
+export async function listSessions(opts: SessionFilters = {}): Promise<SessionMeta[]> {
   const { hours = 24 } = opts;
   const sessionsDir = getSessionsDir();
 
@@ -77,7 +168,7 @@ export async function listSessions(opts: { hours?: number } = {}): Promise<Sessi
       const metaPath = path.join(sessionsDir, entry, 'meta.json');
       const raw = await readFile(metaPath, 'utf-8');
       const meta: SessionMeta = JSON.parse(raw);
-      if (new Date(meta.createdAt).getTime() >= cutoff) {
+      if (new Date(meta.createdAt).getTime() >= cutoff && matchesFilters(meta, opts)) {
         sessions.push(meta);
       }
     } catch {
@@ -88,27 +179,168 @@ export async function listSessions(opts: { hours?: number } = {}): Promise<Sessi
   return sessions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
-/** Get a single session's full result (meta + file paths). */
-export async function getSession(sessionId: string): Promise<SessionResult> {
+function matchesFilters(meta: SessionMeta, filters: SessionFilters): boolean {
+  if (filters.provider && meta.provider !== filters.provider) return false;
+  if (filters.tag && !meta.tags?.includes(filters.tag.replace(/^#/, ''))) return false;
+  if (filters.project) {
+    const project = filters.project;
+    const dirs = [meta.repository?.root, meta.cwd].filter((dir): dir is string => !!dir);
+    const resolved = path.resolve(project);
+    return dirs.some(
+      (dir) =>
+        path.basename(dir).toLowerCase() === project.toLowerCase() ||
+        resolved === dir ||
+        resolved.startsWith(`${dir}${path.sep}`),
+    );
+  }
+  return true;
+}
+
+/** Repository (or else working directory) name a session belongs to. */
+export function sessionProject(meta: SessionMeta): string | undefined {
+  const dir = meta.repository?.root ?? meta.cwd;
+  return dir ? path.basename(dir) : undefined;
+}
+
+/**
+ * Resolve a session reference to its ID: an exact ID, a session name, or a
+ * unique ID prefix, in that order.
+ */
+export async function resolveSessionId(ref: string): Promise<string> {
+  if (isSafeId(ref) && (await readMeta(ref).catch(() => null))) return ref;
+
+  const sessions = await listSessions({ hours: Number.POSITIVE_INFINITY });
+  const named = sessions.find((meta) => meta.name === ref);
+  if (named) return named.id;
+
+  const prefixed = sessions.filter((meta) => meta.id.startsWith(ref));
+  if (prefixed.length === 1) return prefixed[0].id;
+  if (prefixed.length > 1) {
+    throw new Error(`Ambiguous session ID prefix: ${ref} matches ${prefixed.length} sessions`);
+  }
+  throw new Error(`Session not found: ${ref}`);
+}
+
+/** Get a single session's full result (meta + file paths for every turn). */
+export async function getSession(ref: string): Promise<SessionResult> {
+  const sessionId = await resolveSessionId(ref);
+  const meta = await readMeta(sessionId);
   const dir = getSessionDir(sessionId);
-  const metaPath = path.join(dir, 'meta.json');
-  const raw = await readFile(metaPath, 'utf-8');
-  const meta: SessionMeta = JSON.parse(raw);
+  const turns: SessionTurnResult[] = [];
 
-  const bundlePath = path.join(dir, 'bundle.md');
-  const responsePath = path.join(dir, 'response.md');
+  if (meta.turns && meta.turns.length > 0) {
+    for (const turn of meta.turns) {
+      const turnDir = getSessionTurnDir(sessionId, turn.index);
+      turns.push(
+        await resolveTurnFiles(
+          turn,
+          path.join(turnDir, 'bundle.md'),
+          path.join(turnDir, 'response.md'),
+        ),
+      );
+    }
+  } else {
+    // Sessions created before multi-turn support keep a single pair at the root.
+    const legacyTurn: SessionTurn = {
+      index: 1,
+      promptPreview: meta.promptPreview,
+      createdAt: meta.createdAt,
+      status: meta.status,
+      durationMs: meta.durationMs,
+    };
+    turns.push(
+      await resolveTurnFiles(
+        legacyTurn,
+        path.join(dir, 'bundle.md'),
+        path.join(dir, 'response.md'),
+      ),
+    );
+  }
+
+  const latest = turns[turns.length - 1];
+  return {
+    meta,
+    bundlePath: latest.bundlePath,
+    responsePath: latest.responsePath,
+    turns,
+  };
+}
+
+/** Get a session with every turn's bundle and response text inlined. */
+export async function getSessionContents(sessionId: string): Promise<SessionContents> {
+  const result = await getSession(sessionId);
+  const turns = await Promise.all(
+    result.turns.map(async ({ turn, bundlePath, responsePath }) => ({
+      ...turn,
+      bundle: await readBundle(bundlePath).catch(() => null),
+      response: responsePath ? await readFile(responsePath, 'utf-8').catch(() => null) : null,
+      citations: responsePath ? await readCitations(responsePath) : [],
+    })),
+  );
+  return { meta: result.meta, turns };
+}
+
+/** Citations from the `response.json` next to a response; empty for older turns. */
+async function readCitations(responsePath: string): Promise<Citation[]> {
+  try {
+    const raw = await readFile(path.join(path.dirname(responsePath), 'response.json'), 'utf-8');
+    return (JSON.parse(raw) as Partial<CapturedResponse>).citations ?? [];
+  } catch {
+    return [];
+  }
+}
 
+async function resolveTurnFiles(
+  turn: SessionTurn,
+  bundlePath: string,
+  responsePath: string,
+): Promise<SessionTurnResult> {
   let hasResponse = false;
   try {
-    await readFile(responsePath);
+    await access(responsePath);
     hasResponse = true;
   } catch {
     // No response saved yet
   }
 
   return {
-    meta,
+    turn,
     bundlePath,
     responsePath: hasResponse ? responsePath : undefined,
   };
 }
+
+/** Trim a name and make sure no other session uses it. */
+export async function checkName(name: string, sessionId?: string): Promise<string> {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > 80) {
+    throw new Error('Session names must be 1–80 characters.');
+  }
+  const sessions = await listSessions({ hours: Number.POSITIVE_INFINITY });
+  if (sessions.some((meta) => meta.name === trimmed && meta.id !== sessionId)) {
+    throw new Error(`Session name already in use: ${trimmed}`);
+  }
+  return trimmed;
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().replace(/^#/, ''));
+  const invalid = normalized.find((tag) => !/^[\p{L}\p{N}_./-]+$/u.test(tag));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid tag: "${invalid}" (use letters, digits, _ . / -)`);
+  }
+  return [...new Set(normalized)];
+}
+
+function isSafeId(ref: string): boolean {
+  return /^[\w-]+$/.test(ref);
+}
+
+async function readMeta(sessionId: string): Promise<SessionMeta> {
+  const raw = await readFile(path.join(getSessionDir(sessionId), 'meta.json'), 'utf-8');
+  return JSON.parse(raw) as SessionMeta;
+}
+
+async function writeMeta(meta: SessionMeta): Promise<void> {
+  await writeFile(path.join(getSessionDir(meta.id), 'meta.json'), JSON.stringify(meta, null, 2));
+}
@@ -25,11 +25,73 @@ export interface ProviderConfig {
   models?: string[];
   defaultModel?: string;
   defaultTimeoutMs: number;
+  /** How much bundled context one prompt can carry; files beyond it overflow. */
+  contextBudget?: ContextBudget;
+  /**
+   * Matches the page URL of an existing conversation thread (e.g. ChatGPT's
+   * `/c/<id>`). Providers without one cannot be continued with `--continue`.
+   */
+  conversationUrlPattern?: RegExp;
+}
+
+/**
+ * Prompt size limit, measured the way the provider's composer limits input:
+ * estimated tokens, or characters for UIs that cap pasted text.
+ */
+export interface ContextBudget {
+  limit: number;
+  unit: 'tokens' | 'chars';
+}
+
+/** What happens to bundled files that don't fit the context budget. */
+export type OverflowStrategy = 'drop' | 'truncate' | 'outline';
+
+/**
+ * Which change to bundle:
+ * - `changed`: uncommitted changes (staged and unstaged) plus untracked files
+ * - `staged`: what the next commit would contain
+ * - `since`: commits on HEAD since it diverged from `ref`, like a pull request
+ * - `diff`: the working tree against `ref`
+ */
+export type GitSelector =
+  | { mode: 'changed' }
+  | { mode: 'staged' }
+  | { mode: 'since'; ref: string }
+  | { mode: 'diff'; ref: string };
+
+/** A source the provider cited for its answer. */
+export interface Citation {
+  /** Marker shown inline in the answer (e.g. "3"), when the UI numbers its sources. */
+  index?: string;
+  url: string;
+  title?: string;
+  /** Publisher or site name. */
+  source?: string;
+  summary?: string;
+  date?: string;
+}
+
+/** An image or downloadable file found in a response. */
+export interface ResponseAsset {
+  kind: 'image' | 'file';
+  /** Where the provider serves it: http(s), `blob:` or `data:` URL. */
+  url: string;
+  /** File name suggested by the page (download attribute, link text or URL). */
+  name?: string;
+  alt?: string;
+  mimeType?: string;
+  /** Saved copy, relative to the session directory (`assets/...`), once downloaded. */
+  path?: string;
+  /** Why the download failed, when it did. */
+  error?: string;
 }
 
 export interface CapturedResponse {
   text: string;
   markdown: string;
+  citations?: Citation[];
+  /** Generated images and file links to download into the session. */
+  assets?: ResponseAsset[];
   model?: string;
   thinkingTime?: number;
   truncated: boolean;
@@ -42,6 +104,9 @@ export interface ProviderActions {
   /** Select a specific model if the provider has a model picker UI. */
   selectModel?(page: Page, model: string): Promise<void>;
 
+  /** Read the model currently in effect from the UI (one of `config.models` when recognised). */
+  readModel?(page: Page): Promise<string | undefined>;
+
   /** Submit a prompt (type into composer, click send). */
   submitPrompt(page: Page, prompt: string): Promise<void>;
 
@@ -67,6 +132,15 @@ export interface Provider {
 
 export type SessionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'timeout';
 
+export interface SessionTurn {
+  /** 1-based position of the turn within the session. */
+  index: number;
+  promptPreview: string;
+  createdAt: string;
+  status: SessionStatus;
+  durationMs?: number;
+}
+
 export interface SessionMeta {
   id: string;
   provider: ProviderName;
@@ -76,12 +150,69 @@ export interface SessionMeta {
   updatedAt: string;
   status: SessionStatus;
   durationMs?: number;
+  /** Provider thread URL, used by `chat --continue` to reopen the conversation. */
+  conversationUrl?: string;
+  /** Ordered turns. Sessions created before multi-turn support have none. */
+  turns?: SessionTurn[];
+  /** User-assigned name, unique across sessions; accepted wherever an ID is. */
+  name?: string;
+  tags?: string[];
+  /** Working directory the chat was started from. */
+  cwd?: string;
+  /** Git repository containing `cwd`, if any. */
+  repository?: SessionRepository;
+  /** Providers tried before this one and why they were passed over (`--fallback`). */
+  skippedProviders?: SkippedProvider[];
+}
+
+/** Why a fallback chain moved past a provider: blocked or broken, not a bad answer. */
+export type FallbackReason =
+  | 'risk_guard'
+  | 'auth_required'
+  | 'ui_selector_changed'
+  | 'http_429'
+  | 'captcha_or_verification';
+
+export interface SkippedProvider {
+  provider: ProviderName;
+  reason: FallbackReason;
+  message: string;
+  /** The failed session, when the attempt got far enough to create one. */
+  sessionId?: string;
+}
+
+export interface SessionRepository {
+  /** Repository root directory. */
+  root: string;
+  /** Checked-out branch; absent on a detached HEAD. */
+  branch?: string;
+}
+
+export interface SessionTurnResult {
+  turn: SessionTurn;
+  /** Stored `bundle.md`; see `SessionResult.bundlePath`. */
+  bundlePath: string;
+  responsePath?: string;
 }
 
 export interface SessionResult {
   meta: SessionMeta;
+  /**
+   * Stored `bundle.md` of the latest turn. Large file bodies in it are
+   * replaced by `<!-- douzhi-blob:<hash> -->` markers; read the bundle as
+   * sent with `readBundle`.
+   */
   bundlePath: string;
+  /** Response of the latest turn, if captured. */
   responsePath?: string;
+  turns: SessionTurnResult[];
+}
+
+export interface SessionContents {
+  meta: SessionMeta;
+  turns: Array<
+    SessionTurn & { bundle: string | null; response: string | null; citations: Citation[] }
+  >;
 }
 
 // ── Config Types ────────────────────────────────────────────────
@@ -91,16 +222,100 @@ export interface AppConfig {
   defaultModel?: string;
   defaultTimeoutMs: number;
   headless: boolean;
+  /** How long the browser daemon keeps an unused provider context open. */
+  daemonIdleTtlMs: number;
+  /** Extra secret detectors, applied on top of the built-in ones when bundling. */
+  secretPatterns?: SecretPattern[];
+  /** Automatic session cleanup, applied each time a chat starts. */
+  retention?: RetentionPolicy;
+  /** Overrides for the risk guard's built-in limits. */
+  riskPolicy?: RiskPolicyConfig;
+  /** Providers to try in order when the chosen one is blocked or broken. */
+  fallbackProviders?: ProviderName[];
+}
+
+/**
+ * Limits on stored sessions; unset limits don't apply. Pending and running
+ * sessions are never removed.
+ */
+export interface RetentionPolicy {
+  /** Delete sessions not updated for this many days. */
+  maxAgeDays?: number;
+  /** Keep at most this many sessions, deleting the oldest first. */
+  maxSessions?: number;
+  /** Keep sessions and shared file bodies under this many megabytes, deleting the oldest first. */
+  maxTotalMb?: number;
+}
+
+export type RiskOutcomeKind =
+  | 'success'
+  | 'paused_generation'
+  | 'captcha_or_verification'
+  | 'http_429'
+  | 'auth_required'
+  | 'timeout'
+  | 'other_error';
+
+/** How the risk guard spaces out requests to a provider; durations are in milliseconds. */
+export interface ProviderRiskPolicy {
+  minIntervalMsHeaded: number;
+  minIntervalMsHeadless: number;
+  attemptsWindowMs: number;
+  attemptsLimit: number;
+  headlessAttemptsWindowMs: number;
+  headlessAttemptsLimit: number;
+  samePromptWindowMs: number;
+  samePromptLimit: number;
+  cooldownOnRateLimitMs: number;
+  cooldownByOutcomeMs: Partial<Record<RiskOutcomeKind, number>>;
+  breakerConsecutiveRiskThreshold: number;
+  breakerDurationMs: number;
+}
+
+export type RiskPolicyOverride = Partial<ProviderRiskPolicy>;
+
+/**
+ * Risk policy overrides. `default` replaces the built-in defaults and
+ * `providers` the built-in per-provider limits, so a provider's own entry wins.
+ * There is no per-profile level: an account profile is an app home
+ * (`DOUZHI_CHAT_HOME`), and each home reads its own config.json.
+ */
+export interface RiskPolicyConfig {
+  default?: RiskPolicyOverride;
+  providers?: Partial<Record<ProviderName, RiskPolicyOverride>>;
+}
+
+/** A user-defined secret detector; with a capture group, only the group is redacted. */
+export interface SecretPattern {
+  name: string;
+  /** JavaScript regular expression source (no delimiters or flags). */
+  pattern: string;
 }
 
 export const DEFAULT_CONFIG: AppConfig = {
   defaultProvider: 'chatgpt',
   defaultTimeoutMs: 5 * 60 * 1000, // 5 minutes
   headless: true,
+  daemonIdleTtlMs: 15 * 60 * 1000, // 15 minutes
 };
 
 // ── CLI Option Types ────────────────────────────────────────────
 
+/** A reusable prompt loaded from a templates directory. */
+export interface PromptTemplate {
+  name: string;
+  /** File the template was loaded from. */
+  path: string;
+  description?: string;
+  /** Defaults for the chat, used when the command line doesn't set them. */
+  provider?: ProviderName;
+  model?: string;
+  files?: string[];
+  attach?: string[];
+  /** Markdown with `{{prompt}}`, `{{files}}`, `{{diff}}`, `{{selection}}` and `{{stdin}}` variables. */
+  body: string;
+}
+
 export interface ChatOptions {
   prompt: string;
   provider?: ProviderName;
@@ -112,4 +327,30 @@ export interface ChatOptions {
   dryRun?: boolean;
   headed?: boolean;
   timeoutMs?: number;
+  /** Append a turn to an existing session's provider conversation. */
+  continueSessionId?: string;
+  /** Overrides the provider's context budget, in estimated tokens. */
+  budgetTokens?: number;
+  /** How to fit files past the budget (default: truncate). */
+  overflow?: OverflowStrategy;
+  /** Bundle a git change: its diff plus the files it touches. */
+  git?: GitSelector;
+  /** Refuse to send when the redaction pass found any secrets. */
+  strict?: boolean;
+  /** Render this template in place of the bare prompt. */
+  template?: PromptTemplate;
+  /** Lines to quote from a file: `path`, `path:line` or `path:start-end`. */
+  selection?: string;
+  /** Piped input to include in the bundle. */
+  stdin?: string;
+  /** Name for the session (renames a continued one). */
+  name?: string;
+  /** Tags to add to the session. */
+  tags?: string[];
+  /** When the risk guard denies the request, wait up to this long for a slot instead of failing. */
+  waitForSlotMs?: number;
+  /** Providers to try in order if this one is blocked or broken; overrides `fallbackProviders` in config. */
+  fallback?: ProviderName[];
+  /** Receives streamed response text. Defaults to writing dimmed chunks to stdout. */
+  onChunk?: (chunk: string) => void;
 }
@@ -0,0 +1,117 @@
+import { mkdtemp, readFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Page } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { downloadResponseAssets, linkResponseAssets } from '../src/core/assets.js';
+import { getSessionDir } from '../src/paths.js';
+import { collectAnswerAssets } from '../src/providers/assets.js';
+
+describe('collectAnswerAssets', () => {
+  it('finds generated images and file links, skipping icons', () => {
+    const assets = collectAnswerAssets(
+      [
+        '<p>Here is the chart <img src="/files/chart.png" alt="Sales chart"></p>',
+        '<img src="https://cdn.example.com/favicon.ico">',
+        '<img src="https://cdn.example.com/logo.png" width="16" height="16">',
+        '<a href="https://example.com/article">Source</a>',
+        '<a href="/backend/files/abc" download="report.csv">report.csv</a>',
+        '<a href="https://example.com/data/export.xlsx">Download</a>',
+      ].join(''),
+      'https://chat.example.com/c/123',
+    );
+
+    expect(assets).toEqual([
+      {
+        kind: 'image',
+        url: 'https://chat.example.com/files/chart.png',
+        alt: 'Sales chart',
+        name: 'chart.png',
+      },
+      { kind: 'file', url: 'https://chat.example.com/backend/files/abc', name: 'report.csv' },
+      { kind: 'file', url: 'https://example.com/data/export.xlsx', name: 'export.xlsx' },
+    ]);
+  });
+});
+
+describe('downloadResponseAssets', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-assets-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('saves assets through the page context and records failures', async () => {
+    const requested: string[] = [];
+    const page = {
+      context: () => ({
+        request: {
+          get: async (url: string) => {
+            requested.push(url);
+            const ok = !url.endsWith('/gone');
+            return {
+              ok: () => ok,
+              status: () => (ok ? 200 : 404),
+              body: async () => Buffer.from('PNGDATA'),
+              headers: () => ({ 'content-type': 'image/png; charset=binary' }),
+            };
+          },
+        },
+      }),
+    } as unknown as Page;
+
+    const saved = await downloadResponseAssets(page, 'session-1', 2, [
+      { kind: 'image', url: 'https://cdn.example.com/gen/abc', alt: 'A cat' },
+      { kind: 'file', url: 'data:text/csv;base64,YSxiCjEsMgo=', name: 'table.csv' },
+      { kind: 'image', url: 'https://cdn.example.com/gone' },
+    ]);
+
+    expect(requested).toEqual(['https://cdn.example.com/gen/abc', 'https://cdn.example.com/gone']);
+    expect(saved.map((asset) => asset.path ?? asset.error)).toEqual([
+      'assets/002-01-image.png',
+      'assets/002-02-table.csv',
+      'HTTP 404',
+    ]);
+    const dir = getSessionDir('session-1');
+    expect(await readFile(path.join(dir, 'assets', '002-01-image.png'), 'utf-8')).toBe('PNGDATA');
+    expect(await readFile(path.join(dir, 'assets', '002-02-table.csv'), 'utf-8')).toBe(
+      'a,b\n1,2\n',
+    );
+  });
+});
+
+describe('linkResponseAssets', () => {
+  it('rewrites shown assets and lists the rest', () => {
+    const markdown = linkResponseAssets('Done.\n\n![Chart](https://cdn.example.com/chart.png)', [
+      {
+        kind: 'image',
+        url: 'https://cdn.example.com/chart.png',
+        path: 'assets/001-01-chart.png',
+      },
+      {
+        kind: 'file',
+        url: 'blob:https://chat.example.com/x',
+        name: 'data.csv',
+        path: 'assets/001-02-data.csv',
+      },
+      { kind: 'file', url: 'https://example.com/missing.pdf', error: 'HTTP 404' },
+    ]);
+
+    expect(markdown).toBe(
+      [
+        'Done.',
+        '',
+        '![Chart](../../assets/001-01-chart.png)',
+        '',
+        '## Assets',
+        '',
+        '- [data.csv](../../assets/001-02-data.csv)',
+      ].join('\n'),
+    );
+  });
+});
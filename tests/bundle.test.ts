@@ -1,5 +1,9 @@
-import { describe, expect, it } from 'vitest';
-import { buildBundle } from '../src/core/bundle.js';
+import { execFileSync } from 'node:child_process';
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildBundle, planBundle } from '../src/core/bundle.js';
 
 describe('buildBundle', () => {
   it('should create a bundle with just a prompt', async () => {
@@ -18,3 +22,190 @@ describe('buildBundle', () => {
     expect(bundle).toContain('No files matched');
   });
 });
+
+describe('planBundle', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-bundle-'));
+    const lines = (name: string) =>
+      Array.from({ length: 200 }, (_, i) => `// ${name} line ${i + 1}`).join('\n');
+    await writeFile(path.join(dir, 'old.ts'), lines('old'));
+    await writeFile(path.join(dir, 'new.ts'), lines('new'));
+    await writeFile(
+      path.join(dir, 'pinned.ts'),
+      `export function keep(): void {\n${'  doWork();\n'.repeat(10)}}\n`,
+    );
+    await utimes(path.join(dir, 'old.ts'), new Date(2020, 0, 1), new Date(2020, 0, 1));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('includes every file in full without a budget', async () => {
+    const { bundle, report } = await planBundle({ prompt: 'p', files: ['*.ts'], cwd: dir });
+    expect(report.files.every((file) => file.action === 'full')).toBe(true);
+    expect(bundle).toBe(await buildBundle({ prompt: 'p', files: ['*.ts'], cwd: dir }));
+  });
+
+  it('packs explicit paths, then recent files, and truncates the overflow', async () => {
+    const { bundle, report } = await planBundle({
+      prompt: 'p',
+      files: ['*.ts', 'pinned.ts'],
+      cwd: dir,
+      budget: { limit: 3000, unit: 'chars' },
+    });
+
+    expect(report.files.map((file) => [file.path, file.source, file.action])).toEqual([
+      ['pinned.ts', 'explicit', 'full'],
+      ['new.ts', 'glob', 'truncated'],
+      ['old.ts', 'glob', 'dropped'],
+    ]);
+    expect(report.total).toBeLessThanOrEqual(3000);
+    expect(bundle).toContain('## new.ts (TRUNCATED — ');
+    expect(bundle).toMatch(
+      /\/\/ new line 1\n[\s\S]*… \[\d+ lines omitted\] …\n[\s\S]*new line 200\n/,
+    );
+    expect(bundle).toContain('## old.ts (OMITTED — over context budget)');
+    // Files stay in path order in the bundle itself
+    expect(bundle.indexOf('## new.ts')).toBeLessThan(bundle.indexOf('## old.ts'));
+  });
+
+  it('reduces overflowing files to their outline', async () => {
+    const { bundle, report } = await planBundle({
+      prompt: 'p',
+      files: ['pinned.ts'],
+      cwd: dir,
+      budget: { limit: 120, unit: 'chars' },
+      overflow: 'outline',
+    });
+    expect(report.files[0].action).toBe('outline');
+    expect(bundle).toContain('export function keep(): void {\n```');
+  });
+
+  it('inlines extracted documents and routes images to attachments', async () => {
+    await writeFile(path.join(dir, 'chart.png'), Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'));
+    await writeFile(
+      path.join(dir, 'analysis.ipynb'),
+      JSON.stringify({ cells: [{ cell_type: 'code', source: 'x = 1', outputs: [] }] }),
+    );
+    const { bundle, report } = await planBundle({
+      prompt: 'p',
+      files: ['chart.png', 'analysis.ipynb'],
+      cwd: dir,
+    });
+
+    expect(report.attachments).toEqual([path.join(dir, 'chart.png')]);
+    expect(bundle).toContain('## chart.png (ATTACHED — image)');
+    expect(bundle).toContain(
+      '## analysis.ipynb (EXTRACTED — notebook cells and outputs)\n\n````markdown\nIn [1]:\n```\nx = 1\n```\n````',
+    );
+  });
+
+  it('bundles piped input as a section, keeping its head and tail within budget', async () => {
+    const log = Array.from({ length: 400 }, (_, i) => `test ${i + 1} ok`).join('\n');
+    const { bundle, report } = await planBundle({
+      prompt: 'why does this fail',
+      stdin: `${log}\nFAIL: expected 2, got 3`,
+      cwd: dir,
+      budget: { limit: 2000, unit: 'chars' },
+    });
+
+    expect(bundle.startsWith('why does this fail\n\n# Stdin\n\n```\ntest 1 ok\n')).toBe(true);
+    expect(bundle).toContain('FAIL: expected 2, got 3\n```\n');
+    expect(bundle).toMatch(/… \[\d+ lines omitted\] …/);
+    // Half the budget, plus its fences and separator
+    expect(report.stdin?.included).toBeLessThanOrEqual(1000 + '```\n\n```'.length + 1);
+    expect(report.stdin?.size).toBeGreaterThan(4000);
+  });
+
+  it('redacts secrets before measuring and reports where they were', async () => {
+    const token = `ghp_${'a1B2'.repeat(9)}`;
+    await writeFile(path.join(dir, 'config.ts'), `export const token = '${token}';\n`);
+    const { bundle, report } = await planBundle({
+      prompt: `deploy with ${token}`,
+      files: ['config.ts'],
+      cwd: dir,
+      secretPatterns: [{ name: 'ticket', pattern: 'TICKET-\\d{4}' }],
+    });
+
+    expect(bundle).not.toContain(token);
+    expect(report.redactions.map((finding) => [finding.detector, finding.location])).toEqual([
+      ['github-token', 'prompt'],
+      ['github-token', 'config.ts'],
+    ]);
+    // The same secret gets the same placeholder wherever it appears
+    expect(report.redactions[0].placeholder).toBe(report.redactions[1].placeholder);
+  });
+});
+
+describe('planBundle with git', () => {
+  let dir: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', ...args], {
+      cwd: dir,
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-git-'));
+    git('init', '-q', '-b', 'main');
+    await writeFile(path.join(dir, '.gitignore'), 'out/\n');
+    await writeFile(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    await writeFile(path.join(dir, 'b.ts'), 'export const b = 1;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('skips ignored files matched by globs', async () => {
+    await mkdir(path.join(dir, 'out'));
+    await writeFile(path.join(dir, 'out', 'a.js'), 'compiled');
+    const bundle = await buildBundle({ prompt: 'p', files: ['**/*'], cwd: dir });
+    expect(bundle).toContain('## a.ts');
+    expect(bundle).not.toContain('out/a.js');
+
+    const named = await buildBundle({ prompt: 'p', files: ['out/a.js'], cwd: dir });
+    expect(named).toContain('## out/a.js');
+  });
+
+  it('bundles uncommitted changes with their diff', async () => {
+    await writeFile(path.join(dir, 'a.ts'), 'export const a = 2;\n');
+    await writeFile(path.join(dir, 'c.ts'), 'export const c = 1;\n');
+
+    const { bundle, report } = await planBundle({
+      prompt: 'review',
+      cwd: dir,
+      git: { mode: 'changed' },
+    });
+    expect(bundle).toContain('# Diff (uncommitted changes)');
+    expect(bundle).toContain('-export const a = 1;\n+export const a = 2;');
+    expect(report.files.map((file) => [file.path, file.source])).toEqual([
+      ['a.ts', 'explicit'],
+      ['c.ts', 'explicit'],
+    ]);
+    expect(bundle).not.toContain('## b.ts');
+  });
+
+  it('bundles staged changes and commits since a ref', async () => {
+    git('checkout', '-q', '-b', 'feature');
+    await writeFile(path.join(dir, 'b.ts'), 'export const b = 2;\n');
+    git('commit', '-q', '-am', 'change b');
+    await writeFile(path.join(dir, 'a.ts'), 'export const a = 3;\n');
+    git('add', 'a.ts');
+
+    const staged = await planBundle({ prompt: 'p', cwd: dir, git: { mode: 'staged' } });
+    expect(staged.report.files.map((file) => file.path)).toEqual(['a.ts']);
+
+    const since = await planBundle({ prompt: 'p', cwd: dir, git: { mode: 'since', ref: 'main' } });
+    expect(since.bundle).toContain('# Diff (changes since main)');
+    expect(since.report.files.map((file) => file.path)).toEqual(['b.ts']);
+
+    await expect(
+      planBundle({ prompt: 'p', cwd: dir, git: { mode: 'diff', ref: 'nope' } }),
+    ).rejects.toThrow('Unknown git ref: nope');
+  });
+});
@@ -0,0 +1,67 @@
+import { mkdir, mkdtemp, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConfigCommand } from '../src/cli/config.js';
+import { loadConfig, saveConfig } from '../src/config.js';
+import { getConfigPath } from '../src/paths.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+
+async function writeConfig(content: string): Promise<void> {
+  await mkdir(path.dirname(getConfigPath()), { recursive: true });
+  await writeFile(getConfigPath(), content, 'utf-8');
+}
+
+describe('config', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-config-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = originalEnv;
+  });
+
+  it('should use the defaults without a config file', async () => {
+    expect(await loadConfig()).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('should read a JSON5 config file over the defaults', async () => {
+    await writeConfig(
+      "{\n  // Comments are allowed\n  defaultProvider: 'claude',\n  headless: false,\n}\n",
+    );
+    expect(await loadConfig()).toEqual({
+      ...DEFAULT_CONFIG,
+      defaultProvider: 'claude',
+      headless: false,
+    });
+
+    await saveConfig({ ...DEFAULT_CONFIG, defaultTimeoutMs: 600_000 });
+    expect((await loadConfig()).defaultTimeoutMs).toBe(600_000);
+  });
+
+  it('should report a config file it cannot parse', async () => {
+    await writeConfig('{ defaultProvider: ');
+    await expect(loadConfig()).rejects.toThrow(/^Invalid config file .*config\.json: /);
+  });
+
+  it('should only set a positive daemon-ttl', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+    const set = (value: string) =>
+      createConfigCommand().parseAsync(['set', 'daemon-ttl', value], { from: 'user' });
+
+    await set('1800000');
+    expect((await loadConfig()).daemonIdleTtlMs).toBe(1_800_000);
+    for (const value of ['soon', '-5', '0']) {
+      await expect(set(value)).rejects.toThrow('exit 1');
+    }
+    expect((await loadConfig()).daemonIdleTtlMs).toBe(1_800_000);
+  });
+});
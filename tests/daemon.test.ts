@@ -0,0 +1,141 @@
+import { mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { BrowserContext, Page } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  type BrowserSession,
+  createBrowserPool,
+  type LaunchOptions,
+} from '../src/browser/index.js';
+import {
+  connectDaemon,
+  type DaemonLease,
+  type DaemonServer,
+  type DaemonStatus,
+  startDaemonServer,
+} from '../src/daemon/index.js';
+
+function createFakeLauncher() {
+  const launched: LaunchOptions[] = [];
+  const closed: string[] = [];
+  const launch = async (opts: LaunchOptions): Promise<BrowserSession> => {
+    launched.push(opts);
+    return {
+      context: { on: () => {} } as unknown as BrowserContext,
+      page: { isClosed: () => false } as unknown as Page,
+      lock: {
+        lockPath: `/profiles/${opts.provider}/lock`,
+        lockId: 'lock-1',
+        release: async () => {},
+      },
+      cdpEndpoint: opts.remoteDebugging ? 'http://127.0.0.1:9222' : undefined,
+      close: async () => {
+        closed.push(opts.provider);
+      },
+    };
+  };
+  return { launch, launched, closed };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('createBrowserPool', () => {
+  it('should close contexts left idle past the TTL', async () => {
+    const fake = createFakeLauncher();
+    const pool = createBrowserPool({ idleTtlMs: 20, launchBrowser: fake.launch });
+
+    const session = await pool.launch({ provider: 'claude' });
+    await sleep(60);
+    expect(pool.warmProviders()).toEqual(['claude']);
+    expect(pool.describe?.()).toMatchObject([{ provider: 'claude', inUse: true, idleMs: 0 }]);
+
+    await session.close();
+    await sleep(80);
+    expect(pool.warmProviders()).toEqual([]);
+    expect(fake.closed).toEqual(['claude']);
+    await pool.closeAll();
+  });
+});
+
+describe('browser daemon', () => {
+  const originalEnv = process.env;
+  let daemon: DaemonServer | undefined;
+  let socketPath: string;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-daemon-'));
+    socketPath = path.join(process.env.DOUZHI_CHAT_HOME, 'daemon.sock');
+  });
+
+  afterEach(async () => {
+    await daemon?.close();
+    daemon = undefined;
+    process.env = originalEnv;
+  });
+
+  it('should lend one CDP-enabled context per provider and queue other clients', async () => {
+    const fake = createFakeLauncher();
+    daemon = await startDaemonServer({
+      idleTtlMs: 60_000,
+      socketPath,
+      pool: createBrowserPool({ remoteDebugging: true, launchBrowser: fake.launch }),
+    });
+
+    const first = await connectDaemon(socketPath);
+    const second = await connectDaemon(socketPath);
+    if (!first || !second) throw new Error('daemon not reachable');
+
+    const lease = await first.request<DaemonLease>('acquire', { provider: 'deepseek' });
+    expect(lease).toEqual({
+      provider: 'deepseek',
+      cdpEndpoint: 'http://127.0.0.1:9222',
+      lockPath: '/profiles/deepseek/lock',
+      lockId: 'lock-1',
+    });
+
+    let secondLeased = false;
+    const waiting = second.request('acquire', { provider: 'deepseek' }).then(() => {
+      secondLeased = true;
+    });
+    await sleep(30);
+    expect(secondLeased).toBe(false);
+
+    const status = await first.request<DaemonStatus>('status');
+    expect(status.contexts).toMatchObject([{ provider: 'deepseek', inUse: true }]);
+    expect(status.pending).toEqual({ deepseek: 2 });
+
+    // Dropping the connection ends the first lease
+    first.close();
+    await waiting;
+    expect(secondLeased).toBe(true);
+    expect(fake.launched).toHaveLength(1);
+    expect(fake.launched[0]).toMatchObject({ provider: 'deepseek', remoteDebugging: true });
+
+    await second.request('release', { provider: 'deepseek' });
+    second.close();
+  });
+
+  it('should reject a second daemon on the same socket and stop on request', async () => {
+    daemon = await startDaemonServer({
+      idleTtlMs: 60_000,
+      socketPath,
+      pool: createBrowserPool({ launchBrowser: createFakeLauncher().launch }),
+    });
+    await expect(startDaemonServer({ idleTtlMs: 1_000, socketPath })).rejects.toThrow(
+      /already running/,
+    );
+
+    const client = await connectDaemon(socketPath);
+    if (!client) throw new Error('daemon not reachable');
+    await expect(client.request('acquire', { provider: 'nope' as never })).rejects.toThrow(
+      'Unknown provider: nope',
+    );
+    await client.request('stop');
+    await daemon.closed;
+    client.close();
+
+    expect(await connectDaemon(socketPath)).toBeNull();
+  });
+});
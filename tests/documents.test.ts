@@ -0,0 +1,161 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  csvPreview,
+  detectDocumentKind,
+  extractDocument,
+  extractPdfText,
+  notebookToMarkdown,
+} from '../src/core/documents.js';
+
+/** A one-page PDF whose content stream is Flate-compressed. */
+function pdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n', 'latin1'),
+    Buffer.from(`4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+/** A zip archive with deflated entries (CRCs left zero; the reader doesn't check them). */
+function zip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('document extraction', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-documents-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('detects kinds from magic bytes and extensions', async () => {
+    const files: Record<string, Buffer | string> = {
+      'a.pdf': pdf('BT ET'),
+      'b.docx': zip({ 'word/document.xml': '<w:document/>' }),
+      'c.zip': zip({ 'readme.txt': 'hi' }),
+      'd.bin': Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'),
+      'e.dat': Buffer.from([1, 0, 2, 0]),
+      'f.ipynb': '{"cells": []}',
+      'g.csv': 'a,b\n1,2\n',
+      'h.ts': 'export {};\n',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(path.join(dir, name), content);
+    }
+
+    const kinds = await Promise.all(
+      Object.keys(files).map((name) => detectDocumentKind(path.join(dir, name))),
+    );
+    expect(kinds).toEqual(['pdf', 'docx', 'binary', 'image', 'binary', 'notebook', 'csv', 'text']);
+  });
+
+  it('extracts PDF and DOCX text', async () => {
+    expect(
+      extractPdfText(
+        pdf(
+          'BT /F1 12 Tf 72 720 Td (Quarterly \\(draft\\)) Tj 0 -14 Td [(Revenue) -250 (grew)] TJ ET',
+        ),
+      ),
+    ).toBe('Quarterly (draft)\nRevenue grew');
+
+    const docx = path.join(dir, 'spec.docx');
+    await writeFile(
+      docx,
+      zip({
+        'word/document.xml': [
+          '<w:document><w:body>',
+          '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Design</w:t></w:r></w:p>',
+          '<w:p><w:r><w:t xml:space="preserve">Use </w:t></w:r><w:r><w:t>A &amp; B</w:t></w:r></w:p>',
+          '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>First</w:t></w:r></w:p>',
+          '</w:body></w:document>',
+        ].join(''),
+      }),
+    );
+    expect(await extractDocument(docx)).toEqual({
+      kind: 'docx',
+      text: '# Design\n\nUse A & B\n\n- First',
+      language: 'markdown',
+      note: 'DOCX text',
+    });
+  });
+
+  it('renders notebooks and CSV previews as markdown', () => {
+    const notebook = notebookToMarkdown(
+      JSON.stringify({
+        metadata: { kernelspec: { language: 'python' } },
+        cells: [
+          { cell_type: 'markdown', source: ['# Analysis\n', 'Load the data.'] },
+          {
+            cell_type: 'code',
+            source: 'print(1 + 1)',
+            outputs: [
+              { output_type: 'stream', text: ['2\n'] },
+              { output_type: 'display_data', data: { 'image/png': 'iVBOR' } },
+            ],
+          },
+        ],
+      }),
+    );
+    expect(notebook).toBe(
+      [
+        '# Analysis\nLoad the data.',
+        '',
+        'In [2]:',
+        '```python\nprint(1 + 1)\n```',
+        'Out:',
+        '```\n2\n[image/png output]\n```',
+      ].join('\n'),
+    );
+    expect(notebookToMarkdown('{"not": "a notebook"}')).toBeUndefined();
+
+    const rows = Array.from({ length: 25 }, (_, i) => `${i},"x, ""${i}"""`);
+    const { table, rows: count } = csvPreview(['id,label', ...rows].join('\r\n'));
+    expect(count).toBe(25);
+    expect(table.split('\n').slice(0, 3)).toEqual([
+      '| id | label |',
+      '| --- | --- |',
+      '| 0 | x, "0" |',
+    ]);
+    expect(table).toContain('… 5 more rows');
+  });
+});
@@ -0,0 +1,207 @@
+import { execFileSync } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionExtractCommand } from '../src/cli/extract.js';
+import { buildBundle } from '../src/core/bundle.js';
+import { unifiedDiff } from '../src/core/diff.js';
+import {
+  listBundledFiles,
+  parseCodeBlocks,
+  planExtraction,
+  writeExtraction,
+} from '../src/core/extract.js';
+import { addSessionTurn, createSession, saveBundle, saveResponse } from '../src/session/index.js';
+
+describe('parseCodeBlocks', () => {
+  it('takes paths from headings, labels and fence info strings', () => {
+    const blocks = parseCodeBlocks(
+      [
+        '## src/a.ts',
+        '',
+        '```ts',
+        'export const a = 1;',
+        '```',
+        '',
+        '**`lib/b.py`**:',
+        '```python',
+        'b = 2',
+        '```',
+        '',
+        '```js title="c.js"',
+        'c();',
+        '```',
+        '',
+        'Run this:',
+        '```bash',
+        'npm test',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(blocks.map((block) => block.path)).toEqual(['src/a.ts', 'lib/b.py', 'c.js', undefined]);
+    expect(blocks[0]).toMatchObject({ language: 'ts', content: 'export const a = 1;\n', line: 3 });
+  });
+
+  it('keeps nested shorter fences inside a longer one', () => {
+    const [block] = parseCodeBlocks('## README.md\n````md\n```sh\nls\n```\n````');
+    expect(block.content).toBe('```sh\nls\n```\n');
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('emits hunks with context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 10', 'line ten');
+    const diff = unifiedDiff('f.txt', 'f.txt', `${before}\n`, `${after}\n`);
+    expect(diff).toBe(
+      [
+        '--- a/f.txt',
+        '+++ b/f.txt',
+        '@@ -7,7 +7,7 @@',
+        ' line 7',
+        ' line 8',
+        ' line 9',
+        '-line 10',
+        '+line ten',
+        ' line 11',
+        ' line 12',
+        ' line 13',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('diffs new files against /dev/null', () => {
+    expect(unifiedDiff(null, 'new.txt', '', 'a\nb\n')).toBe(
+      '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n',
+    );
+  });
+});
+
+describe('planExtraction', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-extract-'));
+    await mkdir(path.join(dir, 'src'));
+    await writeFile(path.join(dir, 'src', 'math.ts'), 'export const add = (a, b) => a - b;\n');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('matches bundled files and writes an applicable patch', async () => {
+    const bundle = await buildBundle({ prompt: 'fix', files: ['src/**'], cwd: dir });
+    expect(listBundledFiles(bundle)).toEqual(['src/math.ts']);
+
+    const markdown = [
+      'The operator is wrong.',
+      '',
+      '### math.ts',
+      '```ts',
+      'export const add = (a, b) => a + b;',
+      '```',
+      '',
+      'And a test:',
+      '',
+      '#### `src/math.test.ts` (new file)',
+      '```ts',
+      "import { add } from './math';",
+      '```',
+      '',
+      '## ../escape.ts',
+      '```ts',
+      'bad();',
+      '```',
+    ].join('\n');
+
+    const plan = await planExtraction({ markdown, bundle, baseDir: dir });
+    expect(plan.changes.map((change) => [change.path, change.kind, change.bundled])).toEqual([
+      ['src/math.ts', 'modify', true],
+      ['src/math.test.ts', 'create', false],
+    ]);
+    expect(plan.skipped.map((block) => block.reason)).toEqual(['outside the base directory']);
+
+    const outDir = path.join(dir, 'out');
+    const [patchPath] = await writeExtraction(plan, { outDir, name: 'turn-1' });
+    expect(path.basename(patchPath)).toBe('turn-1.patch');
+
+    execFileSync('git', ['init', '-q'], { cwd: dir });
+    execFileSync('git', ['apply', patchPath], { cwd: dir });
+    expect(await readFile(path.join(dir, 'src', 'math.ts'), 'utf-8')).toBe(
+      'export const add = (a, b) => a + b;\n',
+    );
+    expect(await readFile(path.join(dir, 'src', 'math.test.ts'), 'utf-8')).toBe(
+      "import { add } from './math';\n",
+    );
+  });
+
+  it('writes full files when asked and skips unchanged ones', async () => {
+    const markdown = [
+      '## src/math.ts',
+      '```ts',
+      'export const add = (a, b) => a - b;',
+      '```',
+      '## src/util.ts',
+      '```ts',
+      'export {};',
+      '```',
+    ].join('\n');
+    const plan = await planExtraction({ markdown, baseDir: dir });
+    expect(plan.changes.map((change) => change.path)).toEqual(['src/util.ts']);
+    expect(plan.skipped[0].reason).toBe('unchanged');
+
+    const written = await writeExtraction(plan, { outDir: path.join(dir, 'out'), files: true });
+    expect(written).toEqual([path.join(dir, 'out', 'src', 'util.ts')]);
+  });
+});
+
+describe('session extract', () => {
+  const originalEnv = process.env;
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-extract-home-'));
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-extract-'));
+    await mkdir(path.join(dir, 'src'));
+    await writeFile(path.join(dir, 'src', 'math.ts'), 'export const add = (a, b) => a - b;\n');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    process.env = originalEnv;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('diffs against the directory the chat ran in, wherever it is run from', async () => {
+    const session = await createSession('claude', 'fix', undefined, { cwd: dir });
+    const turn = await addSessionTurn(session.id, 'fix');
+    await saveBundle(
+      session.id,
+      await buildBundle({ prompt: 'fix', files: ['src/**'], cwd: dir }),
+      turn.index,
+    );
+    const markdown = '## src/math.ts\n```ts\nexport const add = (a, b) => a + b;\n```\n';
+    await saveResponse(session.id, { text: markdown, markdown, truncated: false }, turn.index);
+
+    const elsewhere = await mkdtemp(path.join(os.tmpdir(), 'douzhi-extract-elsewhere-'));
+    process.chdir(elsewhere);
+    const outDir = path.join(elsewhere, 'out');
+    await createSessionExtractCommand().parseAsync([session.id, '--to', outDir], { from: 'user' });
+
+    const patch = await readFile(
+      path.join(outDir, `${session.id.slice(0, 8)}-turn-1.patch`),
+      'utf-8',
+    );
+    expect(patch).toContain('--- a/src/math.ts');
+    expect(patch).toContain('-export const add = (a, b) => a - b;');
+    expect(patch).not.toContain('/dev/null');
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { Page } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BrowserSession } from '../src/browser/index.js';
+import { runChat } from '../src/core/orchestrator.js';
+import { getProvider } from '../src/providers/index.js';
+import { createSession, getSession } from '../src/session/index.js';
+import type { ProviderName } from '../src/types.js';
+
+const page = {
+  url: () => 'about:blank',
+  locator: () => ({ first: () => ({ count: async () => 0, isVisible: async () => false }) }),
+} as unknown as Page;
+
+async function launchBrowser(): Promise<BrowserSession> {
+  return { page, close: async () => {} } as unknown as BrowserSession;
+}
+
+function stubProvider(name: ProviderName, capture: () => Promise<string>) {
+  const { actions } = getProvider(name);
+  vi.spyOn(actions, 'isLoggedIn').mockResolvedValue(true);
+  vi.spyOn(actions, 'submitPrompt').mockResolvedValue();
+  return vi.spyOn(actions, 'captureResponse').mockImplementation(async () => {
+    const text = await capture();
+    return { text, markdown: text, truncated: false, model: 'default' };
+  });
+}
+
+describe('provider fallback', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-fallback-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env = originalEnv;
+  });
+
+  it('should answer from the next provider and record why the first was skipped', async () => {
+    stubProvider('chatgpt', async () => {
+      throw new Error('Response selector not found, the UI may have changed');
+    });
+    stubProvider('claude', async () => 'answer from claude');
+
+    const result = await runChat(
+      { prompt: 'Review this', provider: 'chatgpt', fallback: ['claude'], name: 'review' },
+      { launchBrowser },
+    );
+
+    expect(result.provider).toBe('claude');
+    expect(result.response).toBe('answer from claude');
+    const [skipped] = result.skippedProviders ?? [];
+    expect(skipped).toMatchObject({ provider: 'chatgpt', reason: 'ui_selector_changed' });
+
+    const answered = await getSession(result.sessionId);
+    expect(answered.meta).toMatchObject({
+      provider: 'claude',
+      name: 'review',
+      status: 'completed',
+    });
+    expect(answered.meta.skippedProviders).toEqual([skipped]);
+    const failed = await getSession(skipped.sessionId ?? '');
+    expect(failed.meta).toMatchObject({ provider: 'chatgpt', name: 'review-chatgpt' });
+    expect(failed.meta.status).toBe('failed');
+  });
+
+  it('should give a named session up even when its fallback name is taken', async () => {
+    await createSession('chatgpt', 'Earlier review', undefined, { name: 'review-chatgpt' });
+    stubProvider('chatgpt', async () => {
+      throw new Error('Response selector not found, the UI may have changed');
+    });
+    stubProvider('claude', async () => 'answer from claude');
+
+    const result = await runChat(
+      { prompt: 'Review this', provider: 'chatgpt', fallback: ['claude'], name: 'review' },
+      { launchBrowser },
+    );
+
+    expect((await getSession('review')).meta.id).toBe(result.sessionId);
+    const failedId = result.skippedProviders?.[0].sessionId ?? '';
+    const failed = await getSession(failedId);
+    expect(failed.meta.name).toBe(`review-chatgpt-${failedId.slice(0, 8)}`);
+  });
+
+  it('should not fall back when the failure is not about the provider', async () => {
+    stubProvider('chatgpt', async () => {
+      throw new Error('Attachment upload rejected');
+    });
+    const claude = stubProvider('claude', async () => 'answer from claude');
+
+    await expect(
+      runChat(
+        { prompt: 'Review this', provider: 'chatgpt', fallback: ['claude'] },
+        { launchBrowser },
+      ),
+    ).rejects.toThrow('Attachment upload rejected');
+    expect(claude).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../src/core/orchestrator.js', () => ({
+  runChat: vi.fn(),
+}));
+
+import { runChatFanOut } from '../src/core/fan-out.js';
+import { runChat } from '../src/core/orchestrator.js';
+
+describe('runChatFanOut', () => {
+  afterEach(() => {
+    vi.mocked(runChat).mockReset();
+  });
+
+  it('should run every provider and keep going when one fails', async () => {
+    vi.mocked(runChat).mockImplementation(async (options) => {
+      if (options.provider === 'claude') {
+        throw new Error('Risk guard blocked this Claude request');
+      }
+      return {
+        sessionId: `session-${options.provider}`,
+        turn: 1,
+        provider: options.provider ?? 'chatgpt',
+        response: `answer from ${options.provider}`,
+        truncated: false,
+        durationMs: 1000,
+      };
+    });
+
+    const settled: string[] = [];
+    const results = await runChatFanOut(
+      { prompt: 'review this', providers: ['chatgpt', 'claude', 'deepseek', 'chatgpt'] },
+      { onSettled: (outcome) => settled.push(outcome.provider) },
+    );
+
+    expect(runChat).toHaveBeenCalledTimes(3);
+    expect(results.map((r) => r.provider)).toEqual(['chatgpt', 'claude', 'deepseek']);
+    expect(results[0]).toMatchObject({ ok: true, result: { response: 'answer from chatgpt' } });
+    expect(results[1]).toMatchObject({
+      ok: false,
+      error: 'Risk guard blocked this Claude request',
+    });
+    expect(results[2].ok).toBe(true);
+    expect(settled.sort()).toEqual(['chatgpt', 'claude', 'deepseek']);
+
+    for (const call of vi.mocked(runChat).mock.calls) {
+      expect(call[0].providers).toBeUndefined();
+      expect(call[0].onChunk).toBeTypeOf('function');
+    }
+  });
+
+  it('should reject an empty provider list or --continue', async () => {
+    await expect(runChatFanOut({ prompt: 'x', providers: [] })).rejects.toThrow('No providers');
+    await expect(
+      runChatFanOut({ prompt: 'x', providers: ['chatgpt'], continueSessionId: 'abc' }),
+    ).rejects.toThrow('--continue');
+  });
+});
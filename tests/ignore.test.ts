@@ -0,0 +1,74 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createIgnoreMatcher, loadIgnoreMatcher, parseIgnoreFile } from '../src/core/ignore.js';
+
+describe('ignore rules', () => {
+  it('follows gitignore matching', () => {
+    const matcher = createIgnoreMatcher(
+      parseIgnoreFile(
+        [
+          '# build output',
+          'dist/',
+          '*.log',
+          '!keep.log',
+          '/root-only.txt',
+          'docs/**/*.draft.md',
+          'vendor/**',
+          '\\#literal',
+        ].join('\n'),
+      ),
+    );
+
+    expect(matcher.ignores('dist/index.js')).toBe(true);
+    expect(matcher.ignores('packages/a/dist/index.js')).toBe(true);
+    expect(matcher.ignores('dist')).toBe(false); // a file named dist isn't a directory
+    expect(matcher.ignores('logs/app.log')).toBe(true);
+    expect(matcher.ignores('logs/keep.log')).toBe(false);
+    expect(matcher.ignores('root-only.txt')).toBe(true);
+    expect(matcher.ignores('sub/root-only.txt')).toBe(false);
+    expect(matcher.ignores('docs/a/b/plan.draft.md')).toBe(true);
+    expect(matcher.ignores('docs/plan.draft.md')).toBe(true);
+    expect(matcher.ignores('docs/plan.md')).toBe(false);
+    expect(matcher.ignores('vendor/lib/x.js')).toBe(true);
+    expect(matcher.ignores('#literal')).toBe(true);
+  });
+
+  it('does not re-include files under an ignored directory', () => {
+    const matcher = createIgnoreMatcher(parseIgnoreFile('build/\n!build/keep.txt'));
+    expect(matcher.ignores('build/keep.txt')).toBe(true);
+  });
+
+  describe('loadIgnoreMatcher', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-ignore-'));
+      await mkdir(path.join(dir, '.git', 'info'), { recursive: true });
+      await mkdir(path.join(dir, 'pkg', 'src'), { recursive: true });
+      await writeFile(path.join(dir, '.git', 'info', 'exclude'), 'local.txt\n');
+      await writeFile(path.join(dir, '.gitignore'), '*.gen.ts\n');
+      await writeFile(path.join(dir, 'pkg', '.douzhiignore'), 'fixtures/\n!src/keep.gen.ts\n');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('combines repository, nested and .douzhiignore rules', async () => {
+      const fromRoot = await loadIgnoreMatcher(dir);
+      expect(fromRoot.ignores('local.txt')).toBe(true);
+      expect(fromRoot.ignores('a.gen.ts')).toBe(true);
+      expect(fromRoot.ignores('pkg/fixtures/big.json')).toBe(true);
+      expect(fromRoot.ignores('fixtures/big.json')).toBe(false);
+      expect(fromRoot.ignores('pkg/src/keep.gen.ts')).toBe(false);
+
+      // From a subdirectory, the repository root's rules still apply
+      const fromPkg = await loadIgnoreMatcher(path.join(dir, 'pkg'));
+      expect(fromPkg.ignores('src/other.gen.ts')).toBe(true);
+      expect(fromPkg.ignores('src/keep.gen.ts')).toBe(false);
+      expect(fromPkg.ignores('fixtures/big.json')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { convertHtmlToMarkdown } from '../src/providers/markdown.js';
+import { normalizeCitations, renderCapturedAnswer } from '../src/providers/response.js';
+
+describe('convertHtmlToMarkdown', () => {
+  it('should convert headings, emphasis, links and nested lists', () => {
+    const { markdown, links } = convertHtmlToMarkdown(
+      '<h2>Plan</h2><p>Use <strong>bold</strong> and <a href="https://a.example/x">docs</a>.</p>' +
+        '<ul><li>one</li><li>two<ul><li>nested <code>x</code></li></ul></li></ul>' +
+        '<ol start="3"><li>three</li></ol>',
+    );
+
+    expect(markdown).toBe(
+      [
+        '## Plan',
+        '',
+        'Use **bold** and [docs](https://a.example/x).',
+        '',
+        '- one',
+        '- two',
+        '  - nested `x`',
+        '',
+        '3. three',
+      ].join('\n'),
+    );
+    expect(links).toEqual([{ url: 'https://a.example/x', text: 'docs' }]);
+  });
+
+  it('should fence code with its language and keep blank lines inside it', () => {
+    const { markdown } = convertHtmlToMarkdown(
+      '<pre><div>python</div><button>Copy code</button>' +
+        '<code class="hljs language-python">a = 1\n\n\nprint(a)\n</code></pre>',
+    );
+    expect(markdown).toBe('```python\na = 1\n\n\nprint(a)\n```');
+  });
+
+  it('should render tables, blockquotes and KaTeX math', () => {
+    const { markdown } = convertHtmlToMarkdown(
+      '<table><thead><tr><th>Key</th><th>A|B</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>' +
+        '<blockquote><p>quoted</p></blockquote>' +
+        '<p>Inline <span class="katex"><annotation encoding="application/x-tex">x^2</annotation>' +
+        '<span class="katex-html" aria-hidden="true">x2</span></span>.</p>' +
+        '<span class="katex-display"><span class="katex"><math display="block">' +
+        '<annotation encoding="application/x-tex">\\int f</annotation></math></span></span>',
+    );
+
+    expect(markdown).toBe(
+      [
+        '| Key | A\\|B |',
+        '| --- | --- |',
+        '| 1 | 2 |',
+        '',
+        '> quoted',
+        '',
+        'Inline $x^2$.',
+        '',
+        '$$',
+        '\\int f',
+        '$$',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('renderCapturedAnswer', () => {
+  it('should append numbered sources and merge links found in the answer', () => {
+    const rendered = renderCapturedAnswer({
+      text: 'See the docs.',
+      html: '<p>See the <a href="https://b.example/">docs</a>.<sup>1</sup></p>',
+      citations: [{ index: '1', url: 'https://a.example/', title: 'A', source: 'Site A' }],
+    });
+
+    expect(rendered.citations).toEqual([
+      { index: '1', url: 'https://a.example/', title: 'A', source: 'Site A' },
+      { url: 'https://b.example/', title: 'docs' },
+    ]);
+    expect(rendered.markdown).toBe(
+      [
+        'See the [docs](https://b.example/).[1]',
+        '',
+        '## Sources',
+        '',
+        '1. [A](https://a.example/) — Site A',
+        '2. [docs](https://b.example/)',
+      ].join('\n'),
+    );
+    expect(rendered.text).toContain('Sources:\n[1] A — https://a.example/');
+  });
+
+  it('should fall back to the plain text when there is no HTML or sources', () => {
+    expect(renderCapturedAnswer({ text: ' plain answer ' })).toEqual({
+      text: 'plain answer',
+      markdown: 'plain answer',
+      citations: [],
+    });
+  });
+});
+
+describe('normalizeCitations', () => {
+  it('should merge duplicates by URL and order by citation marker', () => {
+    expect(
+      normalizeCitations([
+        { url: 'https://c.example/', index: '3' },
+        { url: 'https://a.example/', index: '1' },
+        { url: 'https://c.example/', title: ' Site  C ' },
+        { url: 'javascript:void(0)' },
+      ]),
+    ).toEqual([
+      { url: 'https://a.example/', index: '1' },
+      { url: 'https://c.example/', index: '3', title: 'Site C' },
+    ]);
+  });
+});
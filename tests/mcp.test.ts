@@ -0,0 +1,133 @@
+import { mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { BrowserPool } from '../src/browser/index.js';
+import { createMcpServer } from '../src/mcp/server.js';
+import { createMcpTools, type McpTool } from '../src/mcp/tools.js';
+import { listProviders } from '../src/providers/index.js';
+import type { ChatOptions } from '../src/types.js';
+
+const fakePool: BrowserPool = {
+  launch: async () => {
+    throw new Error('browser should not be launched in tests');
+  },
+  warmProviders: () => [],
+  closeAll: async () => {},
+};
+
+function createTestServer(calls: ChatOptions[] = []) {
+  const tools = createMcpTools({
+    pool: fakePool,
+    runChat: async (options) => {
+      calls.push(options);
+      return {
+        sessionId: 'session-1',
+        turn: 1,
+        provider: options.provider ?? 'chatgpt',
+        response: `echo: ${options.prompt}`,
+        truncated: false,
+        durationMs: 5,
+      };
+    },
+  });
+  return createMcpServer({ name: 'douzhi-chat', version: 'test' }, tools);
+}
+
+describe('MCP server', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-mcp-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should negotiate the protocol version on initialize', async () => {
+    const server = createTestServer();
+
+    const response = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05' },
+    });
+
+    expect(response?.result).toMatchObject({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'douzhi-chat' },
+    });
+    expect(
+      await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    ).toBeNull();
+  });
+
+  it('should derive the ask_provider provider enum from the registry', async () => {
+    const server = createTestServer();
+
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const { tools } = (response?.result ?? {}) as { tools: McpTool[] };
+    const ask = tools.find((tool) => tool.name === 'ask_provider');
+
+    expect(tools.map((tool) => tool.name)).toEqual(
+      expect.arrayContaining(['ask_provider', 'list_sessions', 'get_session', 'crawl_sources']),
+    );
+    expect(ask?.inputSchema.properties?.provider.enum).toEqual(listProviders());
+    expect(ask?.inputSchema.required).toEqual(['prompt']);
+  });
+
+  it('should call runChat for ask_provider and report tool errors as results', async () => {
+    const calls: ChatOptions[] = [];
+    const server = createTestServer(calls);
+
+    const ok = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'ask_provider', arguments: { prompt: 'hi', provider: 'claude' } },
+    });
+    const { content } = (ok?.result ?? {}) as { content: Array<{ text: string }> };
+    const text = content[0].text;
+    expect(JSON.parse(text)).toMatchObject({ provider: 'claude', response: 'echo: hi' });
+    expect(calls[0]).toMatchObject({ prompt: 'hi', provider: 'claude' });
+
+    const bad = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'tools/call',
+      params: { name: 'ask_provider', arguments: { prompt: 'hi', provider: 'nope' } },
+    });
+    expect(bad?.result).toMatchObject({ isError: true });
+  });
+
+  it('should return JSON-RPC errors for unknown methods and tools', async () => {
+    const server = createTestServer();
+
+    const method = await server.handleMessage({ jsonrpc: '2.0', id: 5, method: 'resources/list' });
+    expect(method?.error?.code).toBe(-32601);
+
+    const tool = await server.handleMessage({
+      jsonrpc: '2.0',
+      id: 6,
+      method: 'tools/call',
+      params: { name: 'nope' },
+    });
+    expect(tool?.error?.code).toBe(-32602);
+  });
+
+  it('should reject messages that are not requests without failing', async () => {
+    const server = createTestServer();
+
+    for (const message of [null, 42, [], { jsonrpc: '2.0', id: 7, method: 3 }]) {
+      const response = await server.handleMessage(message);
+      expect(response?.error?.code).toBe(-32600);
+    }
+    expect((await server.handleMessage({ jsonrpc: '2.0', id: 7, method: 3 }))?.id).toBe(7);
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 1, result: {} })).toBeNull();
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 5 })).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { matchModel, modelFromLabel } from '../src/providers/model-picker.js';
+import { getProvider, listProviders } from '../src/providers/registry.js';
+
+describe('matchModel', () => {
+  it('should return the canonical model name case-insensitively', () => {
+    expect(matchModel(getProvider('chatgpt').config, 'gpt-4o mini')).toBe('GPT-4o mini');
+    expect(matchModel(getProvider('deepseek').config, 'deepseek-r1')).toBe('DeepSeek-R1');
+  });
+
+  it('should fail fast with the available models', () => {
+    expect(() => matchModel(getProvider('claude').config, 'Claude 2')).toThrow(
+      'Unknown model "Claude 2" for Claude. Available: Claude 4 Sonnet, Claude 4 Opus',
+    );
+    expect(() => matchModel(getProvider('notebooklm').config, 'anything')).toThrow(
+      'NotebookLM does not support model selection.',
+    );
+  });
+
+  it('should give every provider with a models list a picker', () => {
+    for (const name of listProviders()) {
+      const { config, actions } = getProvider(name);
+      if (!config.models?.length) continue;
+      expect(actions.selectModel, name).toBeDefined();
+      expect(actions.readModel, name).toBeDefined();
+      expect(config.models, name).toContain(config.defaultModel);
+    }
+  });
+});
+
+describe('modelFromLabel', () => {
+  it('should prefer the longest model name contained in the label', () => {
+    const models = getProvider('chatgpt').config.models ?? [];
+    expect(modelFromLabel(models, 'ChatGPT 4o mini')).toBe('GPT-4o mini');
+    expect(modelFromLabel(models, 'ChatGPT 4o')).toBe('GPT-4o');
+    expect(modelFromLabel(models, 'Something else')).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  flattenMessages,
+  listModelIds,
+  OpenAIRequestError,
+  parseChatCompletionRequest,
+  resolveModel,
+} from '../src/server/openai.js';
+
+describe('resolveModel', () => {
+  it('should accept provider names, provider/model pairs and bare UI models', () => {
+    expect(resolveModel('deepseek')).toEqual({ provider: 'deepseek' });
+    expect(resolveModel('claude/claude 4 opus')).toEqual({
+      provider: 'claude',
+      model: 'Claude 4 Opus',
+    });
+    expect(resolveModel('GPT-4o')).toEqual({ provider: 'chatgpt', model: 'GPT-4o' });
+  });
+
+  it('should route a model hosted by several providers to the one it is named after', () => {
+    expect(resolveModel('deepseek-r1')).toEqual({ provider: 'deepseek', model: 'DeepSeek-R1' });
+    expect(resolveModel('yuanbao/DeepSeek-R1')).toEqual({
+      provider: 'yuanbao',
+      model: 'DeepSeek-R1',
+    });
+  });
+
+  it('should reject unknown models with a 404 listing the available ids', () => {
+    expect(() => resolveModel('gpt-9')).toThrow(/does not exist/);
+    expect(() => resolveModel('claude/Claude 1')).toThrowError(
+      expect.objectContaining({ status: 404, code: 'model_not_found' }),
+    );
+    expect(listModelIds()).toContain('gemini/Gemini 2.5 Pro');
+  });
+});
+
+describe('flattenMessages', () => {
+  it('should return the user message unchanged for a single-turn request', () => {
+    expect(flattenMessages([{ role: 'user', content: 'hello' }])).toBe('hello');
+  });
+
+  it('should put instructions and history ahead of the last user message', () => {
+    const prompt = flattenMessages([
+      { role: 'system', content: 'Be terse.' },
+      { role: 'user', content: 'What is 2+2?' },
+      { role: 'assistant', content: '4' },
+      { role: 'user', content: [{ type: 'text', text: 'And 3+3?' }] },
+    ]);
+
+    expect(prompt).toBe(
+      [
+        '# Instructions\n',
+        'Be terse.',
+        '',
+        '# Conversation so far\n',
+        '**user:**\nWhat is 2+2?\n',
+        '**assistant:**\n4\n',
+        '# Current message\n',
+        'And 3+3?',
+      ].join('\n'),
+    );
+  });
+
+  it('should reject requests without a user message or with non-text parts', () => {
+    expect(() => flattenMessages([{ role: 'system', content: 'x' }])).toThrow(/user message/);
+    expect(() => flattenMessages([{ role: 'user', content: [{ type: 'image_url' }] }])).toThrow(
+      /not supported/,
+    );
+  });
+});
+
+describe('parseChatCompletionRequest', () => {
+  it('should keep well-formed messages', () => {
+    const request = parseChatCompletionRequest({
+      model: 'claude',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+      ],
+    });
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+    ]);
+  });
+
+  it.each([
+    [null, 'messages[0]'],
+    [42, 'messages[0]'],
+    [{ content: 'Hi' }, 'messages[0].role'],
+    [{ role: 'user', content: 7 }, 'messages[0].content'],
+    [{ role: 'user', content: [null] }, 'messages[0].content[0]'],
+    [{ role: 'user', content: [{ type: 'text', text: 1 }] }, 'messages[0].content[0].text'],
+  ])('should reject the message %j with a 400 naming %s', (message, param) => {
+    let error: unknown;
+    try {
+      parseChatCompletionRequest({ model: 'claude', messages: [message] });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(OpenAIRequestError);
+    expect(error).toMatchObject({ status: 400, param });
+  });
+});
@@ -4,13 +4,17 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import {
   getAppDir,
   getConfigPath,
+  getDaemonLogPath,
+  getDaemonSocketPath,
   getErrorsDir,
   getErrorsLogPath,
   getProfileDir,
   getRiskDir,
+  getRiskLockPath,
   getRiskStatePath,
   getSessionDir,
   getSessionsDir,
+  getSessionTurnDir,
 } from '../src/paths.js';
 
 describe('Paths', () => {
@@ -53,6 +57,13 @@ describe('Paths', () => {
     );
   });
 
+  it('should return zero-padded turn dir within a session', () => {
+    delete process.env.DOUZHI_CHAT_HOME;
+    expect(getSessionTurnDir('abc-123', 2)).toBe(
+      path.join(os.homedir(), '.douzhi-chat', 'sessions', 'abc-123', 'turns', '002'),
+    );
+  });
+
   it('should return config path', () => {
     delete process.env.DOUZHI_CHAT_HOME;
     expect(getConfigPath()).toBe(path.join(os.homedir(), '.douzhi-chat', 'config.json'));
@@ -70,5 +81,14 @@ describe('Paths', () => {
     delete process.env.DOUZHI_CHAT_HOME;
     expect(getRiskDir()).toBe(path.join(os.homedir(), '.douzhi-chat', 'risk'));
     expect(getRiskStatePath()).toBe(path.join(os.homedir(), '.douzhi-chat', 'risk', 'state.json'));
+    expect(getRiskLockPath()).toBe(path.join(os.homedir(), '.douzhi-chat', 'risk', 'state.lock'));
+  });
+
+  it('should return daemon socket and log paths', () => {
+    delete process.env.DOUZHI_CHAT_HOME;
+    if (process.platform !== 'win32') {
+      expect(getDaemonSocketPath()).toBe(path.join(os.homedir(), '.douzhi-chat', 'daemon.sock'));
+    }
+    expect(getDaemonLogPath()).toBe(path.join(os.homedir(), '.douzhi-chat', 'daemon.log'));
   });
 });
@@ -0,0 +1,155 @@
+import { mkdtemp, readdir, readFile, stat, utimes, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getBlobsDir, getSessionDir } from '../src/paths.js';
+import {
+  addSessionTurn,
+  applyRetentionPolicy,
+  createSession,
+  expandBundle,
+  getSessionContents,
+  getStorageUsage,
+  listSessions,
+  pruneSessions,
+  saveBundle,
+  updateSession,
+} from '../src/session/index.js';
+import type { SessionStatus } from '../src/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LARGE_FILE = 'export const data = "x";\n'.repeat(100);
+
+function bundleWith(prompt: string, content: string): string {
+  return `${prompt}\n\n# Context Files (1)\n\n## src/data.ts\n\n\`\`\`ts\n${content}\n\`\`\`\n`;
+}
+
+async function recordSession(status: SessionStatus, ageDays: number, bundle: string) {
+  const session = await createSession('chatgpt', 'question');
+  const turn = await addSessionTurn(session.id, 'question');
+  await saveBundle(session.id, bundle, turn.index);
+  const meta = await updateSession(session.id, { status });
+  const updatedAt = new Date(Date.now() - ageDays * DAY_MS).toISOString();
+  await writeFile(
+    path.join(getSessionDir(session.id), 'meta.json'),
+    JSON.stringify({ ...meta, updatedAt }),
+  );
+  return session.id;
+}
+
+async function listBlobFiles(): Promise<string[]> {
+  const shards = await readdir(getBlobsDir()).catch(() => []);
+  const files = await Promise.all(
+    shards.map(async (shard) =>
+      (await readdir(path.join(getBlobsDir(), shard))).map((name) =>
+        path.join(getBlobsDir(), shard, name),
+      ),
+    ),
+  );
+  return files.flat();
+}
+
+describe('session retention', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-retention-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should store a file bundled by many sessions once', async () => {
+    const first = await recordSession('completed', 0, bundleWith('one', LARGE_FILE));
+    await recordSession('completed', 0, bundleWith('two', LARGE_FILE));
+    await recordSession('completed', 0, bundleWith('small', 'const x = 1;'));
+
+    expect(await listBlobFiles()).toHaveLength(1);
+    const stored = await readFile(
+      path.join(getSessionDir(first), 'turns', '001', 'bundle.md'),
+      'utf-8',
+    );
+    expect(stored).toMatch(/^## src\/data\.ts\n\n<!-- douzhi-blob:[0-9a-f]{64} -->$/m);
+    expect(stored.length).toBeLessThan(200);
+
+    const contents = await getSessionContents(first);
+    expect(contents.turns[0].bundle).toBe(bundleWith('one', LARGE_FILE));
+
+    const usage = await getStorageUsage();
+    expect(usage.sessions).toBe(3);
+    expect(usage.blobBytes).toBeGreaterThan(LARGE_FILE.length);
+    expect(usage.totalBytes).toBe(usage.sessionBytes + usage.blobBytes);
+  });
+
+  it('should only treat markers in place of a context file body as stored files', async () => {
+    const marker = `<!-- douzhi-blob:${'a'.repeat(64)} -->`;
+    const bundle = bundleWith(`Explain this line:\n\n${marker}`, LARGE_FILE);
+    const id = await recordSession('completed', 0, bundle);
+
+    const stored = await readFile(
+      path.join(getSessionDir(id), 'turns', '001', 'bundle.md'),
+      'utf-8',
+    );
+    expect(stored.startsWith(`Explain this line:\n\n${marker}\n`)).toBe(true);
+    expect((await getSessionContents(id)).turns[0].bundle).toBe(bundle);
+
+    const [blob] = await listBlobFiles();
+    const hash = path.basename(blob);
+    expect(await expandBundle(`Response quoting\n\n<!-- douzhi-blob:${hash} -->`)).toBe(
+      `Response quoting\n\n<!-- douzhi-blob:${hash} -->`,
+    );
+  });
+
+  it('should prune by age and status and collect unshared file bodies', async () => {
+    const oldFailed = await recordSession('failed', 40, bundleWith('a', LARGE_FILE));
+    const oldCompleted = await recordSession('completed', 40, 'b');
+    const recentFailed = await recordSession('failed', 1, 'c');
+
+    const preview = await pruneSessions({
+      olderThanMs: 30 * DAY_MS,
+      statuses: ['failed'],
+      dryRun: true,
+    });
+    expect(preview.removed.map((meta) => meta.id)).toEqual([oldFailed]);
+    expect(preview.freedBytes).toBeGreaterThan(LARGE_FILE.length);
+    expect(await listSessions({ hours: Number.POSITIVE_INFINITY })).toHaveLength(3);
+
+    // Pretend the blob was written before the garbage collector's grace period
+    const [blob] = await listBlobFiles();
+    const longAgo = new Date(Date.now() - 2 * DAY_MS);
+    await utimes(blob, longAgo, longAgo);
+
+    await pruneSessions({ olderThanMs: 30 * DAY_MS, statuses: ['failed'] });
+    const remaining = await listSessions({ hours: Number.POSITIVE_INFINITY });
+    expect(remaining.map((meta) => meta.id).sort()).toEqual([oldCompleted, recentFailed].sort());
+    await expect(stat(blob)).rejects.toThrow();
+  });
+
+  it('should apply the retention policy oldest first, sparing active and kept sessions', async () => {
+    const expired = await recordSession('completed', 100, 'a');
+    const oldest = await recordSession('completed', 10, 'b');
+    const running = await recordSession('running', 9, 'c');
+    const kept = await recordSession('failed', 8, 'd');
+    const newest = await recordSession('completed', 1, 'e');
+
+    const result = await applyRetentionPolicy({ maxAgeDays: 90, maxSessions: 3 }, { keep: [kept] });
+    expect(result.removed.map((meta) => meta.id)).toEqual([expired, oldest]);
+
+    const remaining = await listSessions({ hours: Number.POSITIVE_INFINITY });
+    expect(remaining.map((meta) => meta.id).sort()).toEqual([running, kept, newest].sort());
+    expect((await applyRetentionPolicy(undefined)).removed).toEqual([]);
+  });
+
+  it('should not expire sessions that may still be written to', async () => {
+    const expired = await recordSession('completed', 100, 'a');
+    const pending = await recordSession('pending', 100, 'b');
+    const running = await recordSession('running', 100, 'c');
+
+    const result = await applyRetentionPolicy({ maxAgeDays: 90 });
+    expect(result.removed.map((meta) => meta.id)).toEqual([expired]);
+    const remaining = await listSessions({ hours: Number.POSITIVE_INFINITY });
+    expect(remaining.map((meta) => meta.id).sort()).toEqual([pending, running].sort());
+  });
+});
@@ -1,15 +1,22 @@
-import { mkdtemp, readFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, readdir, readFile, writeFile } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { saveConfig } from '../src/config.js';
 import {
+  acquireRiskSlot,
   detectRiskOutcomeFromError,
   detectRiskOutcomeFromResponse,
   evaluateRiskGuard,
+  explainRiskGuard,
+  getRiskPolicies,
+  getRiskStatus,
   recordRiskAttemptStart,
   recordRiskOutcome,
+  resetRiskState,
 } from '../src/core/risk-guard.js';
-import { getRiskStatePath } from '../src/paths.js';
+import { getRiskDir, getRiskStatePath } from '../src/paths.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
 
 describe('risk guard', () => {
   const originalEnv = process.env;
@@ -117,6 +124,186 @@ describe('risk guard', () => {
     expect(decision.waitMs).toBeGreaterThan(0);
   });
 
+  it('should report, explain and reset provider state without recording attempts', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-inspect-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+
+    let nowMs = 1_700_000_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => nowMs);
+
+    await recordRiskAttemptStart({ provider: 'deepseek', mode: 'headless', prompt: 'first' });
+    await recordRiskOutcome({ provider: 'deepseek', kind: 'http_429', message: 'HTTP 429' });
+    nowMs += 60_000;
+
+    const [status] = await getRiskStatus();
+    expect(status).toMatchObject({
+      provider: 'deepseek',
+      cooldownMs: 59 * 60_000,
+      breakerMs: 0,
+      consecutiveRiskEvents: 1,
+      attempts: { used: 1, limit: 4 },
+      headlessAttempts: { used: 1, limit: 2 },
+      nextAttemptMs: { headed: 60_000, headless: 4 * 60_000 },
+      riskEvents: [{ kind: 'http_429', message: 'HTTP 429' }],
+    });
+
+    const before = await readFile(getRiskStatePath(), 'utf-8');
+    const explanation = await explainRiskGuard({
+      provider: 'deepseek',
+      mode: 'headed',
+      prompt: 'first',
+    });
+    expect(explanation.decision.allowed).toBe(false);
+    expect(explanation.decision.message).toContain('cooling down');
+    expect(explanation.checks.filter((check) => !check.passed).map((check) => check.rule)).toEqual([
+      'cooldown',
+      'min_interval',
+    ]);
+    expect(await readFile(getRiskStatePath(), 'utf-8')).toBe(before);
+
+    expect(await resetRiskState('deepseek')).toBe(true);
+    expect(await resetRiskState('deepseek')).toBe(false);
+    expect(await getRiskStatus()).toEqual([]);
+    const decision = await evaluateRiskGuard({ provider: 'deepseek', mode: 'headed', prompt: 'x' });
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('should queue slot requests and space them by the minimum interval', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-slot-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+
+    let nowMs = 1_700_000_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => nowMs);
+    const waits: Array<[string | undefined, number]> = [];
+    const wait = async (denial: { rule?: string; waitMs: number }) => {
+      waits.push([denial.rule, denial.waitMs]);
+      nowMs += denial.waitMs;
+    };
+
+    const request = { provider: 'deepseek', mode: 'headed', maxWaitMs: 10 * 60_000, wait } as const;
+    const decisions = await Promise.all([
+      acquireRiskSlot({ ...request, prompt: 'first' }),
+      acquireRiskSlot({ ...request, prompt: 'second' }),
+    ]);
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true]);
+    expect(waits).toEqual([['min_interval', 2 * 60_000]]);
+
+    const [status] = await getRiskStatus('deepseek');
+    expect(status.attempts.used).toBe(2);
+
+    // Without a wait budget, or with one too small, the denial is returned at once
+    const denied = await acquireRiskSlot({ provider: 'deepseek', mode: 'headed', prompt: 'third' });
+    expect(denied).toMatchObject({ allowed: false, rule: 'min_interval' });
+    const tooLong = await acquireRiskSlot({ ...request, prompt: 'third', maxWaitMs: 60_000 });
+    expect(tooLong.allowed).toBe(false);
+    nowMs += 2 * 60_000;
+    expect((await acquireRiskSlot({ ...request, prompt: 'first' })).allowed).toBe(true);
+    nowMs += 2 * 60_000;
+    const repeated = await acquireRiskSlot({ ...request, prompt: 'first' });
+    expect(repeated).toMatchObject({ allowed: false, rule: 'same_prompt' });
+    expect(waits).toHaveLength(1);
+  });
+
+  it('should keep every attempt from concurrent writers', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-concurrent-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+
+    await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        recordRiskAttemptStart({ provider: 'chatgpt', mode: 'headless', prompt: `prompt ${i}` }),
+      ),
+    );
+
+    const [status] = await getRiskStatus('chatgpt');
+    expect(status.attempts.used).toBe(8);
+    expect((await readdir(getRiskDir())).sort()).toEqual(['state.json']);
+  });
+
+  it('should move an unreadable state file aside instead of discarding it', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-corrupt-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await mkdir(getRiskDir(), { recursive: true });
+    await writeFile(getRiskStatePath(), '{"version":1,"providers":{"chatgpt":{"attem', 'utf-8');
+    expect(await getRiskStatus()).toEqual([]);
+
+    const decision = await evaluateRiskGuard({ provider: 'chatgpt', mode: 'headed', prompt: 'hi' });
+    expect(decision.allowed).toBe(true);
+    const backups = (await readdir(getRiskDir())).filter((name) => name.includes('.corrupt-'));
+    expect(backups).toHaveLength(1);
+    expect(await readFile(path.join(getRiskDir(), backups[0]), 'utf-8')).toContain('"attem');
+    expect(JSON.parse(await readFile(getRiskStatePath(), 'utf-8')).version).toBe(1);
+  });
+
+  it('should apply config policy overrides on the next check without losing attempts', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-policy-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+
+    let nowMs = 1_700_000_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => nowMs);
+
+    await recordRiskAttemptStart({ provider: 'yuanbao', mode: 'headed', prompt: 'same prompt' });
+    nowMs += 4 * 60 * 60_000;
+
+    await saveConfig({
+      ...DEFAULT_CONFIG,
+      riskPolicy: {
+        default: { attemptsLimit: 10, samePromptLimit: 5 },
+        providers: { yuanbao: { samePromptWindowMs: 60 * 60_000 } },
+      },
+    });
+    const [report] = await getRiskPolicies(['yuanbao']);
+    expect(report.policy).toMatchObject({
+      attemptsLimit: 3,
+      samePromptLimit: 1,
+      samePromptWindowMs: 60 * 60_000,
+    });
+    expect(report.configured).toEqual(['samePromptWindowMs']);
+    expect(
+      (await evaluateRiskGuard({ provider: 'yuanbao', mode: 'headed', prompt: 'same prompt' }))
+        .allowed,
+    ).toBe(true);
+
+    // Widening the window again still sees the earlier attempt
+    await saveConfig({ ...DEFAULT_CONFIG });
+    const decision = await evaluateRiskGuard({
+      provider: 'yuanbao',
+      mode: 'headed',
+      prompt: 'same prompt',
+    });
+    expect(decision.message).toContain('repeated prompt pattern');
+  });
+
+  it('should reject invalid policy overrides', async () => {
+    const tmpHome = await mkdtemp(path.join(os.tmpdir(), 'douzhi-risk-invalid-'));
+    process.env.DOUZHI_CHAT_HOME = tmpHome;
+
+    await saveConfig({
+      ...DEFAULT_CONFIG,
+      riskPolicy: { providers: { chatgpt: { attemptsLimit: 0 } } },
+    });
+    await expect(
+      evaluateRiskGuard({ provider: 'chatgpt', mode: 'headed', prompt: 'hello' }),
+    ).rejects.toThrow('riskPolicy.providers.chatgpt.attemptsLimit must be a positive integer');
+
+    await saveConfig({
+      ...DEFAULT_CONFIG,
+      riskPolicy: { default: { cooldownByOutcomeMs: { http_428: 1000 } } } as never,
+    });
+    await expect(getRiskPolicies(['chatgpt'])).rejects.toThrow(
+      'unknown outcome riskPolicy.default.cooldownByOutcomeMs.http_428',
+    );
+
+    await saveConfig({
+      ...DEFAULT_CONFIG,
+      riskPolicy: { profiles: { work: { attemptsLimit: 2 } } } as never,
+    });
+    await expect(getRiskPolicies(['chatgpt'])).rejects.toThrow(
+      'riskPolicy.profiles is not supported; each account profile has its own app home',
+    );
+  });
+
   it('should classify risk outcomes from errors and responses', () => {
     expect(detectRiskOutcomeFromError(new Error('HTTP 429 Too Many Requests'))).toBe('http_429');
     expect(detectRiskOutcomeFromError(new Error('Not logged in'))).toBe('auth_required');
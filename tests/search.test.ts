@@ -0,0 +1,102 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSearchIndexPath, getSessionDir } from '../src/paths.js';
+import {
+  addSessionTurn,
+  createSession,
+  saveBundle,
+  saveResponse,
+  searchSessions,
+  updateSession,
+} from '../src/session/index.js';
+import type { ProviderName } from '../src/types.js';
+
+async function recordSession(provider: ProviderName, bundle: string, response: string) {
+  const session = await createSession(provider, bundle, `${provider}-model`);
+  const turn = await addSessionTurn(session.id, bundle);
+  await saveBundle(session.id, bundle, turn.index);
+  await saveResponse(session.id, response, turn.index);
+  await updateSession(session.id, { status: 'completed' });
+  return session;
+}
+
+describe('session search', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-search-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should find turns containing every query word and highlight them', async () => {
+    const race = await recordSession(
+      'chatgpt',
+      'Why does the watcher crash?',
+      'The file watcher has a race condition during initialization.',
+    );
+    await recordSession('gemini', 'Explain the race', 'A race between two promises.');
+
+    const hits = await searchSessions('race watch*');
+    expect(hits.map((hit) => hit.session.id)).toEqual([race.id]);
+
+    const snippet = hits[0].snippets.find((s) => s.file === 'response');
+    const highlighted = snippet?.highlights.map(([start, end]) => snippet.text.slice(start, end));
+    expect(highlighted).toEqual(['watcher', 'race']);
+
+    expect(await searchSessions('race', { provider: 'gemini' })).toHaveLength(1);
+    expect(await searchSessions('race', { model: 'CHATGPT' })).toHaveLength(1);
+    expect(await searchSessions('race', { status: 'failed' })).toHaveLength(0);
+    expect(await searchSessions('race', { since: new Date(Date.now() + 60_000) })).toHaveLength(0);
+  });
+
+  it('should match CJK text without word breaks', async () => {
+    const session = await recordSession('yuanbao', '解释一下', '这个函数存在竞态条件，需要加锁。');
+
+    const hits = await searchSessions('竞态条件');
+    expect(hits.map((hit) => hit.session.id)).toEqual([session.id]);
+    expect(hits[0].snippets[0].text).toContain('竞态条件');
+    expect(await searchSessions('条件竞态')).toHaveLength(0);
+  });
+
+  it('should update the index as responses are saved and sessions deleted', async () => {
+    const session = await recordSession('claude', 'first question', 'nothing relevant');
+    const second = await addSessionTurn(session.id, 'follow-up');
+    await saveResponse(session.id, 'now mentioning kubernetes', second.index);
+
+    const index = JSON.parse(await readFile(getSearchIndexPath(), 'utf-8'));
+    expect(Object.keys(index.postings.kubernetes)).toEqual([`${session.id}/2/response`]);
+
+    const hits = await searchSessions('kubernetes');
+    expect(hits.map((hit) => hit.turn)).toEqual([2]);
+
+    await rm(getSessionDir(session.id), { recursive: true });
+    expect(await searchSessions('kubernetes')).toHaveLength(0);
+    const pruned = JSON.parse(await readFile(getSearchIndexPath(), 'utf-8'));
+    expect(pruned.postings.kubernetes).toBeUndefined();
+  });
+
+  it('should index words that collide with object prototype keys', async () => {
+    const session = await recordSession(
+      'chatgpt',
+      'What do these keys do?',
+      'Assigning __proto__ or constructor changes what toString resolves to.',
+    );
+
+    const index = JSON.parse(await readFile(getSearchIndexPath(), 'utf-8'));
+    expect(Object.keys(index.postings)).toEqual(
+      expect.arrayContaining(['__proto__', 'constructor', 'tostring']),
+    );
+    expect(({} as Record<string, unknown>)[`${session.id}/1/response`]).toBeUndefined();
+
+    for (const term of ['__proto__', 'constructor', 'toString']) {
+      const hits = await searchSessions(term);
+      expect(hits.map((hit) => hit.session.id)).toEqual([session.id]);
+    }
+  });
+});
@@ -0,0 +1,287 @@
+import { mkdtemp } from 'node:fs/promises';
+import { request } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { BrowserPool } from '../src/browser/index.js';
+import type { ChatResult } from '../src/core/orchestrator.js';
+import { createKeyedQueue } from '../src/core/queue.js';
+import { RiskGuardError } from '../src/core/risk-guard.js';
+import { type ApiServer, startApiServer } from '../src/server/http.js';
+import { addSessionTurn, createSession, saveBundle, saveResponse } from '../src/session/index.js';
+import type { ChatOptions } from '../src/types.js';
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+const fakePool: BrowserPool = {
+  launch: async () => {
+    throw new Error('browser should not be launched in tests');
+  },
+  warmProviders: () => [],
+  closeAll: async () => {},
+};
+
+function fakeResult(options: ChatOptions): ChatResult {
+  return {
+    sessionId: 'session-1',
+    turn: 1,
+    provider: options.provider ?? 'chatgpt',
+    response: `echo: ${options.prompt}`,
+    truncated: false,
+    durationMs: 10,
+  };
+}
+
+describe('createKeyedQueue', () => {
+  it('should serialize tasks per key and keep going after a failure', async () => {
+    const queue = createKeyedQueue();
+    const order: string[] = [];
+    const task =
+      (label: string, fail = false) =>
+      async () => {
+        order.push(`start ${label}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(`end ${label}`);
+        if (fail) throw new Error(label);
+        return label;
+      };
+
+    const first = queue.run('claude', task('a', true));
+    const second = queue.run('claude', task('b'));
+    expect(queue.pending('claude')).toBe(2);
+
+    await expect(first).rejects.toThrow('a');
+    await expect(second).resolves.toBe('b');
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+    expect(queue.pending('claude')).toBe(0);
+  });
+});
+
+describe('API server', () => {
+  const originalEnv = process.env;
+  let api: ApiServer | undefined;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-server-'));
+  });
+
+  afterEach(async () => {
+    await api?.close();
+    api = undefined;
+    process.env = originalEnv;
+  });
+
+  it('should run a blocking chat with the pooled launcher', async () => {
+    const calls: ChatOptions[] = [];
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async (options, runtime) => {
+        calls.push(options);
+        expect(runtime.launchBrowser).toBe(fakePool.launch);
+        return fakeResult(options);
+      },
+    });
+
+    const res = await fetch(`${api.url}/chat`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ prompt: 'hello', provider: 'claude', file: ['src/**/*.ts'] }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ provider: 'claude', response: 'echo: hello' });
+    expect(calls[0]).toMatchObject({ prompt: 'hello', provider: 'claude', file: ['src/**/*.ts'] });
+  });
+
+  it('should stream chunks as server-sent events', async () => {
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async (options) => {
+        options.onChunk?.('par');
+        options.onChunk?.('tial');
+        return fakeResult(options);
+      },
+    });
+
+    const res = await fetch(`${api.url}/chat`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ prompt: 'hello', provider: 'deepseek', stream: true }),
+    });
+    const text = await res.text();
+
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    expect(text).toContain('event: chunk\ndata: {"text":"par"}');
+    expect(text).toContain('event: chunk\ndata: {"text":"tial"}');
+    expect(text).toContain('event: done');
+  });
+
+  it('should reject invalid chat requests', async () => {
+    api = await startApiServer({ port: 0, pool: fakePool, runChat: async (o) => fakeResult(o) });
+
+    const missingPrompt = await fetch(`${api.url}/chat`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: '{}',
+    });
+    expect(missingPrompt.status).toBe(400);
+
+    const badProvider = await fetch(`${api.url}/chat`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ prompt: 'hi', provider: 'nope' }),
+    });
+    expect(badProvider.status).toBe(400);
+    expect(await badProvider.json()).toEqual({ error: 'Unknown provider: nope' });
+  });
+
+  it('should refuse requests a web page could forge', async () => {
+    const calls: ChatOptions[] = [];
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async (options) => {
+        calls.push(options);
+        return fakeResult(options);
+      },
+    });
+    const body = JSON.stringify({ prompt: 'hi', file: ['~/.ssh/*'] });
+
+    const plainText = await fetch(`${api.url}/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+      body,
+    });
+    expect(plainText.status).toBe(415);
+
+    const rebound = await new Promise<number | undefined>((resolve, reject) => {
+      const url = new URL(`${api?.url}/chat`);
+      const req = request(
+        { host: url.hostname, port: url.port, path: '/chat', method: 'POST' },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        },
+      );
+      req.on('error', reject);
+      req.setHeader('Host', `attacker.example:${url.port}`);
+      req.setHeader('Content-Type', 'application/json');
+      req.end(body);
+    });
+    expect(rebound).toBe(403);
+    expect(calls).toEqual([]);
+  });
+
+  it('should serve OpenAI chat completions mapped to a provider and UI model', async () => {
+    const calls: ChatOptions[] = [];
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async (options) => {
+        calls.push(options);
+        return fakeResult(options);
+      },
+    });
+
+    const res = await fetch(`${api.url}/v1/chat/completions`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        model: 'claude/Claude 4 Opus',
+        messages: [{ role: 'user', content: 'hello' }],
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      object: 'chat.completion',
+      model: 'claude/Claude 4 Opus',
+      choices: [{ message: { role: 'assistant', content: 'echo: hello' }, finish_reason: 'stop' }],
+    });
+    expect(calls[0]).toMatchObject({ prompt: 'hello', provider: 'claude', model: 'Claude 4 Opus' });
+  });
+
+  it('should stream OpenAI chunks and finish with [DONE]', async () => {
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async (options) => {
+        options.onChunk?.('he');
+        options.onChunk?.('llo');
+        return fakeResult(options);
+      },
+    });
+
+    const res = await fetch(`${api.url}/v1/chat/completions`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        model: 'deepseek',
+        stream: true,
+        messages: [{ role: 'user', content: 'hi' }],
+      }),
+    });
+    const events = (await res.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((event) => event.replace(/^data: /, ''));
+
+    expect(events.at(-1)).toBe('[DONE]');
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+    expect(chunks.map((chunk) => chunk.choices[0].delta)).toEqual([
+      { role: 'assistant' },
+      { content: 'he' },
+      { content: 'llo' },
+      {},
+    ]);
+    expect(chunks.at(-1).choices[0].finish_reason).toBe('stop');
+  });
+
+  it('should map risk guard denials to 429 with Retry-After', async () => {
+    api = await startApiServer({
+      port: 0,
+      pool: fakePool,
+      runChat: async () => {
+        throw new RiskGuardError('Risk guard blocked this request.', 'chatgpt', 90_500);
+      },
+    });
+
+    const res = await fetch(`${api.url}/v1/chat/completions`, {
+      method: 'POST',
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        model: 'chatgpt',
+        stream: true,
+        messages: [{ role: 'user', content: 'hi' }],
+      }),
+    });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('91');
+    expect(await res.json()).toMatchObject({
+      error: { type: 'rate_limit_error', code: 'rate_limit_exceeded' },
+    });
+  });
+
+  it('should list sessions and return session details', async () => {
+    const session = await createSession('gemini', 'what is up');
+    const turn = await addSessionTurn(session.id, 'what is up');
+    await saveBundle(session.id, '# bundle', turn.index);
+    await saveResponse(session.id, 'not much', turn.index);
+
+    api = await startApiServer({ port: 0, pool: fakePool, runChat: async (o) => fakeResult(o) });
+
+    const list = await (await fetch(`${api.url}/sessions`)).json();
+    expect(list.sessions.map((s: { id: string }) => s.id)).toEqual([session.id]);
+
+    const detail = await (await fetch(`${api.url}/sessions/${session.id}`)).json();
+    expect(detail.meta.provider).toBe('gemini');
+    expect(detail.turns[0]).toMatchObject({ index: 1, bundle: '# bundle', response: 'not much' });
+
+    const missing = await fetch(`${api.url}/sessions/does-not-exist`);
+    expect(missing.status).toBe(404);
+  });
+});
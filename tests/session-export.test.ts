@@ -0,0 +1,150 @@
+import { access, mkdtemp } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSessionTurnDir } from '../src/paths.js';
+import {
+  addSessionTurn,
+  createSession,
+  exportSessions,
+  getSessionContents,
+  importSessions,
+  listSessions,
+  saveBundle,
+  saveResponse,
+  updateSession,
+} from '../src/session/index.js';
+
+const BUNDLE = [
+  'Review this --> carefully </script>',
+  '',
+  '# Context Files (1)',
+  '',
+  '## src/app.ts',
+  '',
+  '```ts',
+  'export const x = 1;',
+  '```',
+  '',
+].join('\n');
+
+async function recordSession(): Promise<string> {
+  const session = await createSession('claude', 'Review this', 'opus');
+  const turn = await addSessionTurn(session.id, 'Review this');
+  await saveBundle(session.id, BUNDLE, turn.index);
+  await saveResponse(
+    session.id,
+    {
+      text: 'Looks good.',
+      markdown: '## Verdict\n\nLooks **good**.\n\n- one\n- two',
+      citations: [{ url: 'https://example.com/a', title: 'A' }],
+    },
+    turn.index,
+  );
+  await updateSession(session.id, { status: 'completed', durationMs: 4200 });
+  return session.id;
+}
+
+describe('session export', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-export-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should write transcripts with metadata, prompt, files and response', async () => {
+    const id = await recordSession();
+
+    const markdown = await exportSessions([id], 'md');
+    expect(markdown).toContain('| Provider | claude |');
+    expect(markdown).toContain('| Duration | 4s |');
+    expect(markdown).toContain('> Review this --> carefully </script>');
+    expect(markdown).toContain('### Files (1)\n\n- `src/app.ts`');
+    expect(markdown).toContain('## Verdict\n\nLooks **good**.');
+
+    const html = await exportSessions([id], 'html');
+    expect(html).toContain('<h3>Files (1)</h3><ul><li><code>src/app.ts</code></li></ul>');
+    expect(html).toContain('<h5>Verdict</h5>');
+    expect(html).toContain('<p>Looks <strong>good</strong>.</p>');
+    expect(html).toContain('<ul><li>one</li><li>two</li></ul>');
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+
+    const [record] = (await exportSessions([id], 'jsonl')).trim().split('\n').map(JSON.parse);
+    expect(record).toMatchObject({
+      session: { id, provider: 'claude', model: 'opus' },
+      turn: { index: 1, status: 'completed' },
+      prompt: 'Review this --> carefully </script>',
+      files: ['src/app.ts'],
+      citations: [{ url: 'https://example.com/a' }],
+    });
+  });
+
+  it.each(['md', 'html', 'jsonl'] as const)(
+    'should restore a %s export on another machine',
+    async (format) => {
+      const id = await recordSession();
+      const exported = await exportSessions([id], format);
+      const original = await getSessionContents(id);
+
+      process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-import-'));
+      expect(await importSessions(exported)).toEqual([{ id, turns: 1, imported: true }]);
+      expect(await getSessionContents(id)).toEqual(original);
+
+      expect(await importSessions(exported)).toEqual([{ id, turns: 1, imported: false }]);
+      expect(await importSessions(exported, { overwrite: true })).toEqual([
+        { id, turns: 1, imported: true },
+      ]);
+    },
+  );
+
+  it('should reject files that are not exports', async () => {
+    await expect(importSessions('# Just notes\n')).rejects.toThrow('Not a session export');
+    await expect(exportSessions(['missing'], 'md')).rejects.toThrow('Session not found: missing');
+  });
+
+  it('should reject malformed records before importing anything', async () => {
+    const id = await recordSession();
+    const [valid] = (await exportSessions([id], 'jsonl')).trim().split('\n').map(JSON.parse);
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-import-'));
+
+    const other = { ...valid, session: { ...valid.session, id: 'other' } };
+    const broken = [
+      { ...other, turn: { ...other.turn, index: 0 } },
+      { ...other, turn: { ...other.turn, index: '1' } },
+      { ...other, bundle: 42 },
+      { ...other, response: { text: 'hi' } },
+      { ...other, citations: undefined },
+    ];
+    for (const record of broken) {
+      const content = [valid, record].map((line) => JSON.stringify(line)).join('\n');
+      await expect(importSessions(content)).rejects.toThrow('Invalid session export: line 2');
+    }
+    const repeated = [valid, valid].map((line) => JSON.stringify(line)).join('\n');
+    await expect(importSessions(repeated)).rejects.toThrow(`Session ${id} repeats a turn index`);
+    expect(await listSessions({ hours: Number.POSITIVE_INFINITY })).toEqual([]);
+  });
+
+  it('should keep session names unique and drop stale turns on overwrite', async () => {
+    const id = await recordSession();
+    await updateSession(id, { name: 'review' });
+    const exported = await exportSessions([id], 'jsonl');
+
+    await addSessionTurn(id, 'Follow-up');
+    await importSessions(exported, { overwrite: true });
+    expect((await getSessionContents(id)).turns).toHaveLength(1);
+    await expect(access(getSessionTurnDir(id, 2))).rejects.toThrow();
+
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-import-'));
+    const taken = await createSession('chatgpt', 'Another review');
+    await updateSession(taken.id, { name: 'review' });
+    await expect(importSessions(exported)).rejects.toThrow('Session name already in use: review');
+    expect((await listSessions({ hours: Number.POSITIVE_INFINITY })).map((m) => m.id)).toEqual([
+      taken.id,
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { mkdir, mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getSessionDir } from '../src/paths.js';
+import {
+  addSessionTurn,
+  createSession,
+  getSession,
+  getSessionContents,
+  listSessions,
+  resolveSessionId,
+  saveBundle,
+  saveResponse,
+  sessionProject,
+  updateSession,
+} from '../src/session/index.js';
+
+describe('session store', () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv };
+    process.env.DOUZHI_CHAT_HOME = await mkdtemp(path.join(os.tmpdir(), 'douzhi-sessions-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should keep an ordered list of turns', async () => {
+    const session = await createSession('chatgpt', 'first question');
+
+    const first = await addSessionTurn(session.id, 'first question');
+    await saveBundle(session.id, 'bundle one', first.index);
+    await saveResponse(session.id, 'answer one', first.index);
+    await updateSession(session.id, {
+      status: 'completed',
+      durationMs: 1200,
+      conversationUrl: 'https://chatgpt.com/c/abc',
+    });
+
+    const second = await addSessionTurn(session.id, 'follow-up question');
+    await saveBundle(session.id, 'bundle two', second.index);
+
+    const result = await getSession(session.id);
+    expect(result.meta.conversationUrl).toBe('https://chatgpt.com/c/abc');
+    expect(result.turns.map((t) => t.turn.index)).toEqual([1, 2]);
+    expect(result.turns[0].turn.status).toBe('completed');
+    expect(result.turns[0].turn.durationMs).toBe(1200);
+    expect(result.turns[1].turn.status).toBe('pending');
+    expect(result.turns[1].responsePath).toBeUndefined();
+
+    // Top-level paths point at the latest turn
+    expect(await readFile(result.bundlePath, 'utf-8')).toBe('bundle two');
+    expect(result.responsePath).toBeUndefined();
+    expect(await readFile(result.turns[0].responsePath ?? '', 'utf-8')).toBe('answer one');
+  });
+
+  it('should read sessions saved before multi-turn support', async () => {
+    const id = 'legacy-session';
+    const dir = getSessionDir(id);
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, 'meta.json'),
+      JSON.stringify({
+        id,
+        provider: 'claude',
+        promptPreview: 'old prompt',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        status: 'completed',
+      }),
+    );
+    await writeFile(path.join(dir, 'bundle.md'), 'old bundle');
+    await writeFile(path.join(dir, 'response.md'), 'old answer');
+
+    const result = await getSession(id);
+    expect(result.turns).toHaveLength(1);
+    expect(result.turns[0].turn.promptPreview).toBe('old prompt');
+    expect(result.bundlePath).toBe(path.join(dir, 'bundle.md'));
+    expect(result.responsePath).toBe(path.join(dir, 'response.md'));
+  });
+
+  it('should store captured markdown with a structured response.json', async () => {
+    const session = await createSession('deepseek', 'question');
+    const turn = await addSessionTurn(session.id, 'question');
+    const citations = [{ index: '1', url: 'https://example.com/a', title: 'Example' }];
+    const responsePath = await saveResponse(
+      session.id,
+      {
+        text: 'Answer',
+        markdown: '**Answer**\n\n## Sources\n\n1. [Example](https://example.com/a)',
+        citations,
+        model: 'DeepSeek-R1',
+        truncated: false,
+      },
+      turn.index,
+    );
+
+    expect(await readFile(responsePath, 'utf-8')).toMatch(/^\*\*Answer\*\*/);
+    const structured = JSON.parse(
+      await readFile(path.join(path.dirname(responsePath), 'response.json'), 'utf-8'),
+    );
+    expect(structured).toMatchObject({ text: 'Answer', model: 'DeepSeek-R1', citations });
+
+    const contents = await getSessionContents(session.id);
+    expect(contents.turns[0].citations).toEqual(citations);
+  });
+
+  it('should resolve sessions by name or ID prefix and keep names unique', async () => {
+    const session = await createSession('chatgpt', 'question', undefined, {
+      name: ' auth review ',
+      tags: ['#security', 'auth', 'security'],
+    });
+    expect(session.name).toBe('auth review');
+    expect(session.tags).toEqual(['security', 'auth']);
+
+    expect(await resolveSessionId('auth review')).toBe(session.id);
+    expect(await resolveSessionId(session.id.slice(0, 6))).toBe(session.id);
+    expect((await getSession('auth review')).meta.id).toBe(session.id);
+    await expect(resolveSessionId('nope')).rejects.toThrow('Session not found: nope');
+
+    await expect(
+      createSession('gemini', 'other', undefined, { name: 'auth review' }),
+    ).rejects.toThrow('Session name already in use');
+    await expect(updateSession(session.id, { tags: ['has space'] })).rejects.toThrow('Invalid tag');
+    const renamed = await updateSession(session.id, { name: 'login review' });
+    expect(renamed.name).toBe('login review');
+  });
+
+  it('should filter sessions by tag, project and provider', async () => {
+    const repository = { root: '/work/douzhi', branch: 'main' };
+    const tagged = await createSession('chatgpt', 'a', undefined, {
+      tags: ['release'],
+      cwd: '/work/douzhi/src',
+      repository,
+    });
+    const other = await createSession('gemini', 'b', undefined, { cwd: '/tmp/scratch' });
+
+    const ids = async (filters: Parameters<typeof listSessions>[0]) =>
+      (await listSessions(filters)).map((meta) => meta.id);
+    expect(await ids({ tag: '#release' })).toEqual([tagged.id]);
+    expect(await ids({ project: 'DOUZHI' })).toEqual([tagged.id]);
+    expect(await ids({ project: '/work/douzhi/docs' })).toEqual([tagged.id]);
+    expect(await ids({ project: 'scratch', provider: 'gemini' })).toEqual([other.id]);
+    expect(await ids({ provider: 'claude' })).toEqual([]);
+    expect(sessionProject(tagged)).toBe('douzhi');
+  });
+});
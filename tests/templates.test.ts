@@ -0,0 +1,114 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { planBundle } from '../src/core/bundle.js';
+import { listTemplates, loadTemplate, parseTemplate } from '../src/core/templates.js';
+
+describe('prompt templates', () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'douzhi-templates-'));
+    process.env = { ...originalEnv, DOUZHI_CHAT_HOME: path.join(dir, 'home') };
+    await mkdir(path.join(dir, 'home', 'templates'), { recursive: true });
+    await mkdir(path.join(dir, 'project', '.douzhi', 'templates'), { recursive: true });
+    await mkdir(path.join(dir, 'project', 'src'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('parses front matter defaults', () => {
+    const template = parseTemplate(
+      'review',
+      '/t/review.md',
+      [
+        '---',
+        'description: Security review',
+        'provider: claude',
+        'model: "Claude 4 Opus"',
+        'files: [src/**/*.ts, "!**/*.test.ts"]',
+        'attach:',
+        '  - docs/threat-model.png',
+        '---',
+        'Review for security issues.',
+        '{{files}}',
+      ].join('\n'),
+    );
+
+    expect(template).toEqual({
+      name: 'review',
+      path: '/t/review.md',
+      description: 'Security review',
+      provider: 'claude',
+      model: 'Claude 4 Opus',
+      files: ['src/**/*.ts', '!**/*.test.ts'],
+      attach: ['docs/threat-model.png'],
+      body: 'Review for security issues.\n{{files}}',
+    });
+    expect(() => parseTemplate('x', '/t/x.md', '---\nprovider: nope\n---\n')).toThrow(
+      'Unknown provider in template x: nope',
+    );
+    expect(() => parseTemplate('x', '/t/x.md', '---\ncolor: red\n---\n')).toThrow(
+      'Invalid template setting',
+    );
+  });
+
+  it('prefers project templates over user templates', async () => {
+    await writeFile(path.join(dir, 'home', 'templates', 'review.md'), 'user review');
+    await writeFile(path.join(dir, 'home', 'templates', 'explain.md'), 'user explain');
+    await writeFile(path.join(dir, 'project', '.douzhi', 'templates', 'review.md'), 'project');
+
+    const cwd = path.join(dir, 'project', 'src');
+    expect((await loadTemplate('review', cwd)).body).toBe('project');
+    expect((await loadTemplate('explain', cwd)).body).toBe('user explain');
+    expect((await listTemplates(cwd)).map((template) => [template.name, template.body])).toEqual([
+      ['explain', 'user explain'],
+      ['review', 'project'],
+    ]);
+    await expect(loadTemplate('missing', cwd)).rejects.toThrow('Template not found: missing');
+  });
+
+  it('renders variables in place and appends what the template leaves out', async () => {
+    const cwd = path.join(dir, 'project');
+    await writeFile(path.join(cwd, 'src', 'app.ts'), 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+    const template = parseTemplate(
+      'tests',
+      'tests.md',
+      'Write tests for:\n\n{{selection}}\n\nContext:\n\n{{files}}',
+    );
+
+    const { bundle } = await planBundle({
+      prompt: 'Cover the edge cases.',
+      files: ['src/app.ts'],
+      cwd,
+      template,
+      selection: 'src/app.ts:2-3',
+      stdin: 'TypeError: b is not a function',
+    });
+
+    expect(bundle).toBe(
+      [
+        'Write tests for:',
+        '',
+        '```ts\nconst b = 2;\nconst c = 3;\n```',
+        '',
+        'Context:',
+        '',
+        '# Context Files (1)\n',
+        '## src/app.ts\n',
+        '```ts\nconst a = 1;\nconst b = 2;\nconst c = 3;\n\n```\n',
+        'Cover the edge cases.',
+        '',
+        '# Stdin\n\n```\nTypeError: b is not a function\n```\n',
+      ].join('\n'),
+    );
+    await expect(
+      planBundle({ prompt: '', cwd, template: parseTemplate('bad', 'bad.md', '{{nope}}') }),
+    ).rejects.toThrow('Unknown variable {{nope}} in template bad');
+  });
+});